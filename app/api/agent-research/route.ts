@@ -1,68 +1,42 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { AIAgent } from '@/lib/aiAgent';
+import { createLLMProvider } from '@/lib/llm';
+import { getReportStore } from '@/lib/reports';
+import { createSearchProvider } from '@/lib/search';
+import { getRunRegistry, streamRun } from '@/lib/runs';
+import { agentCallbacks } from '@/lib/sse';
+
+export const runtime = 'nodejs';
 
 export async function GET(req: NextRequest) {
   const { searchParams } = new URL(req.url);
   const message = searchParams.get('message');
-  const chatId = searchParams.get('chatId');
+  // Rounds of search and analysis; above 1 the agent follows up on gaps it finds
+  const maxDepth = Number(searchParams.get('depth') || process.env.RESEARCH_MAX_DEPTH) || 1;
+  const maxSearches = Number(process.env.RESEARCH_MAX_SEARCHES) || undefined;
   
   if (!message) {
     return NextResponse.json({ error: 'Missing message parameter' }, { status: 400 });
   }
   
-  const geminiKey = process.env.GEMINI_KEY_1 || process.env.GEMINI_KEY_2;
-  const searchKey = process.env.GOOGLE_SEARCH_API_KEY;
+  const llm = createLLMProvider();
+  const search = createSearchProvider();
 
-  if (!geminiKey || !searchKey) {
+  if (!llm || !search) {
     return NextResponse.json({ error: 'Missing API keys' }, { status: 400 });
   }
 
-  // Set up Server-Sent Events
-  const encoder = new TextEncoder();
-  
-  const stream = new ReadableStream({
-    start(controller) {
-      const agent = new AIAgent(geminiKey, searchKey, {
-        onPhaseStart: (phaseId: string, description: string) => {
-          const data = JSON.stringify({ type: 'phase_start', phaseId, description });
-          controller.enqueue(encoder.encode(`data: ${data}\n\n`));
-        },
-        onPhaseUpdate: (phaseId: string, progress: number, data?: any) => {
-          const updateData = JSON.stringify({ type: 'phase_update', phaseId, progress, data });
-          controller.enqueue(encoder.encode(`data: ${updateData}\n\n`));
-        },
-        onPhaseComplete: (phaseId: string, result: any) => {
-          const data = JSON.stringify({ type: 'phase_complete', phaseId, result });
-          controller.enqueue(encoder.encode(`data: ${data}\n\n`));
-        },
-        onError: (error: string) => {
-          const data = JSON.stringify({ type: 'error', error });
-          controller.enqueue(encoder.encode(`data: ${data}\n\n`));
-          controller.close();
-        }
-      });
-
-      // Start the research
-      agent.performResearch(message)
-        .then((result) => {
-          const data = JSON.stringify({ type: 'complete', result });
-          controller.enqueue(encoder.encode(`data: ${data}\n\n`));
-          controller.close();
-        })
-        .catch((error) => {
-          const data = JSON.stringify({ type: 'error', error: error.message });
-          controller.enqueue(encoder.encode(`data: ${data}\n\n`));
-          controller.close();
-        });
-    }
-  });
+  const agentRun = getRunRegistry().start('research', AIAgent.researchPlan({ maxDepth }), async (stream) => {
+    const agent = new AIAgent(llm, search, agentCallbacks(stream), stream.signal);
 
-  return new Response(stream, {
-    headers: {
-      'Content-Type': 'text/event-stream',
-      'Cache-Control': 'no-cache',
-      'Connection': 'keep-alive',
-    },
+    const { text, sources, run } = await agent.performResearch(message, { maxDepth, maxSearches });
+    // Keep the run so it can be exported as a report later
+    const report = await getReportStore().create(run).catch(error => {
+      console.error('Failed to save research run:', error);
+      return null;
+    });
+    stream.send({ type: 'complete', result: text, sources, reportId: report?.id });
   });
+  return streamRun(agentRun);
 }
@@ -0,0 +1,56 @@
+
+import { NextRequest, NextResponse } from 'next/server';
+import { EnhancedAIAgent, TaskAttachment, ToolCallEvent, ToolResultEvent } from '@/lib/enhancedAiAgent';
+import { getBlobStore, isValidBlobId } from '@/lib/blobStore';
+import { createLLMProvider } from '@/lib/llm';
+import { createSearchProvider } from '@/lib/search';
+import { getRunRegistry, streamRun } from '@/lib/runs';
+import { agentCallbacks } from '@/lib/sse';
+
+export const runtime = 'nodejs';
+
+export async function GET(req: NextRequest) {
+  const { searchParams } = new URL(req.url);
+  const message = searchParams.get('message');
+  const maxSteps = Number(searchParams.get('steps') || process.env.AGENT_MAX_STEPS) || undefined;
+  const timeBudgetMs = Number(process.env.AGENT_TIME_BUDGET_MS) || undefined;
+
+  if (!message) {
+    return NextResponse.json({ error: 'Missing message parameter' }, { status: 400 });
+  }
+
+  // Uploads the document_analysis tool may read, as fileIds=<id>&fileIds=<id>
+  const attachments: TaskAttachment[] = [];
+  for (const id of searchParams.getAll('fileIds')) {
+    const record = isValidBlobId(id) ? await getBlobStore().getMeta(id) : null;
+    if (!record) {
+      return NextResponse.json({ error: `File not found: ${id}` }, { status: 400 });
+    }
+    attachments.push({ id: record.id, name: record.name, type: record.type });
+  }
+
+  const llm = createLLMProvider();
+  if (!llm) {
+    return NextResponse.json({ error: 'Missing API keys' }, { status: 400 });
+  }
+  // Search is optional here; without it the enhanced_search tool reports an error
+  const search = createSearchProvider();
+
+  const agentRun = getRunRegistry().start('agent_task', EnhancedAIAgent.taskPlan(), async (stream) => {
+    const agent = new EnhancedAIAgent(llm, search, {
+      ...agentCallbacks(stream),
+      // Tool activity is reported as updates of the execution phase
+      onToolCall: ({ step, call }: ToolCallEvent) => {
+        stream.send({ type: 'phase_update', phaseId: 'execution', data: { toolCall: { step, id: call.id, name: call.name, arguments: call.arguments } } });
+      },
+      onToolResult: ({ step, call, result, durationMs }: ToolResultEvent) => {
+        stream.send({ type: 'phase_update', phaseId: 'execution', data: { toolResult: { step, id: call.id, name: call.name, success: result.success, error: result.error, durationMs } } });
+        result.files?.forEach(url => stream.send({ type: 'artifact', artifact: { kind: 'file', title: url.split('/').pop() || url, url } }));
+      }
+    }, stream.signal);
+
+    const { text, steps, stopReason } = await agent.performEnhancedTask(message, EnhancedAIAgent.detectRequiredTools(message), { maxSteps, timeBudgetMs, attachments });
+    stream.send({ type: 'complete', result: text, data: { steps, stopReason } });
+  });
+  return streamRun(agentRun);
+}
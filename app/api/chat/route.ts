@@ -1,4 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { LLMProvider, createLLMProvider } from '@/lib/llm';
+import { ChatTurn, buildConversation } from '@/lib/chatMemory';
+import { getChatStore } from '@/lib/chatStore';
+import { createEventStream } from '@/lib/sse';
 
 function guardrails(q: string) {
   const s = q.toLowerCase();
@@ -17,7 +21,10 @@ function guardrails(q: string) {
   return null;
 }
 
-async function enhanceResponse(originalResponse: string, geminiKey: string): Promise<string> {
+const BRANDING = '**ScynV** <img src="/ai-logo.ico" alt="AI" style="width: 16px; height: 16px; display: inline; margin-left: 4px;">\n\n';
+
+// Streams the polish pass token by token; falls back to the original on failure
+async function enhanceResponse(originalResponse: string, llm: LLMProvider, onToken: (text: string) => void, signal?: AbortSignal): Promise<string> {
   const enhancementPrompt = `Enhance this AI response to make it more natural, attractive, and human-like:
 
 Original Response: "${originalResponse}"
@@ -34,44 +41,43 @@ Enhancement Guidelines:
 Return only the enhanced response without any meta-commentary.`;
 
   try {
-    const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash-lite:generateContent?key=${geminiKey}`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        contents: [{ parts: [{ text: enhancementPrompt }] }],
-        generationConfig: {
-          temperature: 0.8,
-          maxOutputTokens: 1024,
-          topP: 0.9
-        }
-      })
-    });
-
-    const data = await response.json();
-    return data?.candidates?.[0]?.content?.parts?.[0]?.text || originalResponse;
+    let enhanced = '';
+    for await (const chunk of llm.stream(enhancementPrompt, {
+      temperature: 0.8,
+      maxOutputTokens: 1024,
+      topP: 0.9,
+      signal
+    })) {
+      if (!chunk.text) continue;
+      enhanced += chunk.text;
+      onToken(chunk.text);
+    }
+
+    return enhanced || originalResponse;
   } catch (error) {
     return originalResponse; // Fallback to original if enhancement fails
   }
 }
 
 export async function POST(req: NextRequest) {
-  const { message, chatId } = await req.json();
+  const { message, chatId, history = [], polish = process.env.CHAT_POLISH === 'true' } = await req.json();
   if (!message) return NextResponse.json({ error: 'Missing message' }, { status: 400 });
 
   const g = guardrails(String(message));
-  if (g) return NextResponse.json({ reply: g });
+  if (g) return createEventStream(stream => stream.send({ type: 'complete', result: g }));
 
-  const geminiKey = process.env.GEMINI_KEY_1 || process.env.GEMINI_KEY_2;
+  const llm = createLLMProvider();
 
-  if (!geminiKey) {
-    return NextResponse.json({ 
-      reply: '**ScynV** <img src="/ai-logo.ico" alt="AI" style="width: 16px; height: 16px; display: inline; margin-left: 4px;">\n\nI\'m currently in demo mode, but I\'m still ready to help you! What would you like to talk about or explore today?' 
-    });
+  if (!llm) {
+    return createEventStream(stream => stream.send({ 
+      type: 'complete',
+      result: BRANDING + 'I\'m currently in demo mode, but I\'m still ready to help you! What would you like to talk about or explore today?' 
+    }));
   }
 
-  try {
-    // First, generate the initial response
-    const systemPrompt = `You are ScynV, a helpful and intelligent AI assistant. Be natural, conversational, and genuinely helpful.
+  return createEventStream(async (stream) => {
+    try {
+      const systemPrompt = `You are ScynV, a helpful and intelligent AI assistant. Be natural, conversational, and genuinely helpful.
 
 IMPORTANT RESPONSE STYLE:
 - Write in a natural, flowing conversational style
@@ -82,40 +88,50 @@ IMPORTANT RESPONSE STYLE:
 - Use simple paragraph breaks for structure
 - Be direct and helpful
 
-User message: ${message}
-
-Respond naturally and helpfully.`;
-
-    const response = await fetch('https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash-lite:generateContent?key=' + geminiKey, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ 
-        contents: [{ parts: [{ text: systemPrompt }] }],
-        generationConfig: {
-          temperature: 0.7,
-          maxOutputTokens: 1024,
-          topP: 0.9
-        }
-      })
-    });
-
-    const data = await response.json();
-    const initialResponse = data?.candidates?.[0]?.content?.parts?.[0]?.text || 'I apologize, but I couldn\'t generate a response at the moment. Please try again.';
-
-    // Enhance the response to make it more natural and attractive
-    const enhancedResponse = await enhanceResponse(initialResponse, geminiKey);
-
-    // Add branding to the final response
-    const brandedResponse = `**ScynV** <img src="/ai-logo.ico" alt="AI" style="width: 16px; height: 16px; display: inline; margin-left: 4px;">
-
-${enhancedResponse}`;
-
-    return NextResponse.json({ reply: brandedResponse });
-    
-  } catch (error) {
-    return NextResponse.json({ 
-      reply: '**ScynV** <img src="/ai-logo.ico" alt="AI" style="width: 16px; height: 16px; display: inline; margin-left: 4px;">\n\nI\'m having some technical difficulties right now. Please try again in a moment!' 
-    });
-  }
+Use the earlier turns of the conversation as context and respond naturally and helpfully to the latest message.`;
+
+      // Recent turns go in verbatim, older ones are folded into a summary
+      // Prefer the history the client sent; otherwise load it from the chat store
+      const turns: ChatTurn[] = Array.isArray(history) && history.length
+        ? history
+        : (chatId ? (await getChatStore().get(chatId))?.messages || [] : []);
+      const conversation = await buildConversation(llm, turns, String(message), {
+        chatId,
+        signal: req.signal
+      });
+      const system = conversation.summary
+        ? `${systemPrompt}\n\nSummary of the earlier conversation:\n${conversation.summary}`
+        : systemPrompt;
+
+      // First, stream the initial response
+      let initialResponse = '';
+      stream.send({ type: 'token', text: BRANDING });
+      for await (const chunk of llm.stream(conversation.messages, {
+        system,
+        temperature: 0.7,
+        maxOutputTokens: 1024,
+        topP: 0.9,
+        signal: req.signal
+      })) {
+        if (!chunk.text) continue;
+        initialResponse += chunk.text;
+        stream.send({ type: 'token', text: chunk.text });
+      }
+      initialResponse = initialResponse || 'I apologize, but I couldn\'t generate a response at the moment. Please try again.';
+
+      // Optionally rewrite the draft in place to make it more natural and attractive
+      let finalResponse = initialResponse;
+      if (polish) {
+        stream.send({ type: 'token', text: BRANDING, reset: true });
+        finalResponse = await enhanceResponse(initialResponse, llm, (text) => stream.send({ type: 'token', text }), req.signal);
+      }
+
+      stream.send({ type: 'complete', result: BRANDING + finalResponse });
+    } catch (error) {
+      stream.send({ 
+        type: 'complete',
+        result: BRANDING + 'I\'m having some technical difficulties right now. Please try again in a moment!' 
+      });
+    }
+  });
 }
-
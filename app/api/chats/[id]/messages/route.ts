@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ChatMessagesSchema, getChatStore, isValidChatId } from '@/lib/chatStore';
+
+export const runtime = 'nodejs';
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  if (!isValidChatId(params.id)) {
+    return NextResponse.json({ error: 'Invalid chat id' }, { status: 400 });
+  }
+
+  const { messages, title } = await req.json().catch(() => ({}));
+  const parsed = ChatMessagesSchema.safeParse(messages);
+  if (!parsed.success || parsed.data.length === 0) {
+    return NextResponse.json({ error: 'Missing or invalid messages' }, { status: 400 });
+  }
+
+  const chat = await getChatStore().appendMessages(params.id, parsed.data, typeof title === 'string' ? title : undefined);
+  return NextResponse.json({ id: chat.id, title: chat.title, updated_at: chat.updated_at, count: chat.messages.length });
+}
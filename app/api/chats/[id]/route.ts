@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getChatStore } from '@/lib/chatStore';
+
+export const runtime = 'nodejs';
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const chat = await getChatStore().get(params.id);
+  if (!chat) {
+    return NextResponse.json({ error: 'Chat not found' }, { status: 404 });
+  }
+  return NextResponse.json(chat);
+}
+
+// Rename
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const { title } = await req.json().catch(() => ({}));
+  if (!title || typeof title !== 'string') {
+    return NextResponse.json({ error: 'Missing title' }, { status: 400 });
+  }
+
+  const chat = await getChatStore().rename(params.id, title.trim().substring(0, 200));
+  if (!chat) {
+    return NextResponse.json({ error: 'Chat not found' }, { status: 404 });
+  }
+  return NextResponse.json({ id: chat.id, title: chat.title, updated_at: chat.updated_at });
+}
+
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const removed = await getChatStore().remove(params.id);
+  if (!removed) {
+    return NextResponse.json({ error: 'Chat not found' }, { status: 404 });
+  }
+  return NextResponse.json({ message: 'Chat deleted' });
+}
@@ -1,17 +1,31 @@
-
 import { NextResponse } from 'next/server';
+import { ChatMessagesSchema, getChatStore } from '@/lib/chatStore';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
 
 export async function GET(){
-  return NextResponse.json({ items:[
-    { id:'1', title:'Welcome chat', updated_at: new Date(Date.now() - 1000 * 60 * 30).toISOString() },
-    { id:'2', title:'Portfolio website plan', updated_at: new Date(Date.now() - 1000 * 60 * 60 * 2).toISOString() },
-    { id:'3', title:'APK build attempt', updated_at: new Date(Date.now() - 1000 * 60 * 60 * 24).toISOString() },
-    { id:'4', title:'React game development', updated_at: new Date(Date.now() - 1000 * 60 * 60 * 24 * 2).toISOString() },
-  ]});
+  const items = await getChatStore().list();
+  return NextResponse.json({ items });
 }
 
+// Also used by the client to import chats that previously lived in localStorage
 export async function POST(req: Request){ 
-  const { title } = await req.json();
-  const newId = 'chat-' + Date.now();
-  return NextResponse.json({ id: newId, title: title || 'New task' }); 
+  const { id, title, messages, updated_at } = await req.json().catch(() => ({}));
+  const parsed = ChatMessagesSchema.optional().safeParse(messages);
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid messages' }, { status: 400 });
+  }
+
+  try {
+    const chat = await getChatStore().create({
+      id,
+      title,
+      messages: parsed.data,
+      updated_at
+    });
+    return NextResponse.json({ id: chat.id, title: chat.title }); 
+  } catch (error) {
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Failed to create chat' }, { status: 400 });
+  }
 }
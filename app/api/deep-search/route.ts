@@ -1,76 +1,46 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { HumanizedAIAgent } from '@/lib/humanizedAiAgent';
+import { createLLMProvider } from '@/lib/llm';
+import { getReportStore } from '@/lib/reports';
+import { createSearchProvider } from '@/lib/search';
+import { getRunRegistry, streamRun } from '@/lib/runs';
+import { agentCallbacks } from '@/lib/sse';
+
+export const runtime = 'nodejs';
 
 export async function GET(req: NextRequest) {
   const { searchParams } = new URL(req.url);
   const query = searchParams.get('query');
-  const chatId = searchParams.get('chatId');
   
   if (!query) {
     return NextResponse.json({ error: 'Missing query parameter' }, { status: 400 });
   }
   
-  const geminiKey = process.env.GEMINI_KEY_1 || process.env.GEMINI_KEY_2;
-  const searchKey = process.env.GOOGLE_SEARCH_API_KEY;
+  const llm = createLLMProvider();
+  const search = createSearchProvider();
 
-  if (!geminiKey) {
+  if (!llm) {
     return NextResponse.json({ 
       error: 'Demo mode - Deep search requires API configuration' 
     }, { status: 400 });
   }
 
-  if (!searchKey) {
+  if (!search) {
     return NextResponse.json({ 
-      error: 'Search functionality not available - missing search API key' 
+      error: 'Search functionality not available - no search provider configured' 
     }, { status: 400 });
   }
 
-  // Set up Server-Sent Events
-  const encoder = new TextEncoder();
-  
-  const stream = new ReadableStream({
-    start(controller) {
-      const agent = new HumanizedAIAgent(geminiKey, searchKey, {
-        onPhaseStart: (phaseId: string, description: string) => {
-          const data = JSON.stringify({ type: 'phase_start', phaseId, description });
-          controller.enqueue(encoder.encode(`data: ${data}\n\n`));
-        },
-        onPhaseUpdate: (phaseId: string, progress: number, data?: any) => {
-          const updateData = JSON.stringify({ type: 'phase_update', phaseId, progress, data });
-          controller.enqueue(encoder.encode(`data: ${updateData}\n\n`));
-        },
-        onPhaseComplete: (phaseId: string, result: any) => {
-          const data = JSON.stringify({ type: 'phase_complete', phaseId, result });
-          controller.enqueue(encoder.encode(`data: ${data}\n\n`));
-        },
-        onError: (error: string) => {
-          const data = JSON.stringify({ type: 'error', error });
-          controller.enqueue(encoder.encode(`data: ${data}\n\n`));
-          controller.close();
-        }
-      });
+  const agentRun = getRunRegistry().start('deep_search', HumanizedAIAgent.deepSearchPlan(), async (stream) => {
+    const agent = new HumanizedAIAgent(llm, search, agentCallbacks(stream), stream.signal);
 
-      // Start the deep search
-      agent.performDeepSearch(query)
-        .then((result) => {
-          const data = JSON.stringify({ type: 'complete', result });
-          controller.enqueue(encoder.encode(`data: ${data}\n\n`));
-          controller.close();
-        })
-        .catch((error) => {
-          const data = JSON.stringify({ type: 'error', error: error.message });
-          controller.enqueue(encoder.encode(`data: ${data}\n\n`));
-          controller.close();
-        });
-    }
-  });
-
-  return new Response(stream, {
-    headers: {
-      'Content-Type': 'text/event-stream',
-      'Cache-Control': 'no-cache',
-      'Connection': 'keep-alive',
-    },
+    const { text, sources, run } = await agent.performDeepSearch(query);
+    // Keep the run so it can be exported as a report later
+    const report = await getReportStore().create(run).catch(error => {
+      console.error('Failed to save research run:', error);
+      return null;
+    });
+    stream.send({ type: 'complete', result: text, sources, reportId: report?.id });
   });
+  return streamRun(agentRun);
 }
-
@@ -1,8 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { spawn } from 'child_process';
-import { existsSync, mkdirSync, unlinkSync, statSync } from 'fs';
+import { existsSync, mkdirSync, readdirSync, unlinkSync, statSync } from 'fs';
 import { join } from 'path';
 import { randomUUID } from 'crypto';
+import { PlannedPhase } from '@/lib/sse';
+import { getRunRegistry, streamRun } from '@/lib/runs';
 
 interface DownloadRequest {
   url: string;
@@ -24,6 +26,14 @@ const MAX_DOWNLOADS_PER_HOUR = 5;
 // Active downloads tracking
 const activeDownloads = new Map<string, { process: any; startTime: number }>();
 
+// Downloaded files are kept this long
+const FILE_TTL_MS = 3 * 60 * 1000;
+
+const DOWNLOAD_PLAN: PlannedPhase[] = [
+  { id: 'download', name: 'Download', description: 'Downloading from YouTube', estimatedDuration: 15 },
+  { id: 'processing', name: 'Processing', description: 'Converting and preparing the file', estimatedDuration: 8 }
+];
+
 // File cleanup tracking
 const fileCleanupTimers = new Map<string, NodeJS.Timeout>();
 
@@ -59,7 +69,6 @@ function parseProgress(line: string): DownloadProgress | null {
 }
 
 function scheduleFileCleanup(filePath: string, downloadId: string) {
-  // Clean up file after 3 minutes
   const timer = setTimeout(() => {
     try {
       if (existsSync(filePath)) {
@@ -70,7 +79,7 @@ function scheduleFileCleanup(filePath: string, downloadId: string) {
     } catch (error) {
       console.error(`Error cleaning up file ${filePath}:`, error);
     }
-  }, 3 * 60 * 1000); // 3 minutes
+  }, FILE_TTL_MS);
   
   fileCleanupTimers.set(downloadId, timer);
 }
@@ -109,173 +118,126 @@ export async function POST(req: NextRequest) {
       mkdirSync(tempDir, { recursive: true });
     }
 
-    // Set up Server-Sent Events
-    const encoder = new TextEncoder();
-    
-    const stream = new ReadableStream({
-      start(controller) {
-        let outputPath = '';
-        let finalFilename = '';
-        
-        // yt-dlp command based on format
-        const ytDlpArgs = [
-          url,
-          '--no-playlist',
-          '--extract-flat', 'false',
-          '--output', join(tempDir, `${downloadId}.%(ext)s`),
-          '--progress',
-          '--newline'
-        ];
+    // A resumable run, so the download survives a page reload
+    const downloadRun = getRunRegistry().start('youtube_download', DOWNLOAD_PLAN, (stream) => new Promise<void>((resolve) => {
+      // yt-dlp command based on format
+      const ytDlpArgs = [
+        url,
+        '--no-playlist',
+        '--extract-flat', 'false',
+        '--output', join(tempDir, `${downloadId}.%(ext)s`),
+        '--progress',
+        '--newline'
+      ];
 
-        if (format === 'mp3') {
-          ytDlpArgs.push(
-            '--extract-audio',
-            '--audio-format', 'mp3',
-            '--audio-quality', '192K'
-          );
-        } else {
-          ytDlpArgs.push(
-            '--format', 'best[height<=720]',
-            '--merge-output-format', 'mp4'
-          );
-        }
+      if (format === 'mp3') {
+        ytDlpArgs.push(
+          '--extract-audio',
+          '--audio-format', 'mp3',
+          '--audio-quality', '192K'
+        );
+      } else {
+        ytDlpArgs.push(
+          '--format', 'best[height<=720]',
+          '--merge-output-format', 'mp4'
+        );
+      }
 
-        const ytDlpProcess = spawn('yt-dlp', ytDlpArgs, {
-          stdio: ['pipe', 'pipe', 'pipe']
-        });
+      const ytDlpProcess = spawn('yt-dlp', ytDlpArgs, {
+        stdio: ['pipe', 'pipe', 'pipe']
+      });
 
-        activeDownloads.set(downloadId, { process: ytDlpProcess, startTime: Date.now() });
+      activeDownloads.set(downloadId, { process: ytDlpProcess, startTime: Date.now() });
+      // Nobody is left to receive the file
+      stream.signal.addEventListener('abort', () => ytDlpProcess.kill('SIGTERM'));
 
-        // Send initial status
-        const initialData = JSON.stringify({ 
-          type: 'started', 
-          downloadId, 
-          message: 'Starting download...' 
-        });
-        controller.enqueue(encoder.encode(`data: ${initialData}\n\n`));
+      // The id is what DELETE needs to cancel
+      stream.send({ type: 'phase_start', phaseId: 'download', description: 'Starting download...' });
+      stream.send({ type: 'phase_update', phaseId: 'download', progress: 0, data: { downloadId } });
 
-        ytDlpProcess.stdout.on('data', (data) => {
-          const lines = data.toString().split('\n');
-          for (const line of lines) {
-            if (line.trim()) {
-              console.log('yt-dlp stdout:', line);
-              
-              // Parse progress
-              const progress = parseProgress(line);
-              if (progress) {
-                const progressData = JSON.stringify({
-                  type: 'progress',
-                  downloadId,
-                  ...progress
-                });
-                controller.enqueue(encoder.encode(`data: ${progressData}\n\n`));
-              }
-              
-              // Check for completion
-              if (line.includes('[download] 100%') || line.includes('has already been downloaded')) {
-                const statusData = JSON.stringify({
-                  type: 'processing',
-                  downloadId,
-                  message: 'Processing file...'
-                });
-                controller.enqueue(encoder.encode(`data: ${statusData}\n\n`));
-              }
+      let processing = false;
+      ytDlpProcess.stdout.on('data', (data) => {
+        const lines = data.toString().split('\n');
+        for (const line of lines) {
+          if (line.trim()) {
+            console.log('yt-dlp stdout:', line);
+            
+            // Parse progress
+            const progress = parseProgress(line);
+            if (progress) {
+              const { percentage, ...details } = progress;
+              stream.send({ type: 'phase_update', phaseId: 'download', progress: percentage, data: { downloadId, ...details } });
+            }
+            
+            // Check for completion
+            if (!processing && (line.includes('[download] 100%') || line.includes('has already been downloaded'))) {
+              processing = true;
+              stream.send({ type: 'phase_complete', phaseId: 'download' });
+              stream.send({ type: 'phase_start', phaseId: 'processing', description: 'Processing file...' });
             }
           }
-        });
-
-        ytDlpProcess.stderr.on('data', (data) => {
-          const errorLine = data.toString();
-          console.error('yt-dlp stderr:', errorLine);
-          
-          if (errorLine.includes('ERROR')) {
-            const errorData = JSON.stringify({
-              type: 'error',
-              downloadId,
-              error: 'Download failed: ' + errorLine
-            });
-            controller.enqueue(encoder.encode(`data: ${errorData}\n\n`));
-            controller.close();
-            activeDownloads.delete(downloadId);
-          }
-        });
+        }
+      });
 
-        ytDlpProcess.on('close', (code) => {
+      ytDlpProcess.stderr.on('data', (data) => {
+        const errorLine = data.toString();
+        console.error('yt-dlp stderr:', errorLine);
+        
+        if (errorLine.includes('ERROR')) {
+          stream.send({ type: 'error', error: 'Download failed: ' + errorLine });
           activeDownloads.delete(downloadId);
-          
-          if (code === 0) {
-            // Find the downloaded file
-            try {
-              const files = require('fs').readdirSync(tempDir);
-              const downloadedFile = files.find(f => f.startsWith(downloadId));
+        }
+      });
+
+      ytDlpProcess.on('close', (code) => {
+        activeDownloads.delete(downloadId);
+        
+        if (code === 0) {
+          // Find the downloaded file
+          try {
+            const files = readdirSync(tempDir);
+            const downloadedFile = files.find(f => f.startsWith(downloadId));
+            
+            if (downloadedFile) {
+              const outputPath = join(tempDir, downloadedFile);
+              const finalFilename = downloadedFile.replace(downloadId + '.', '');
+              
+              // Schedule cleanup
+              scheduleFileCleanup(outputPath, downloadId);
               
-              if (downloadedFile) {
-                outputPath = join(tempDir, downloadedFile);
-                finalFilename = downloadedFile.replace(downloadId + '.', '');
-                
-                // Get file size
-                const stats = statSync(outputPath);
-                const fileSizeInMB = (stats.size / (1024 * 1024)).toFixed(2);
-                
-                // Schedule cleanup
-                scheduleFileCleanup(outputPath, downloadId);
-                
-                const completeData = JSON.stringify({
-                  type: 'complete',
-                  downloadId,
-                  filename: finalFilename,
-                  size: `${fileSizeInMB} MB`,
-                  downloadUrl: `/api/download-file/${downloadId}/${encodeURIComponent(finalFilename)}`
-                });
-                controller.enqueue(encoder.encode(`data: ${completeData}\n\n`));
-              } else {
-                const errorData = JSON.stringify({
-                  type: 'error',
-                  downloadId,
-                  error: 'Downloaded file not found'
-                });
-                controller.enqueue(encoder.encode(`data: ${errorData}\n\n`));
-              }
-            } catch (error) {
-              const errorData = JSON.stringify({
-                type: 'error',
-                downloadId,
-                error: 'Error processing downloaded file'
+              stream.send({ type: 'phase_complete', phaseId: 'processing' });
+              stream.send({
+                type: 'artifact',
+                artifact: {
+                  kind: 'file',
+                  title: finalFilename,
+                  url: `/api/download-file/${downloadId}/${encodeURIComponent(finalFilename)}`,
+                  mimeType: format === 'mp3' ? 'audio/mpeg' : 'video/mp4',
+                  size: statSync(outputPath).size,
+                  expiresAt: new Date(Date.now() + FILE_TTL_MS).toISOString()
+                }
               });
-              controller.enqueue(encoder.encode(`data: ${errorData}\n\n`));
+              stream.send({ type: 'complete', result: finalFilename, data: { downloadId } });
+            } else {
+              stream.send({ type: 'error', error: 'Downloaded file not found' });
             }
-          } else {
-            const errorData = JSON.stringify({
-              type: 'error',
-              downloadId,
-              error: `Download failed with code ${code}`
-            });
-            controller.enqueue(encoder.encode(`data: ${errorData}\n\n`));
+          } catch (error) {
+            stream.send({ type: 'error', error: 'Error processing downloaded file' });
           }
-          
-          controller.close();
-        });
-
-        ytDlpProcess.on('error', (error) => {
-          activeDownloads.delete(downloadId);
-          const errorData = JSON.stringify({
-            type: 'error',
-            downloadId,
-            error: 'Failed to start download: ' + error.message
-          });
-          controller.enqueue(encoder.encode(`data: ${errorData}\n\n`));
-          controller.close();
-        });
-      }
-    });
+        } else {
+          stream.send({ type: 'error', error: `Download failed with code ${code}` });
+        }
+        
+        resolve();
+      });
 
-    return new Response(stream, {
-      headers: {
-        'Content-Type': 'text/event-stream',
-        'Cache-Control': 'no-cache',
-        'Connection': 'keep-alive',
-      },
-    });
+      ytDlpProcess.on('error', (error) => {
+        activeDownloads.delete(downloadId);
+        stream.send({ type: 'error', error: 'Failed to start download: ' + error.message });
+        resolve();
+      });
+    }));
+    return streamRun(downloadRun);
 
   } catch (error) {
     return NextResponse.json({
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createReadStream } from 'fs';
+import { getBlobStore } from '@/lib/blobStore';
+
+export const runtime = 'nodejs';
+
+// Anything else (HTML, SVG, ...) is forced to download so it can't run on our origin
+const INLINE_TYPES = /^(image\/(png|jpe?g|gif|webp)|application\/pdf|text\/plain|text\/csv|audio\/|video\/)/;
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const store = getBlobStore();
+  const record = await store.getMeta(params.id);
+
+  if (!record) {
+    return NextResponse.json({ error: 'File not found' }, { status: 404 });
+  }
+
+  const disposition = !req.nextUrl.searchParams.get('download') && INLINE_TYPES.test(record.type) ? 'inline' : 'attachment';
+  const stream = createReadStream(store.dataPath(record.id));
+
+  return new Response(stream as any, {
+    headers: {
+      'Content-Type': record.type,
+      'Content-Length': record.size.toString(),
+      'Content-Disposition': `${disposition}; filename="${encodeURIComponent(record.name)}"`,
+      'X-Content-Type-Options': 'nosniff',
+      'Cache-Control': 'private, max-age=3600'
+    }
+  });
+}
@@ -1,84 +1,55 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { HumanizedAIAgent } from '@/lib/humanizedAiAgent';
+import { AgentFile, HumanizedAIAgent } from '@/lib/humanizedAiAgent';
+import { getBlobStore } from '@/lib/blobStore';
+import { createLLMProvider } from '@/lib/llm';
+import { createSearchProvider } from '@/lib/search';
+import { getRunRegistry, streamRun } from '@/lib/runs';
+import { agentCallbacks, createEventStream } from '@/lib/sse';
+
+export const runtime = 'nodejs';
 
 export async function POST(req: NextRequest) {
   try {
     const formData = await req.formData();
     const message = formData.get('message') as string;
-    const files = formData.getAll('files') as File[];
-    const chatId = formData.get('chatId') as string;
+    const uploads = formData.getAll('files').filter((f): f is File => typeof f !== 'string');
+    const fileIds = formData.getAll('fileIds').map(String);
 
-    if (!message && files.length === 0) {
+    if (!message && uploads.length === 0 && fileIds.length === 0) {
       return NextResponse.json({ error: 'Missing message or files' }, { status: 400 });
     }
 
-    const geminiKey = process.env.GEMINI_KEY_1 || process.env.GEMINI_KEY_2;
-    const searchKey = process.env.GOOGLE_SEARCH_API_KEY;
+    const llm = createLLMProvider();
+    const search = createSearchProvider();
 
-    if (!geminiKey) {
-      return NextResponse.json({ 
-        reply: '**ScynV** <img src="/ai-logo.ico" alt="AI" style="width: 16px; height: 16px; display: inline; margin-left: 4px;">\n\nI\'m currently in demo mode, but I can still help you with basic tasks! What would you like to do?' 
-      });
+    if (!llm) {
+      return createEventStream(stream => stream.send({ 
+        type: 'complete',
+        result: '**ScynV** <img src="/ai-logo.ico" alt="AI" style="width: 16px; height: 16px; display: inline; margin-left: 4px;">\n\nI\'m currently in demo mode, but I can still help you with basic tasks! What would you like to do?' 
+      }));
     }
 
-    // Set up Server-Sent Events for real-time progress
-    const encoder = new TextEncoder();
-    
-    const stream = new ReadableStream({
-      start(controller) {
-        const agent = new HumanizedAIAgent(geminiKey, searchKey || '', {
-          onPhaseStart: (phaseId: string, description: string) => {
-            const data = JSON.stringify({ type: 'phase_start', phaseId, description });
-            controller.enqueue(encoder.encode(`data: ${data}\n\n`));
-          },
-          onPhaseUpdate: (phaseId: string, progress: number, data?: any) => {
-            const updateData = JSON.stringify({ type: 'phase_update', phaseId, progress, data });
-            controller.enqueue(encoder.encode(`data: ${updateData}\n\n`));
-          },
-          onPhaseComplete: (phaseId: string, result: any) => {
-            const data = JSON.stringify({ type: 'phase_complete', phaseId, result });
-            controller.enqueue(encoder.encode(`data: ${data}\n\n`));
-          },
-          onError: (error: string) => {
-            const data = JSON.stringify({ type: 'error', error });
-            controller.enqueue(encoder.encode(`data: ${data}\n\n`));
-            controller.close();
-          }
-        });
-
-        // Convert File objects to FileList-like structure
-        const fileList = {
-          length: files.length,
-          item: (index: number) => files[index] || null,
-          [Symbol.iterator]: function* () {
-            for (let i = 0; i < files.length; i++) {
-              yield files[i];
-            }
-          }
-        } as FileList;
-
-        // Process the message with files
-        agent.processMessage(message || 'Please analyze these files', fileList)
-          .then((result) => {
-            const data = JSON.stringify({ type: 'complete', result });
-            controller.enqueue(encoder.encode(`data: ${data}\n\n`));
-            controller.close();
-          })
-          .catch((error) => {
-            const data = JSON.stringify({ type: 'error', error: error.message });
-            controller.enqueue(encoder.encode(`data: ${data}\n\n`));
-            controller.close();
-          });
+    // Files uploaded earlier are referenced by blob ID; direct uploads are still accepted
+    const store = getBlobStore();
+    const files: AgentFile[] = [];
+    for (const id of fileIds) {
+      const blob = await store.get(id);
+      if (!blob) {
+        return NextResponse.json({ error: `File not found: ${id}` }, { status: 404 });
       }
-    });
+      files.push({ id, name: blob.record.name, type: blob.record.type, size: blob.record.size, data: blob.data });
+    }
+    for (const upload of uploads) {
+      files.push({ name: upload.name, type: upload.type, size: upload.size, data: Buffer.from(await upload.arrayBuffer()) });
+    }
+
+    const agentRun = getRunRegistry().start('file_processing', HumanizedAIAgent.messagePlan(files.length > 0), async (stream) => {
+      const agent = new HumanizedAIAgent(llm, search, agentCallbacks(stream), stream.signal);
 
-    return new Response(stream, {
-      headers: {
-        'Content-Type': 'text/event-stream',
-        'Cache-Control': 'no-cache',
-        'Connection': 'keep-alive',
-      },
+      const result = await agent.processMessage(message || 'Please analyze these files', files);
+      stream.send({ type: 'complete', result });
     });
+    return streamRun(agentRun);
 
   } catch (error) {
     return NextResponse.json({
@@ -1,17 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { blobUrl, getBlobStore } from '@/lib/blobStore';
 export const runtime = 'nodejs';
 export async function POST(req: NextRequest){
   try{
     const form = await req.formData();
     const files = form.getAll('files');
+    const store = getBlobStore();
     const out: any[] = [];
     for (const it of files){
       if (typeof it === 'string') continue;
       const f = it as File;
-      out.push({ name: f.name, url: undefined });
+      const record = await store.save({ name: f.name, type: f.type, data: Buffer.from(await f.arrayBuffer()) });
+      out.push({ id: record.id, name: record.name, type: record.type, size: record.size, url: blobUrl(record) });
     }
     return NextResponse.json({ files: out });
-  }catch{
-    return NextResponse.json({ files: [] });
+  }catch(error){
+    return NextResponse.json({ files: [], error: error instanceof Error ? error.message : 'Upload failed' }, { status: 400 });
   }
 }
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createLLMProvider } from '@/lib/llm';
+import { REPORT_CONTENT_TYPES, composeReport, getReportStore, isReportFormat, isValidReportId, renderReport, reportSlug } from '@/lib/reports';
+
+export const runtime = 'nodejs';
+
+// GET /api/reports/<reportId>/<name>.<md|html|pdf|docx>; the extension picks the format
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { reportId: string; filename: string } }
+) {
+  const { reportId, filename } = params;
+  const format = filename.split('.').pop()?.toLowerCase() || '';
+
+  if (!isValidReportId(reportId)) {
+    return NextResponse.json({ error: 'Invalid report id' }, { status: 400 });
+  }
+  if (!isReportFormat(format)) {
+    return NextResponse.json({ error: 'Unsupported format, use .md, .html, .pdf or .docx' }, { status: 400 });
+  }
+
+  try {
+    const store = getReportStore();
+    const stored = await store.get(reportId);
+    if (!stored) {
+      return NextResponse.json({ error: 'Report not found' }, { status: 404 });
+    }
+
+    // Compose once; every format renders the same report
+    const report = await store.getReport(stored, run => composeReport(run, createLLMProvider()));
+
+    const data = await renderReport(report, format);
+    return new Response(data, {
+      headers: {
+        'Content-Type': REPORT_CONTENT_TYPES[format],
+        'Content-Length': data.length.toString(),
+        'Content-Disposition': `attachment; filename="${reportSlug(report)}.${format}"`,
+        'Cache-Control': 'no-cache'
+      }
+    });
+  } catch (error) {
+    console.error('Report export error:', error);
+    return NextResponse.json({ error: 'Failed to generate report' }, { status: 500 });
+  }
+}
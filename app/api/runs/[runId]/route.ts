@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRunRegistry, lastEventIdOf, streamRun } from '@/lib/runs';
+
+export const runtime = 'nodejs';
+
+// Reattach to a run; events after Last-Event-ID are replayed first
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { runId: string } }
+) {
+  const run = getRunRegistry().get(params.runId);
+  if (!run) {
+    return NextResponse.json({ error: 'Run not found' }, { status: 404 });
+  }
+  return streamRun(run, lastEventIdOf(req));
+}
+
+// Cancel
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { runId: string } }
+) {
+  const run = getRunRegistry().get(params.runId);
+  if (!run) {
+    return NextResponse.json({ error: 'Run not found' }, { status: 404 });
+  }
+  if (!run.cancel()) {
+    return NextResponse.json({ error: `Run already ${run.status}` }, { status: 409 });
+  }
+  return NextResponse.json({ id: run.id, status: run.status });
+}
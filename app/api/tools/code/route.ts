@@ -1,77 +1,205 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { spawn } from 'child_process';
-import { writeFileSync, unlinkSync, existsSync, mkdirSync } from 'fs';
-import { join } from 'path';
-import { randomUUID } from 'crypto';
+import { randomBytes } from 'crypto';
+import {
+  Artifact,
+  CompileResult,
+  enabledLanguages,
+  closeSession,
+  getSessionInfo,
+  executeCode,
+  ExecutionResult,
+  isSessionLanguage,
+  isSupportedLanguage,
+  isValidSessionId,
+  OmittedArtifact,
+  OutputStream,
+  runInSession,
+  SandboxLanguage,
+  SessionNotFoundError,
+  SessionResult
+} from '@/lib/sandbox';
+import { getRunRegistry, streamRun } from '@/lib/runs';
+import { PlannedPhase } from '@/lib/sse';
+
+export const runtime = 'nodejs';
 
 interface CodeExecutionRequest {
-  language: 'python' | 'javascript' | 'shell';
+  language: SandboxLanguage;
   code: string;
   timeout?: number;
+  stdin?: string;
+  // Start a long-lived Python/Node kernel that keeps variables and files
+  // between calls; the response carries its sessionId
+  session?: boolean;
+  // Continue a session this client started
+  sessionId?: string;
+  // Respond with server-sent events instead of a single JSON body
+  stream?: boolean;
 }
 
 interface CodeExecutionResponse {
   success: boolean;
+  sessionId?: string;
+  executionCount?: number;
   output: string;
+  stderr?: string;
+  exitCode?: number | null;
+  truncated?: boolean;
   error?: string;
   executionTime: number;
-  files?: string[];
+  // Compiler diagnostics, kept apart from the program's own stderr
+  compile?: CompileResult;
+  files?: Artifact[];
+  omittedFiles?: OmittedArtifact[];
+}
+
+// Sessions belong to the browser that started them, identified by this cookie
+const CLIENT_COOKIE = 'code_client';
+
+function clientCookie(client: string, secure: boolean): string {
+  return `${CLIENT_COOKIE}=${client}; Path=/api/tools/code; HttpOnly; SameSite=Strict${secure ? '; Secure' : ''}`;
+}
+
+const CODE_PLAN: PlannedPhase[] = [
+  { id: 'execution', name: 'Execution', description: 'Running the code in the sandbox', estimatedDuration: 5 }
+];
+
+function toResponse(result: ExecutionResult | SessionResult): CodeExecutionResponse {
+  return {
+    success: result.success,
+    ...('sessionId' in result && { sessionId: result.sessionId, executionCount: result.executionCount }),
+    output: result.stdout || result.stderr,
+    stderr: result.stderr,
+    exitCode: result.exitCode,
+    truncated: result.truncated,
+    error: result.error,
+    executionTime: result.executionTime,
+    compile: result.compile,
+    files: result.artifacts,
+    ...(result.omittedArtifacts?.length && { omittedFiles: result.omittedArtifacts })
+  };
 }
 
 export async function POST(req: NextRequest) {
   try {
-    const { language, code, timeout = 30000 }: CodeExecutionRequest = await req.json();
-    
+    const { language, code, timeout, stdin, session, sessionId, stream }: CodeExecutionRequest = await req.json();
+    const existingClient = req.cookies.get(CLIENT_COOKIE)?.value;
+    const client = existingClient || randomBytes(24).toString('base64url');
+    const respond = (response: Response) => {
+      if (!existingClient) response.headers.append('Set-Cookie', clientCookie(client, req.nextUrl.protocol === 'https:'));
+      return response;
+    };
+
     if (!code || !language) {
-      return NextResponse.json({ 
-        success: false, 
-        error: 'Missing code or language parameter' 
+      return NextResponse.json({
+        success: false,
+        error: 'Missing code or language parameter'
+      }, { status: 400 });
+    }
+
+    if (!isSupportedLanguage(language)) {
+      return NextResponse.json({
+        success: false,
+        error: `Unsupported language: ${language}. Enabled: ${enabledLanguages().join(', ')}`
+      }, { status: 400 });
+    }
+
+    const inSession = !!session || sessionId !== undefined;
+    if (inSession && !isSessionLanguage(language)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Sessions are only available for python and javascript'
       }, { status: 400 });
     }
 
-    const startTime = Date.now();
-    const sessionId = randomUUID();
-    const tempDir = join('/tmp', `code-execution-${sessionId}`);
-    
-    // Create temporary directory
-    if (!existsSync(tempDir)) {
-      mkdirSync(tempDir, { recursive: true });
+    // A kernel reads cells from its stdin, so programs in it can't get input
+    if (inSession && stdin !== undefined) {
+      return NextResponse.json({
+        success: false,
+        error: 'stdin is not supported in session mode'
+      }, { status: 400 });
+    }
+
+    if (sessionId !== undefined && (!isValidSessionId(sessionId) || !getSessionInfo(sessionId, client))) {
+      return NextResponse.json({
+        success: false,
+        error: `Session not found or expired: ${sessionId}`
+      }, { status: 404 });
+    }
+
+    const run = (
+      signal: AbortSignal,
+      onOutput?: (stream: OutputStream, text: string) => void,
+      onCompiled?: (compile: CompileResult) => void
+    ): Promise<ExecutionResult | SessionResult> => {
+      return inSession && isSessionLanguage(language)
+        ? runInSession({
+          sessionId,
+          owner: client,
+          language,
+          code,
+          timeoutMs: timeout,
+          collectArtifacts: true,
+          signal,
+          onOutput
+        })
+        : executeCode({
+          language,
+          code,
+          stdin: typeof stdin === 'string' ? stdin : undefined,
+          limits: { wallClockMs: timeout },
+          collectArtifacts: true,
+          signal,
+          onOutput,
+          onCompiled
+        });
+    };
+
+    // A non-streamed run is cancelled by dropping the request
+    if (!stream) {
+      const result = await run(req.signal);
+      return respond(NextResponse.json(toResponse(result)));
     }
 
-    let result: CodeExecutionResponse;
-
-    try {
-      switch (language) {
-        case 'python':
-          result = await executePython(code, tempDir, timeout);
-          break;
-        case 'javascript':
-          result = await executeJavaScript(code, tempDir, timeout);
-          break;
-        case 'shell':
-          result = await executeShell(code, tempDir, timeout);
-          break;
-        default:
-          throw new Error(`Unsupported language: ${language}`);
+    // Streamed as a resumable run: output as stdout/stderr tokens, compiler
+    // diagnostics as an update of the execution phase, one artifact per
+    // stored file, then complete with the exit details. Cancel it through
+    // DELETE /api/runs/<id> (or ?runId= here).
+    const codeRun = getRunRegistry().start('code_execution', CODE_PLAN, async (events) => {
+      events.send({ type: 'phase_start', phaseId: 'execution', description: `Running ${language}` });
+      const result = await run(
+        events.signal,
+        (outputStream, text) => events.send({ type: 'token', text, stream: outputStream }),
+        (compile) => events.send({ type: 'phase_update', phaseId: 'execution', data: { compile } })
+      );
+      events.send({ type: 'phase_complete', phaseId: 'execution' });
+
+      for (const file of result.artifacts || []) {
+        events.send({ type: 'artifact', artifact: { kind: 'file', title: file.name, url: file.url, mimeType: file.type, size: file.size } });
       }
-      
-      result.executionTime = Date.now() - startTime;
-      
-    } finally {
-      // Cleanup temporary directory
-      try {
-        if (existsSync(tempDir)) {
-          const { execSync } = require('child_process');
-          execSync(`rm -rf "${tempDir}"`);
+      events.send({
+        type: 'complete',
+        result: result.stdout,
+        data: {
+          ...('sessionId' in result && { sessionId: result.sessionId, executionCount: result.executionCount }),
+          success: result.success,
+          exitCode: result.exitCode,
+          error: result.error,
+          timedOut: result.timedOut,
+          cancelled: result.cancelled,
+          truncated: result.truncated,
+          executionTime: result.executionTime,
+          compile: result.compile,
+          ...(result.omittedArtifacts?.length && { omittedFiles: result.omittedArtifacts })
         }
-      } catch (cleanupError) {
-        console.error('Cleanup error:', cleanupError);
-      }
-    }
+      });
+    });
+    return respond(streamRun(codeRun));
 
-    return NextResponse.json(result);
-    
   } catch (error) {
+    if (error instanceof SessionNotFoundError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 404 });
+    }
     return NextResponse.json({
       success: false,
       error: error instanceof Error ? error.message : 'Code execution failed',
@@ -81,159 +209,24 @@ export async function POST(req: NextRequest) {
   }
 }
 
-async function executePython(code: string, tempDir: string, timeout: number): Promise<CodeExecutionResponse> {
-  const fileName = join(tempDir, 'script.py');
-  writeFileSync(fileName, code);
-
-  return new Promise((resolve) => {
-    const process = spawn('python3', [fileName], {
-      cwd: tempDir,
-      stdio: ['pipe', 'pipe', 'pipe']
-    });
-
-    let output = '';
-    let error = '';
+// Cancels a streamed run; ?sessionId= shuts a session's kernel down instead
+export async function DELETE(req: NextRequest) {
+  const runId = req.nextUrl.searchParams.get('runId');
+  const sessionId = req.nextUrl.searchParams.get('sessionId');
 
-    process.stdout.on('data', (data) => {
-      output += data.toString();
-    });
-
-    process.stderr.on('data', (data) => {
-      error += data.toString();
-    });
-
-    const timeoutId = setTimeout(() => {
-      process.kill('SIGKILL');
-      resolve({
-        success: false,
-        error: 'Execution timeout',
-        output: output,
-        executionTime: timeout
-      });
-    }, timeout);
-
-    process.on('close', (code) => {
-      clearTimeout(timeoutId);
-      resolve({
-        success: code === 0,
-        output: output || error,
-        error: code !== 0 ? error : undefined,
-        executionTime: 0 // Will be set by caller
-      });
-    });
-
-    process.on('error', (err) => {
-      clearTimeout(timeoutId);
-      resolve({
-        success: false,
-        error: err.message,
-        output: '',
-        executionTime: 0
-      });
-    });
-  });
-}
-
-async function executeJavaScript(code: string, tempDir: string, timeout: number): Promise<CodeExecutionResponse> {
-  const fileName = join(tempDir, 'script.js');
-  writeFileSync(fileName, code);
-
-  return new Promise((resolve) => {
-    const process = spawn('node', [fileName], {
-      cwd: tempDir,
-      stdio: ['pipe', 'pipe', 'pipe']
-    });
-
-    let output = '';
-    let error = '';
-
-    process.stdout.on('data', (data) => {
-      output += data.toString();
-    });
-
-    process.stderr.on('data', (data) => {
-      error += data.toString();
-    });
-
-    const timeoutId = setTimeout(() => {
-      process.kill('SIGKILL');
-      resolve({
-        success: false,
-        error: 'Execution timeout',
-        output: output,
-        executionTime: timeout
-      });
-    }, timeout);
-
-    process.on('close', (code) => {
-      clearTimeout(timeoutId);
-      resolve({
-        success: code === 0,
-        output: output || error,
-        error: code !== 0 ? error : undefined,
-        executionTime: 0
-      });
-    });
-
-    process.on('error', (err) => {
-      clearTimeout(timeoutId);
-      resolve({
-        success: false,
-        error: err.message,
-        output: '',
-        executionTime: 0
-      });
-    });
-  });
-}
-
-async function executeShell(code: string, tempDir: string, timeout: number): Promise<CodeExecutionResponse> {
-  return new Promise((resolve) => {
-    const process = spawn('bash', ['-c', code], {
-      cwd: tempDir,
-      stdio: ['pipe', 'pipe', 'pipe']
-    });
-
-    let output = '';
-    let error = '';
-
-    process.stdout.on('data', (data) => {
-      output += data.toString();
-    });
-
-    process.stderr.on('data', (data) => {
-      error += data.toString();
-    });
+  if (sessionId) {
+    const client = req.cookies.get(CLIENT_COOKIE)?.value;
+    return client && closeSession(sessionId, client)
+      ? NextResponse.json({ message: 'Session closed' })
+      : NextResponse.json({ error: 'Session not found' }, { status: 404 });
+  }
 
-    const timeoutId = setTimeout(() => {
-      process.kill('SIGKILL');
-      resolve({
-        success: false,
-        error: 'Execution timeout',
-        output: output,
-        executionTime: timeout
-      });
-    }, timeout);
-
-    process.on('close', (code) => {
-      clearTimeout(timeoutId);
-      resolve({
-        success: code === 0,
-        output: output || error,
-        error: code !== 0 ? error : undefined,
-        executionTime: 0
-      });
-    });
+  if (!runId) {
+    return NextResponse.json({ error: 'Missing runId' }, { status: 400 });
+  }
 
-    process.on('error', (err) => {
-      clearTimeout(timeoutId);
-      resolve({
-        success: false,
-        error: err.message,
-        output: '',
-        executionTime: 0
-      });
-    });
-  });
+  if (getRunRegistry().cancel(runId)) {
+    return NextResponse.json({ message: 'Run cancelled' });
+  }
+  return NextResponse.json({ error: 'Run not found' }, { status: 404 });
 }
-
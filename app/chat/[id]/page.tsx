@@ -3,94 +3,160 @@ import { useEffect, useRef, useState } from 'react';
 import { useParams } from 'next/navigation';
 import TopBar from '@/components/TopBar';
 import Drawer from '@/components/Drawer';
-import MessageList, { Msg } from '@/components/MessageList';
-import Composer from '@/components/Composer';
+import MessageList, { Attachment, Msg } from '@/components/MessageList';
+import Composer, { AgentMode } from '@/components/Composer';
+import AgentSteps from '@/components/AgentSteps';
 import ProgressBar from '@/components/ProgressBar';
 import { useTaskProgress } from '@/contexts/TaskProgressContext';
+import { useEventStream } from '@/lib/sse/client';
+import { importLocalChats } from '@/lib/chatClient';
+import { agentReply, downloadReply } from '@/lib/taskReplies';
 
 function norm(s: string) { 
   return s.toLowerCase().replace(/[^a-z0-9\s]/g, ' ').replace(/\s+/g, ' ').trim(); 
 }
 
+// Bold plus [n] citation markers linked to the message's footnotes
+function messageHtml(m: Msg, index: number) {
+  const html = m.content.replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>');
+  if (!m.sources?.length) return html;
+  const ids = new Set(m.sources.map(s => s.id));
+  return html.replace(/\[(\d+)\]/g, (match, id) => ids.has(Number(id))
+    ? `<sup><a href="#cite-${index}-${id}" class="text-[#D78AC5] hover:underline">[${id}]</a></sup>`
+    : match);
+}
+
+const REPORT_FORMATS = [
+  { ext: 'md', label: 'Markdown' },
+  { ext: 'html', label: 'HTML' },
+  { ext: 'pdf', label: 'PDF' },
+  { ext: 'docx', label: 'Word' }
+];
+
+function sourceHost(url: string) {
+  try { return new URL(url).hostname.replace(/^www\./, ''); } catch { return url; }
+}
+
+// A download that failed after yt-dlp had started, as opposed to a rejected request
+class DownloadError extends Error {}
+
+const GREETING: Msg = { 
+  role: 'assistant', 
+  content: '**ScynV** <img src="/ai-logo.ico" alt="AI" style="width: 16px; height: 16px; display: inline; margin-left: 4px;">\n\nHey there! I\'m ScynV, your intelligent AI companion. I can help you with research, analyze files, answer questions, and much more. What would you like to explore today?' 
+};
+
 export default function ChatPage() {
   const params = useParams();
   const chatId = params.id as string;
   const [drawer, setDrawer] = useState(false);
-  const [items, setItems] = useState<Msg[]>([{ 
-    role: 'assistant', 
-    content: '**ScynV** <img src="/ai-logo.ico" alt="AI" style="width: 16px; height: 16px; display: inline; margin-left: 4px;">\n\nHey there! I\'m ScynV, your intelligent AI companion. I can help you with research, analyze files, answer questions, and much more. What would you like to explore today?' 
-  }]);
+  const [items, setItems] = useState<Msg[]>([GREETING]);
   const [working, setWorking] = useState(false);
-  const [files, setFiles] = useState<{ name: string }[]>([]);
+  const [streaming, setStreaming] = useState(false);
+  const [files, setFiles] = useState<Attachment[]>([]);
+  const [uploading, setUploading] = useState(false);
   const [chatTitle, setChatTitle] = useState('New Chat');
   const [progressExpanded, setProgressExpanded] = useState(true);
   const [deepSearchActive, setDeepSearchActive] = useState(false);
+  const [agentMode, setAgentMode] = useState<AgentMode | null>(null);
   const scrollRef = useRef<HTMLDivElement>(null);
-  const { currentTask, startTask, updatePhase, completePhase, completeTask, clearTask } = useTaskProgress();
+  const loadedRef = useRef(false);
+  const persistedRef = useRef(0); // number of items already saved on the server
+  // Title picked for an untitled chat, sent with the next save; otherwise the
+  // server keeps its title so renames from the drawer stick
+  const newTitleRef = useRef<string | null>(null);
+  const { chatTask, runTask, cancelTask, postToChat, watchChat } = useTaskProgress();
+  const events = useEventStream();
+  // Tasks outlive the page; this is the latest one started from this chat
+  const task = chatTask(chatId);
+  const thinking = working || !!task?.isActive;
 
   useEffect(() => { 
     scrollRef.current?.scrollTo({ top: scrollRef.current.scrollHeight, behavior: 'smooth' }); 
-  }, [items.length, working]);
+  }, [items.length, thinking]);
 
-  // Save chat history when items change
+  // Append finished messages to the server-side chat once nothing is streaming
   useEffect(() => {
-    if (chatId && chatId !== 'new' && items.length > 0) {
-      const chatData = {
-        messages: items,
-        title: chatTitle,
-        lastUpdated: new Date().toISOString()
-      };
-      localStorage.setItem(`chat_${chatId}`, JSON.stringify(chatData));
-    }
-  }, [items, chatTitle, chatId]);
+    if (!chatId || chatId === 'new' || !loadedRef.current || streaming) return;
+    if (items.length <= persistedRef.current || !items.some(m => m.role === 'user')) return;
+
+    const pending = items.slice(persistedRef.current);
+    const title = newTitleRef.current || undefined;
+    persistedRef.current = items.length;
+    newTitleRef.current = null;
+    fetch(`/api/chats/${chatId}/messages`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ messages: pending, title })
+    }).catch(error => console.error('Failed to save chat:', error));
+  }, [items, streaming, chatId]);
+
+  // Replies of background tasks land here while this chat is open, and are
+  // saved to the server by the provider otherwise
+  useEffect(() => watchChat(chatId, message => {
+    if (!loadedRef.current) return false;
+    setItems(m => [...m, message]);
+    return true;
+  }), [chatId, watchChat]);
 
   // Load chat history when chatId changes
   useEffect(() => {
-    if (chatId && chatId !== 'new') {
-      const savedChat = localStorage.getItem(`chat_${chatId}`);
-      if (savedChat) {
-        try {
-          const chatData = JSON.parse(savedChat);
-          setItems(chatData.messages || [{ 
-            role: 'assistant', 
-            content: '**ScynV** <img src="/ai-logo.ico" alt="AI" style="width: 16px; height: 16px; display: inline; margin-left: 4px;">\n\nHey there! I\'m ScynV, your intelligent AI companion. I can help you with research, analyze files, answer questions, and much more. What would you like to explore today?' 
-          }]);
-          setChatTitle(chatData.title || `Chat ${chatId}`);
-        } catch (e) {
-          setChatTitle(`Chat ${chatId}`);
-          setItems([{ 
-            role: 'assistant', 
-            content: '**ScynV** <img src="/ai-logo.ico" alt="AI" style="width: 16px; height: 16px; display: inline; margin-left: 4px;">\n\nHey there! I\'m ScynV, your intelligent AI companion. I can help you with research, analyze files, answer questions, and much more. What would you like to explore today?' 
-          }]);
-        }
-      } else {
-        setChatTitle(`Chat ${chatId}`);
-        setItems([{ 
-          role: 'assistant', 
-          content: '**ScynV** <img src="/ai-logo.ico" alt="AI" style="width: 16px; height: 16px; display: inline; margin-left: 4px;">\n\nHey there! I\'m ScynV, your intelligent AI companion. I can help you with research, analyze files, answer questions, and much more. What would you like to explore today?' 
-        }]);
-      }
-    } else {
+    let cancelled = false;
+    loadedRef.current = false;
+    persistedRef.current = 0;
+    newTitleRef.current = null;
+
+    if (!chatId || chatId === 'new') {
       setChatTitle('New Chat');
-      setItems([{ 
-        role: 'assistant', 
-        content: '**ScynV** <img src="/ai-logo.ico" alt="AI" style="width: 16px; height: 16px; display: inline; margin-left: 4px;">\n\nHey there! I\'m ScynV, your intelligent AI companion. I can help you with research, analyze files, answer questions, and much more. What would you like to explore today?' 
-      }]);
+      setItems([GREETING]);
+      return;
     }
+
+    importLocalChats()
+      .then(() => fetch(`/api/chats/${chatId}`))
+      .then(res => res.ok ? res.json() : null)
+      .then(chat => {
+        if (cancelled) return;
+        if (chat?.messages?.length) {
+          setItems(chat.messages);
+          persistedRef.current = chat.messages.length;
+        } else {
+          setItems([GREETING]);
+        }
+        setChatTitle(chat?.title || `Chat ${chatId}`);
+        loadedRef.current = true;
+      })
+      .catch(() => {
+        if (cancelled) return;
+        setChatTitle(`Chat ${chatId}`);
+        setItems([GREETING]);
+        loadedRef.current = true;
+      });
+
+    return () => { cancelled = true; };
   }, [chatId]);
 
+  function hasDefaultTitle() {
+    return chatTitle === `Chat ${chatId}` || chatTitle === 'New task';
+  }
+
+  // Names a still untitled chat after its first message
+  function autoTitle(text: string) {
+    if (!chatId || chatId === 'new' || !hasDefaultTitle()) return;
+    const newTitle = text.length > 30 ? text.substring(0, 30) + '...' : text;
+    setChatTitle(newTitle);
+    newTitleRef.current = newTitle;
+  }
+
   async function handleSend(text: string) {
+    const attachments = files;
     setItems(m => [...m, { 
       role: 'user', 
-      content: text + (files.length ? `\n\n[Attached: ${files.map(f => f.name).join(', ')}]` : '') 
+      content: text,
+      attachments: attachments.length ? attachments : undefined
     }]);
     setFiles([]);
 
-    // Update title if this is the first user message and we're in a new chat
-    if (chatId && chatId !== 'new' && chatTitle === `Chat ${chatId}`) {
-      const newTitle = text.length > 30 ? text.substring(0, 30) + '...' : text;
-      setChatTitle(newTitle);
-    }
+    autoTitle(text);
 
     const q = norm(text);
     if (q.includes('which llm') || q.includes('what llm') || q.includes('what model') || q.includes('model use')) {
@@ -108,108 +174,111 @@ export default function ChatPage() {
       return;
     }
 
+    if (attachments.length) {
+      await handleFileMessage(text, attachments);
+      return;
+    }
+
     setWorking(true);
 
+    // Render the assistant bubble as soon as the first token arrives, then update it in place
+    let bubbleShown = false;
+    const showReply = (content: string) => {
+      if (!bubbleShown) {
+        bubbleShown = true;
+        setStreaming(true);
+        setItems(m => [...m, { role: 'assistant', content }]);
+      } else {
+        setItems(m => [...m.slice(0, -1), { role: 'assistant', content }]);
+      }
+    };
+
     try {
-      const res = await fetch('/api/chat', {
+      let reply = '';
+      const { result } = await events.run('/api/chat', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ message: text, chatId })
+        body: JSON.stringify({
+          message: text,
+          chatId,
+          history: items.map(({ role, content }) => ({ role, content }))
+        })
+      }, {
+        token: (event) => {
+          // reset: the server is about to stream a polished rewrite of the draft
+          reply = event.reset ? event.text : reply + event.text;
+          if (reply) showReply(reply);
+        }
       });
-      const data = await res.json();
-
-      if (data.reply) {
-        setItems(m => [...m, { role: 'assistant', content: data.reply }]);
-        setWorking(false);
+      showReply(result || reply || '**ScynV** <img src="/ai-logo.ico" alt="AI" style="width: 16px; height: 16px; display: inline; margin-left: 4px;">\n\nI apologize, but I couldn\'t process your request at the moment. Please try again!');
+    } catch {
+      const content = '**ScynV** <img src="/ai-logo.ico" alt="AI" style="width: 16px; height: 16px; display: inline; margin-left: 4px;">\n\nI\'m having trouble connecting right now. Please check your connection and try again!';
+      if (bubbleShown) {
+        setItems(m => [...m.slice(0, -1), { role: 'assistant', content }]);
       } else {
-        setItems(m => [...m, { role: 'assistant', content: '**ScynV** <img src="/ai-logo.ico" alt="AI" style="width: 16px; height: 16px; display: inline; margin-left: 4px;">\n\nI apologize, but I couldn\'t process your request at the moment. Please try again!' }]);
-        setWorking(false);
+        setItems(m => [...m, { role: 'assistant', content }]);
       }
-    } catch {
-      setItems(m => [...m, { role: 'assistant', content: '**ScynV** <img src="/ai-logo.ico" alt="AI" style="width: 16px; height: 16px; display: inline; margin-left: 4px;">\n\nI\'m having trouble connecting right now. Please check your connection and try again!' }]);
+    } finally {
+      setStreaming(false);
       setWorking(false);
     }
   }
 
+  async function handleFileMessage(text: string, attachments: Attachment[]) {
+    try {
+      const form = new FormData();
+      form.append('message', text);
+      attachments.forEach(a => form.append('fileIds', a.id));
+
+      const message = await runTask({ chatId, title: text || 'File analysis' }, '/api/files/process', { method: 'POST', body: form });
+      postToChat(chatId, message);
+    } catch (error) {
+      postToChat(chatId, { 
+        role: 'assistant', 
+        content: `**ScynV** <img src="/ai-logo.ico" alt="AI" style="width: 16px; height: 16px; display: inline; margin-left: 4px;">\n\nI couldn't process your files: ${error instanceof Error ? error.message : 'Unknown error'}. Please try again!` 
+      });
+    }
+  }
+
   async function handleDeepSearch(query: string) {
     setItems(m => [...m, { role: 'user', content: `🔍 Deep Search: ${query}` }]);
 
-    // Update title if this is the first user message and we're in a new chat
-    if (chatId && chatId !== 'new' && chatTitle === `Chat ${chatId}`) {
-      const newTitle = query.length > 30 ? query.substring(0, 30) + '...' : query;
-      setChatTitle(newTitle);
+    autoTitle(query);
+
+    try {
+      const message = await runTask({ chatId, title: `Deep search: ${query}` }, `/api/deep-search?${new URLSearchParams({ query })}`, {});
+      postToChat(chatId, message);
+    } catch (error) {
+      postToChat(chatId, { 
+        role: 'assistant', 
+        content: `**ScynV** <img src="/ai-logo.ico" alt="AI" style="width: 16px; height: 16px; display: inline; margin-left: 4px;">\n\nI encountered an issue with the deep search: ${error instanceof Error ? error.message : 'Unknown error'}. Please try again or use regular chat!` 
+      });
     }
+  }
 
-    setWorking(true);
+  // Agent mode: the research pipeline, or the tool loop for tasks that need
+  // code, browsing or files. What the agent did is kept as steps on the answer.
+  async function handleAgentTask(text: string, mode: AgentMode) {
+    // The tool loop can read attached files; research works from the web only
+    const attachments = mode === 'tools' ? files : [];
+    setItems(m => [...m, { role: 'user', content: `🤖 Agent: ${text}`, attachments: attachments.length ? attachments : undefined }]);
+    if (attachments.length) setFiles([]);
 
-    try {
-      // Start deep search task
-      const taskPhases = [
-        { id: 'query_enhancement', name: 'Query Enhancement', description: 'Optimizing search strategy', estimatedDuration: 3 },
-        { id: 'deep_search', name: 'Deep Search', description: 'Searching multiple sources', estimatedDuration: 8 },
-        { id: 'synthesis', name: 'Information Synthesis', description: 'Analyzing and connecting data', estimatedDuration: 6 },
-        { id: 'humanization', name: 'Response Creation', description: 'Crafting natural response', estimatedDuration: 4 }
-      ];
-
-      startTask(chatId, taskPhases);
-      setProgressExpanded(true);
-
-      // Start Server-Sent Events connection for real-time updates
-      const eventSource = new EventSource(`/api/deep-search?${new URLSearchParams({
-        query: query,
-        chatId: chatId
-      })}`);
-
-      eventSource.onmessage = (event) => {
-        const data = JSON.parse(event.data);
-
-        switch (data.type) {
-          case 'phase_start':
-            // Phase already exists, just mark as active
-            break;
-          case 'phase_update':
-            updatePhase(data.phaseId, { qualityScore: data.progress });
-            break;
-          case 'phase_complete':
-            completePhase(data.phaseId, 85 + Math.random() * 15); // Random quality score 85-100
-            break;
-          case 'complete':
-            completeTask();
-            setItems(m => [...m, { role: 'assistant', content: data.result }]);
-            setWorking(false);
-            eventSource.close();
-            // Clear task after 3 seconds
-            setTimeout(() => clearTask(), 3000);
-            break;
-          case 'error':
-            setItems(m => [...m, { 
-              role: 'assistant', 
-              content: `**ScynV** <img src="/ai-logo.ico" alt="AI" style="width: 16px; height: 16px; display: inline; margin-left: 4px;">\n\nI encountered an issue with the deep search: ${data.error}. Let me try a regular response instead.` 
-            }]);
-            setWorking(false);
-            eventSource.close();
-            clearTask();
-            break;
-        }
-      };
+    autoTitle(text);
 
-      eventSource.onerror = () => {
-        setItems(m => [...m, { 
-          role: 'assistant', 
-          content: '**ScynV** <img src="/ai-logo.ico" alt="AI" style="width: 16px; height: 16px; display: inline; margin-left: 4px;">\n\nThe deep search connection was interrupted. Let me provide a regular response instead.' 
-        }]);
-        setWorking(false);
-        eventSource.close();
-        clearTask();
-      };
+    const reply = agentReply();
+    const input = mode === 'research'
+      ? `/api/agent-research?${new URLSearchParams({ message: text })}`
+      : `/api/agent-task?${new URLSearchParams([['message', text], ...attachments.map(a => ['fileIds', a.id])])}`;
 
+    try {
+      postToChat(chatId, await runTask({ chatId, title: `Agent: ${text}` }, input, {}, reply));
     } catch (error) {
-      setItems(m => [...m, { 
+      postToChat(chatId, { 
         role: 'assistant', 
-        content: '**ScynV** <img src="/ai-logo.ico" alt="AI" style="width: 16px; height: 16px; display: inline; margin-left: 4px;">\n\nI\'m having trouble with the deep search right now. Please try again or use regular chat!' 
-      }]);
-      setWorking(false);
-      clearTask();
+        content: `**ScynV** <img src="/ai-logo.ico" alt="AI" style="width: 16px; height: 16px; display: inline; margin-left: 4px;">\n\nThe agent couldn't finish this task: ${error instanceof Error ? error.message : 'Unknown error'}. Please try again!`,
+        steps: reply.steps.length ? reply.steps : undefined
+      });
     }
   }
 
@@ -228,86 +297,30 @@ export default function ChatPage() {
 I'll help you download that YouTube video as ${format.toUpperCase()}. Starting the download process now...` 
     }]);
 
-    setWorking(true);
-
     try {
-      // Start download task
-      const taskPhases = [
-        { id: 'validation', name: 'URL Validation', description: 'Validating YouTube URL', estimatedDuration: 2 },
-        { id: 'extraction', name: 'Video Extraction', description: 'Extracting video information', estimatedDuration: 5 },
-        { id: 'download', name: 'Downloading', description: 'Downloading video/audio', estimatedDuration: 15 },
-        { id: 'processing', name: 'Processing', description: 'Converting and finalizing', estimatedDuration: 8 }
-      ];
-
-      startTask(chatId, taskPhases);
-      setProgressExpanded(true);
-
-      // Start Server-Sent Events connection for real-time updates
-      const response = await fetch('/api/download-youtube', {
+      const reply = downloadReply();
+      const message = await runTask({ chatId, title: `YouTube ${format.toUpperCase()} download` }, '/api/download-youtube', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({ url, format, chatId }),
+      }, reply).catch(error => {
+        // Failures before yt-dlp started are about the request itself
+        if (!reply.started()) throw error;
+        throw new DownloadError(error instanceof Error ? error.message : 'Unknown error');
       });
 
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.error || 'Download failed');
-      }
+      // Add completion message with download link
+      postToChat(chatId, message);
+    } catch (error) {
+      if (error instanceof DownloadError) {
+        const reason = error.message;
+        postToChat(chatId, { 
+          role: 'assistant', 
+          content: `**ScynV** <img src="/ai-logo.ico" alt="AI" style="width: 16px; height: 16px; display: inline; margin-left: 4px;">
 
-      // Set up Server-Sent Events for progress
-      const eventSource = new EventSource(`/api/download-youtube`);
-
-      eventSource.onmessage = (event) => {
-        const data = JSON.parse(event.data);
-
-        switch (data.type) {
-          case 'started':
-            updatePhase('validation', { qualityScore: 100 });
-            completePhase('validation', 100);
-            break;
-          case 'progress':
-            updatePhase('download', { qualityScore: data.percentage });
-            if (data.percentage >= 100) {
-              completePhase('download', 95);
-            }
-            break;
-          case 'processing':
-            completePhase('download', 95);
-            updatePhase('processing', { qualityScore: 50 });
-            break;
-          case 'complete':
-            completePhase('processing', 100);
-            completeTask();
-            
-            // Add completion message with download link
-            setItems(m => [...m, { 
-              role: 'assistant', 
-              content: `**ScynV** <img src="/ai-logo.ico" alt="AI" style="width: 16px; height: 16px; display: inline; margin-left: 4px;">
-
-Great! Your ${format.toUpperCase()} download is ready. Here are the details:
-
-📁 **File:** ${data.filename}
-📊 **Size:** ${data.size}
-⏰ **Available for:** 3 minutes
-
-<a href="${data.downloadUrl}" download="${data.filename}" style="display: inline-block; background: linear-gradient(135deg, #ef4444, #dc2626); color: white; padding: 8px 16px; border-radius: 8px; text-decoration: none; font-weight: 500; margin-top: 8px;">📥 Download to Device</a>
-
-The file will be automatically deleted from our servers in 3 minutes for your privacy and security.` 
-            }]);
-            
-            setWorking(false);
-            eventSource.close();
-            // Clear task after 3 seconds
-            setTimeout(() => clearTask(), 3000);
-            break;
-          case 'error':
-            setItems(m => [...m, { 
-              role: 'assistant', 
-              content: `**ScynV** <img src="/ai-logo.ico" alt="AI" style="width: 16px; height: 16px; display: inline; margin-left: 4px;">
-
-I encountered an issue while downloading the video: ${data.error}
+I encountered an issue while downloading the video: ${reason}
 
 This could be due to:
 - The video being private or restricted
@@ -316,28 +329,11 @@ This could be due to:
 - Server limitations
 
 Please try again with a different video or check if the URL is accessible.` 
-            }]);
-            setWorking(false);
-            eventSource.close();
-            clearTask();
-            break;
-        }
-      };
-
-      eventSource.onerror = () => {
-        setItems(m => [...m, { 
+        });
+      } else {
+        postToChat(chatId, { 
           role: 'assistant', 
-          content: '**ScynV** <img src="/ai-logo.ico" alt="AI" style="width: 16px; height: 16px; display: inline; margin-left: 4px;">\n\nThe download connection was interrupted. Please try again.' 
-        }]);
-        setWorking(false);
-        eventSource.close();
-        clearTask();
-      };
-
-    } catch (error) {
-      setItems(m => [...m, { 
-        role: 'assistant', 
-        content: `**ScynV** <img src="/ai-logo.ico" alt="AI" style="width: 16px; height: 16px; display: inline; margin-left: 4px;">
+          content: `**ScynV** <img src="/ai-logo.ico" alt="AI" style="width: 16px; height: 16px; display: inline; margin-left: 4px;">
 
 I'm having trouble starting the YouTube download: ${error instanceof Error ? error.message : 'Unknown error'}
 
@@ -347,17 +343,31 @@ Please make sure:
 - The video is publicly accessible
 
 Try again in a moment!` 
-      }]);
-      setWorking(false);
-      clearTask();
+        });
+      }
     }
   }
 
-  function onFiles(list: FileList) { 
-    setFiles(Array.from(list).map(f => ({ name: f.name }))); 
-  }
+  async function onFiles(list: FileList) { 
+    const picked = Array.from(list);
+    const form = new FormData();
+    picked.forEach(f => form.append('files', f));
+    setUploading(true);
 
-  const shouldShowProgress = currentTask && (working || currentTask.isActive);
+    try {
+      const res = await fetch('/api/files', { method: 'POST', body: form });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Upload failed');
+      setFiles(prev => [...prev, ...data.files]);
+    } catch (error) {
+      setItems(m => [...m, { 
+        role: 'assistant', 
+        content: `**ScynV** <img src="/ai-logo.ico" alt="AI" style="width: 16px; height: 16px; display: inline; margin-left: 4px;">\n\nI couldn't upload ${picked.map(f => f.name).join(', ')}: ${error instanceof Error ? error.message : 'Unknown error'}` 
+      }]);
+    } finally {
+      setUploading(false);
+    }
+  }
 
   return (
     <div className="min-h-screen bg-neutral-950 text-neutral-100 flex flex-col">
@@ -379,16 +389,52 @@ Try again in a moment!`
                   <div className={`text-[9px] md:text-[10px] uppercase tracking-wide mb-1 text-neutral-400 ${m.role === 'user' ? 'text-right' : ''}`}>
                     {m.role === 'user' ? 'You' : 'ScynV'}
                   </div>
+                  {m.steps && m.steps.length > 0 && <AgentSteps steps={m.steps} />}
                   <div 
                     className="whitespace-pre-wrap text-neutral-200" 
-                    dangerouslySetInnerHTML={{ __html: m.content.replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>') }}
+                    dangerouslySetInnerHTML={{ __html: messageHtml(m, i) }}
                   />
+                  {m.sources && m.sources.length > 0 && (
+                    <ol className="mt-3 pt-2 border-t border-white/10 space-y-1 text-[11px] text-neutral-400">
+                      {m.sources.map(s => (
+                        <li key={s.id} id={`cite-${i}-${s.id}`} className="flex gap-1.5 scroll-mt-4">
+                          <span className="text-neutral-500">[{s.id}]</span>
+                          <a href={s.url} target="_blank" rel="noreferrer" className="hover:text-neutral-200 hover:underline truncate">
+                            {s.title} <span className="text-neutral-500">— {sourceHost(s.url)}</span>
+                          </a>
+                        </li>
+                      ))}
+                    </ol>
+                  )}
+                  {m.reportId && (
+                    <div className="mt-2 flex flex-wrap items-center gap-1.5 text-[11px] text-neutral-400">
+                      <span>Export report:</span>
+                      {REPORT_FORMATS.map(f => (
+                        <a key={f.ext} href={`/api/reports/${m.reportId}/report.${f.ext}`} className="px-2 py-0.5 rounded-md bg-neutral-800 border border-white/10 text-neutral-300 hover:border-white/20">
+                          {f.label}
+                        </a>
+                      ))}
+                    </div>
+                  )}
+                  {m.attachments && m.attachments.length > 0 && (
+                    <div className={`mt-2 flex flex-wrap gap-1.5 ${m.role === 'user' ? 'justify-end' : ''}`}>
+                      {m.attachments.map(a => a.type.startsWith('image/') ? (
+                        <a key={a.id} href={a.url} target="_blank" rel="noreferrer">
+                          <img src={a.url} alt={a.name} className="h-20 max-w-[160px] object-cover rounded-lg border border-white/10" />
+                        </a>
+                      ) : (
+                        <a key={a.id} href={a.url} target="_blank" rel="noreferrer" className="px-2 py-1 rounded-lg bg-neutral-800 border border-white/10 text-[11px] text-neutral-300 hover:border-white/20">
+                          📎 {a.name}
+                        </a>
+                      ))}
+                    </div>
+                  )}
                 </div>
               </div>
             ))}
           </div>
 
-          {working && (
+          {thinking && !streaming && (
             <div className="mt-2 md:mt-3 text-xs md:text-sm text-neutral-300 inline-flex items-center gap-2">
               <span className="dot" /><span className="dot" /><span className="dot" /><span>Thinking…</span>
             </div>
@@ -399,12 +445,26 @@ Try again in a moment!`
       <div className="border-t border-white/10 p-3 md:p-4">
         <div className="max-w-3xl mx-auto space-y-2 md:space-y-3">
           {/* Progress bar above composer */}
-          {shouldShowProgress && (
+          {task?.isActive && (
             <ProgressBar 
+              task={task}
               isExpanded={progressExpanded} 
               onToggle={() => setProgressExpanded(!progressExpanded)} 
+              onCancel={() => cancelTask(task.taskId)}
             />
           )}
+          {/* Uploaded files waiting to be sent */}
+          {(files.length > 0 || uploading) && (
+            <div className="flex flex-wrap gap-1.5">
+              {files.map(f => (
+                <span key={f.id} className="inline-flex items-center gap-1.5 px-2 py-1 rounded-lg bg-neutral-900 border border-white/10 text-xs text-neutral-300">
+                  📎 {f.name}
+                  <button onClick={() => setFiles(prev => prev.filter(p => p.id !== f.id))} className="text-neutral-500 hover:text-white" title="Remove">✕</button>
+                </span>
+              ))}
+              {uploading && <span className="px-2 py-1 text-xs text-neutral-400">Uploading…</span>}
+            </div>
+          )}
           <Composer 
             onSend={handleSend} 
             onFiles={onFiles}
@@ -412,6 +472,9 @@ Try again in a moment!`
             onYouTubeDownload={handleYouTubeDownload}
             deepSearchActive={deepSearchActive}
             onDeepSearchToggle={setDeepSearchActive}
+            onAgentTask={handleAgentTask}
+            agentMode={agentMode}
+            onAgentModeChange={setAgentMode}
           />
         </div>
       </div>
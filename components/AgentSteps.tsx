@@ -0,0 +1,25 @@
+'use client';
+import type { AgentStep } from '@/lib/agentSteps';
+
+// What an agent did on the way to its answer, one collapsible row per step
+export default function AgentSteps({ steps }: { steps: AgentStep[] }) {
+  return (
+    <div className="mb-2 space-y-1">
+      {steps.map(step => (
+        <details key={step.id} className="rounded-lg bg-neutral-900/40 border border-white/10 text-[11px] text-neutral-400">
+          <summary className="px-2 py-1 cursor-pointer hover:text-neutral-200">{step.title}</summary>
+          <div className="px-2 pb-2 space-y-1">
+            {step.detail && (
+              <div className="whitespace-pre-wrap text-neutral-300 max-h-60 overflow-y-auto">{step.detail}</div>
+            )}
+            {step.items && step.items.length > 0 && (
+              <ul className="list-disc pl-4 space-y-0.5">
+                {step.items.map((item, i) => <li key={i}>{item}</li>)}
+              </ul>
+            )}
+          </div>
+        </details>
+      ))}
+    </div>
+  );
+}
@@ -1,6 +1,9 @@
 'use client';
 import { useRef, useState, useEffect } from 'react';
 
+// research: /api/agent-research; tools: the EnhancedAIAgent tool loop in /api/agent-task
+export type AgentMode = 'research' | 'tools';
+
 interface ComposerProps {
   onSend: (t: string) => void;
   onFiles: (files: FileList) => void;
@@ -8,6 +11,9 @@ interface ComposerProps {
   onYouTubeDownload: (url: string, format: 'mp4' | 'mp3') => void;
   deepSearchActive?: boolean;
   onDeepSearchToggle?: (active: boolean) => void;
+  onAgentTask: (text: string, mode: AgentMode) => void;
+  agentMode?: AgentMode | null;
+  onAgentModeChange?: (mode: AgentMode | null) => void;
 }
 
 export default function Composer({ 
@@ -16,7 +22,10 @@ export default function Composer({
   onDeepSearch, 
   onYouTubeDownload,
   deepSearchActive = false, 
-  onDeepSearchToggle 
+  onDeepSearchToggle,
+  onAgentTask,
+  agentMode = null,
+  onAgentModeChange
 }: ComposerProps) {
   const [v, setV] = useState('');
   const [showDropdown, setShowDropdown] = useState(false);
@@ -34,6 +43,9 @@ export default function Composer({
       onDeepSearch(t);
       // Turn off Deep Search after use
       onDeepSearchToggle?.(false);
+    } else if (agentMode) {
+      // Agent mode stays on until toggled off
+      onAgentTask(t, agentMode);
     } else {
       // Normal send
       onSend(t);
@@ -42,9 +54,15 @@ export default function Composer({
 
   const handleDeepSearchActivate = () => {
     setShowDropdown(false);
+    onAgentModeChange?.(null);
     onDeepSearchToggle?.(true);
   };
 
+  const handleAgentToggle = () => {
+    if (!agentMode) onDeepSearchToggle?.(false);
+    onAgentModeChange?.(agentMode ? null : 'research');
+  };
+
   const handleYouTubeDownload = () => {
     setShowDropdown(false);
     setShowYouTubeDownloader(true);
@@ -74,9 +92,12 @@ export default function Composer({
           ref={ref} 
           type="file" 
           multiple 
-          accept="image/*,application/pdf,.doc,.docx,.txt,.csv,.xlsx"
+          accept="image/*,application/pdf,.docx,.txt,.md,.html,.htm,.csv,.tsv,.xls,.xlsx"
           className="hidden" 
-          onChange={e => e.target.files && onFiles(e.target.files)} 
+          onChange={e => {
+            if (e.target.files?.length) onFiles(e.target.files);
+            e.target.value = ''; // allow picking the same file again
+          }} 
         />
         
         {/* Plus Button with Dropdown */}
@@ -120,7 +141,13 @@ export default function Composer({
           )}
         </div>
 
-        <button className="px-2 md:px-3 py-2 md:py-3 rounded-lg border border-white/10 hover:border-white/20 text-xs md:text-sm flex items-center justify-center" title="Agent">
+        <button
+          onClick={handleAgentToggle}
+          className={`px-2 md:px-3 py-2 md:py-3 rounded-lg border text-xs md:text-sm flex items-center justify-center ${
+            agentMode ? 'border-[#D78AC5]/60 bg-[#6B1B5C]/20' : 'border-white/10 hover:border-white/20'
+          }`}
+          title={agentMode ? 'Turn off Agent mode' : 'Agent mode'}
+        >
           <img src="/ai-logo.ico" alt="AI Agent" className="w-6 h-6 md:w-8 md:h-8" />
         </button>
         
@@ -129,10 +156,12 @@ export default function Composer({
             value={v} 
             onChange={e => setV(e.target.value)} 
             onKeyDown={e => e.key === 'Enter' && send()} 
-            placeholder={deepSearchActive ? "Type your search query..." : "Type a message…"}
+            placeholder={deepSearchActive ? "Type your search query..." : agentMode ? "Give the agent a task…" : "Type a message…"}
             className={`w-full rounded-lg bg-neutral-900 border px-3 md:px-4 py-2 md:py-3 outline-none text-xs md:text-sm ${
               deepSearchActive 
                 ? 'border-blue-500/60 focus:border-blue-500 pr-10' 
+                : agentMode
+                ? 'border-[#D78AC5]/60 focus:border-[#D78AC5] pr-36'
                 : 'border-white/10 focus:border-[#D78AC5]/60'
             }`}
           />
@@ -150,6 +179,31 @@ export default function Composer({
               </button>
             </div>
           )}
+
+          {/* Agent mode: which pipeline handles the message */}
+          {agentMode && (
+            <div className="absolute right-2 top-1/2 transform -translate-y-1/2 flex items-center gap-1">
+              {(['research', 'tools'] as const).map(mode => (
+                <button
+                  key={mode}
+                  onClick={() => onAgentModeChange?.(mode)}
+                  className={`px-1.5 py-0.5 rounded-md text-[10px] md:text-xs ${
+                    agentMode === mode ? 'bg-[#6B1B5C]/60 text-white' : 'text-neutral-400 hover:text-neutral-200'
+                  }`}
+                  title={mode === 'research' ? 'Plan, search and analyze the web' : 'Use tools such as code execution and browsing'}
+                >
+                  {mode === 'research' ? 'Research' : 'Tools'}
+                </button>
+              ))}
+              <button
+                onClick={() => onAgentModeChange?.(null)}
+                className="text-[#D78AC5] hover:text-white text-xs"
+                title="Turn off Agent mode"
+              >
+                ✕
+              </button>
+            </div>
+          )}
         </div>
         
         <button 
@@ -160,7 +214,7 @@ export default function Composer({
               : 'bg-gradient-to-r from-[#6B1B5C] to-[#D78AC5] hover:from-[#7A1F66] hover:to-[#E094CF]'
           }`}
         >
-          {deepSearchActive ? 'Search' : 'Send'}
+          {deepSearchActive ? 'Search' : agentMode ? 'Run' : 'Send'}
         </button>
       </div>
 
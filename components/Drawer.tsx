@@ -2,6 +2,7 @@
 'use client';
 import { useEffect, useState } from 'react';
 import { useRouter, usePathname } from 'next/navigation';
+import { importLocalChats } from '@/lib/chatClient';
 
 export default function Drawer({ open, onClose }:{ open:boolean, onClose:()=>void }){
   const [items,setItems]=useState<any[]>([]);
@@ -13,47 +14,16 @@ export default function Drawer({ open, onClose }:{ open:boolean, onClose:()=>voi
     if(open) {
       setLoading(true);
       
-      // Get saved chats from localStorage
-      const savedChats = [];
-      for (let i = 0; i < localStorage.length; i++) {
-        const key = localStorage.key(i);
-        if (key?.startsWith('chat_')) {
-          try {
-            const chatData = JSON.parse(localStorage.getItem(key) || '{}');
-            const chatId = key.replace('chat_', '');
-            savedChats.push({
-              id: chatId,
-              title: chatData.title || `Chat ${chatId}`,
-              updated_at: chatData.lastUpdated || new Date().toISOString()
-            });
-          } catch (e) {
-            // Skip invalid chat data
-          }
-        }
-      }
-      
-      // Sort by last updated
-      savedChats.sort((a, b) => new Date(b.updated_at).getTime() - new Date(a.updated_at).getTime());
-      
-      fetch('/api/chats')
+      // Move any chats still in localStorage to the server before listing
+      importLocalChats()
+        .then(()=>fetch('/api/chats'))
         .then(r=>r.json())
         .then(d=> {
-          // Combine API chats with saved chats, prioritizing saved ones
-          const apiChats = d?.items || [];
-          const allChats = [...savedChats];
-          
-          // Add API chats that aren't already in saved chats
-          apiChats.forEach((apiChat: any) => {
-            if (!savedChats.find(saved => saved.id === apiChat.id)) {
-              allChats.push(apiChat);
-            }
-          });
-          
-          setItems(allChats);
+          setItems(d?.items || []);
           setLoading(false);
         })
         .catch(()=> {
-          setItems(savedChats.length > 0 ? savedChats : [{id:'1',title:'Welcome chat'}]);
+          setItems([]);
           setLoading(false);
         });
     }
@@ -85,6 +55,32 @@ export default function Drawer({ open, onClose }:{ open:boolean, onClose:()=>voi
     }
   };
 
+  const handleRename = async (chat: any) => {
+    const title = window.prompt('Rename chat', chat.title);
+    if (!title?.trim() || title === chat.title) return;
+    const res = await fetch(`/api/chats/${chat.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ title })
+    });
+    if (res.ok) {
+      const data = await res.json();
+      setItems(list => list.map(c => c.id === chat.id ? { ...c, title: data.title, updated_at: data.updated_at } : c));
+    }
+  };
+
+  const handleDelete = async (chat: any) => {
+    if (!window.confirm(`Delete "${chat.title}"?`)) return;
+    const res = await fetch(`/api/chats/${chat.id}`, { method: 'DELETE' });
+    if (res.ok) {
+      setItems(list => list.filter(c => c.id !== chat.id));
+      if (pathname === `/chat/${chat.id}`) {
+        onClose();
+        router.push('/chat/new');
+      }
+    }
+  };
+
   return (<>
     {open && <div className="fixed inset-0 bg-black/40 z-20" onClick={onClose}/>}
     {open && (
@@ -107,22 +103,30 @@ export default function Drawer({ open, onClose }:{ open:boolean, onClose:()=>voi
             <div className="px-3 py-2 text-sm text-neutral-400">Loading...</div>
           ) : (
             items.map((c:any)=> (
-              <button
+              <div
                 key={c.id}
-                onClick={() => handleChatClick(c.id)}
-                className={`w-full text-left px-3 py-2 rounded-lg hover:bg-white/5 text-sm border transition-colors ${
+                className={`group flex items-start gap-1 rounded-lg hover:bg-white/5 border transition-colors ${
                   pathname === `/chat/${c.id}` 
                     ? 'border-[#D78AC5]/30 bg-[#D78AC5]/5' 
                     : 'border-white/0 hover:border-white/10'
                 }`}
               >
-                <div className="truncate">{c.title}</div>
-                {c.updated_at && (
-                  <div className="text-xs text-neutral-500 mt-1">
-                    {new Date(c.updated_at).toLocaleDateString()}
-                  </div>
-                )}
-              </button>
+                <button
+                  onClick={() => handleChatClick(c.id)}
+                  className="flex-1 min-w-0 text-left px-3 py-2 text-sm"
+                >
+                  <div className="truncate">{c.title}</div>
+                  {c.updated_at && (
+                    <div className="text-xs text-neutral-500 mt-1">
+                      {new Date(c.updated_at).toLocaleDateString()}
+                    </div>
+                  )}
+                </button>
+                <div className="flex items-center gap-0.5 pt-1.5 pr-1.5 md:opacity-0 md:group-hover:opacity-100 transition-opacity">
+                  <button onClick={() => handleRename(c)} className="px-1.5 py-1 rounded text-xs text-neutral-400 hover:text-white" title="Rename">✎</button>
+                  <button onClick={() => handleDelete(c)} className="px-1.5 py-1 rounded text-xs text-neutral-400 hover:text-red-400" title="Delete">🗑</button>
+                </div>
+              </div>
             ))
           )}
           {!loading && items.length === 0 && (
@@ -1,5 +1,8 @@
 import React from 'react';
-export type Msg = { role: 'user'|'assistant', content: string };
+import type { AgentStep } from '@/lib/agentSteps';
+import type { CitationSource } from '@/lib/citations';
+export type Attachment = { id: string, name: string, type: string, size: number, url: string };
+export type Msg = { role: 'user'|'assistant', content: string, attachments?: Attachment[], sources?: CitationSource[], reportId?: string, steps?: AgentStep[] };
 export default function MessageList({ items }:{ items: Msg[] }){
   return (
     <div className="space-y-3">
@@ -2,19 +2,20 @@
 'use client';
 import React, { useEffect, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { useTaskProgress, TaskPhase } from '@/contexts/TaskProgressContext';
+import { TaskProgress } from '@/contexts/TaskProgressContext';
 
 interface ProgressBarProps {
+  task: TaskProgress;
   isExpanded: boolean;
   onToggle: () => void;
+  onCancel?: () => void; // shown as a stop button while the task runs
 }
 
-const ProgressBar: React.FC<ProgressBarProps> = ({ isExpanded, onToggle }) => {
-  const { currentTask } = useTaskProgress();
+const ProgressBar: React.FC<ProgressBarProps> = ({ task: currentTask, isExpanded, onToggle, onCancel }) => {
   const [timeLeft, setTimeLeft] = useState<string>('');
 
   useEffect(() => {
-    if (!currentTask?.isActive) return;
+    if (!currentTask.isActive) return;
 
     const interval = setInterval(() => {
       const minutes = Math.floor(currentTask.estimatedTimeRemaining / 60);
@@ -23,15 +24,10 @@ const ProgressBar: React.FC<ProgressBarProps> = ({ isExpanded, onToggle }) => {
     }, 1000);
 
     return () => clearInterval(interval);
-  }, [currentTask?.estimatedTimeRemaining, currentTask?.isActive]);
-
-  if (!currentTask) return null;
+  }, [currentTask.estimatedTimeRemaining, currentTask.isActive]);
 
   const currentPhaseData = currentTask.phases.find(p => p.id === currentTask.currentPhase);
-  const completedPhases = currentTask.phases.filter(p => p.status === 'completed');
-  const avgQuality = completedPhases.length > 0
-    ? completedPhases.reduce((sum, p) => sum + (p.qualityScore || 0), 0) / completedPhases.length
-    : null;
+  const phases = currentTask.phases.filter(p => p.status !== 'skipped');
 
   return (
     <AnimatePresence>
@@ -60,6 +56,14 @@ const ProgressBar: React.FC<ProgressBarProps> = ({ isExpanded, onToggle }) => {
             {timeLeft && (
               <span className="text-xs text-neutral-400">{timeLeft}</span>
             )}
+            {onCancel && currentTask.isActive && (
+              <button
+                onClick={(e) => { e.stopPropagation(); onCancel(); }}
+                className="text-xs text-neutral-400 hover:text-red-400 px-1.5"
+              >
+                Stop
+              </button>
+            )}
             <motion.div
               animate={{ rotate: isExpanded ? 180 : 0 }}
               transition={{ duration: 0.2 }}
@@ -121,7 +125,7 @@ const ProgressBar: React.FC<ProgressBarProps> = ({ isExpanded, onToggle }) => {
 
                 {/* Phase list */}
                 <div className="space-y-2">
-                  {currentTask.phases.map((phase, index) => (
+                  {phases.map((phase, index) => (
                     <motion.div
                       key={phase.id}
                       initial={{ opacity: 0, x: -20 }}
@@ -132,6 +136,8 @@ const ProgressBar: React.FC<ProgressBarProps> = ({ isExpanded, onToggle }) => {
                           ? 'bg-[#6B1B5C]/20 border border-[#6B1B5C]/30' 
                           : phase.status === 'completed'
                           ? 'bg-green-900/20 border border-green-500/30'
+                          : phase.status === 'error'
+                          ? 'bg-red-900/20 border border-red-500/30'
                           : 'bg-neutral-800/30'
                       }`}
                     >
@@ -140,6 +146,8 @@ const ProgressBar: React.FC<ProgressBarProps> = ({ isExpanded, onToggle }) => {
                           ? 'bg-green-500' 
                           : phase.status === 'active'
                           ? 'bg-[#D78AC5] animate-pulse'
+                          : phase.status === 'error'
+                          ? 'bg-red-500'
                           : 'bg-neutral-600'
                       }`} />
                       
@@ -148,9 +156,9 @@ const ProgressBar: React.FC<ProgressBarProps> = ({ isExpanded, onToggle }) => {
                           <span className="text-sm text-neutral-200">
                             {phase.name}
                           </span>
-                          {phase.qualityScore && (
-                            <span className="text-xs text-green-400">
-                              {phase.qualityScore.toFixed(0)}%
+                          {phase.status === 'active' && phase.progress !== undefined && (
+                            <span className="text-xs text-[#D78AC5]">
+                              {phase.progress.toFixed(0)}%
                             </span>
                           )}
                         </div>
@@ -159,8 +167,11 @@ const ProgressBar: React.FC<ProgressBarProps> = ({ isExpanded, onToggle }) => {
                         </div>
                       </div>
                       
+                      {/* Actual duration once finished, the estimate until then */}
                       <div className="text-xs text-neutral-500">
-                        {phase.estimatedDuration}s
+                        {phase.startTime && phase.endTime
+                          ? `${Math.max(1, Math.round((phase.endTime.getTime() - phase.startTime.getTime()) / 1000))}s`
+                          : `~${phase.estimatedDuration}s`}
                       </div>
                     </motion.div>
                   ))}
@@ -169,10 +180,7 @@ const ProgressBar: React.FC<ProgressBarProps> = ({ isExpanded, onToggle }) => {
                 {/* Stats */}
                 <div className="flex justify-between text-xs text-neutral-400 pt-2 border-t border-white/10">
                   <span>Elapsed: {Math.floor(currentTask.elapsedTime / 60)}:{(currentTask.elapsedTime % 60).toString().padStart(2, '0')}</span>
-                  {avgQuality && (
-                    <span>Avg Quality: {avgQuality.toFixed(0)}%</span>
-                  )}
-                  <span>{currentTask.phases.filter(p => p.status === 'completed').length}/{currentTask.phases.length} done</span>
+                  <span>{phases.filter(p => p.status === 'completed').length}/{phases.length} done</span>
                 </div>
 
                 {/* Error state */}
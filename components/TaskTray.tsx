@@ -0,0 +1,86 @@
+'use client';
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { TaskProgress, useTaskProgress } from '@/contexts/TaskProgressContext';
+
+function formatTime(seconds: number) {
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+}
+
+function taskStatus(task: TaskProgress) {
+  if (task.error) return task.error;
+  if (!task.isActive) return 'Done';
+  const phase = task.phases.find(p => p.id === task.currentPhase);
+  return `${phase?.name || 'Starting…'} · ${formatTime(task.estimatedTimeRemaining)} left`;
+}
+
+// The 🔔 button: background tasks of every chat, with a badge for running
+// and unread ones
+export default function TaskTray() {
+  const router = useRouter();
+  const { tasks, cancelTask, dismissTask, markAllRead } = useTaskProgress();
+  const [open, setOpen] = useState(false);
+  const running = tasks.filter(t => t.isActive).length;
+  const unread = tasks.filter(t => t.unread).length;
+
+  function toggle() {
+    if (!open) markAllRead();
+    setOpen(v => !v);
+  }
+
+  function openChat(task: TaskProgress) {
+    setOpen(false);
+    router.push(`/chat/${task.chatId}`);
+  }
+
+  return (
+    <div className="relative">
+      <button onClick={toggle} className="relative px-1.5 md:px-2 py-1.5 md:py-2 rounded-lg border border-white/10 text-sm" title="Tasks">
+        🔔
+        {(running > 0 || unread > 0) && (
+          <span className={`absolute -top-1 -right-1 min-w-[16px] h-4 px-1 rounded-full text-[10px] leading-4 text-white ${unread ? 'bg-[#D78AC5]' : 'bg-neutral-600'}`}>
+            {unread || running}
+          </span>
+        )}
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-2 w-72 md:w-80 rounded-xl border border-white/10 bg-neutral-900/95 p-2 shadow-xl">
+          <div className="flex items-center justify-between px-1 pb-2 text-xs md:text-sm text-neutral-300">
+            <span>Tasks</span>
+            {tasks.some(t => !t.isActive) && (
+              <button onClick={() => tasks.filter(t => !t.isActive).forEach(t => dismissTask(t.taskId))} className="text-xs text-neutral-500 hover:text-neutral-300">
+                Clear finished
+              </button>
+            )}
+          </div>
+          {tasks.length === 0 && (
+            <div className="px-1 py-3 text-xs text-neutral-500">No background tasks</div>
+          )}
+          <div className="space-y-1.5 max-h-80 overflow-y-auto">
+            {[...tasks].reverse().map(task => (
+              <div key={task.taskId} className="p-2 rounded-lg bg-neutral-800/50 border border-white/5">
+                <div className="flex items-start gap-2">
+                  <button onClick={() => openChat(task)} className="flex-1 min-w-0 text-left">
+                    <div className="text-xs text-neutral-200 truncate">{task.title}</div>
+                    <div className={`text-[11px] truncate ${task.error ? 'text-red-400' : 'text-neutral-500'}`}>{taskStatus(task)}</div>
+                  </button>
+                  {task.isActive ? (
+                    <button onClick={() => cancelTask(task.taskId)} className="text-[11px] text-neutral-400 hover:text-red-400" title="Stop">Stop</button>
+                  ) : (
+                    <button onClick={() => dismissTask(task.taskId)} className="text-xs text-neutral-500 hover:text-white" title="Dismiss">✕</button>
+                  )}
+                </div>
+                <div className="mt-1.5 h-1 bg-neutral-700 rounded-full overflow-hidden">
+                  <div
+                    className={`h-full transition-all ${task.error ? 'bg-red-500' : 'bg-gradient-to-r from-[#6B1B5C] to-[#D78AC5]'}`}
+                    style={{ width: `${task.overallProgress}%` }}
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 'use client';
 import { useEffect, useState } from 'react';
+import TaskTray from '@/components/TaskTray';
 export default function TopBar({ onMenu }:{ onMenu:()=>void }){
   const [show,setShow]=useState(false);
   const [me,setMe]=useState<any>(null);
@@ -12,7 +13,7 @@ export default function TopBar({ onMenu }:{ onMenu:()=>void }){
         <button onClick={onMenu} className="px-1.5 md:px-2 py-1.5 md:py-2 rounded-lg border border-white/10 hover:border-white/20 text-sm">☰</button>
         <div className="font-semibold text-sm md:text-base">ScynV <span className="text-[#F4AFCB]">AI</span></div>
         <div className="ml-auto flex items-center gap-1.5 md:gap-2">
-          <button className="px-1.5 md:px-2 py-1.5 md:py-2 rounded-lg border border-white/10 text-sm" title="Notifications">🔔</button>
+          <TaskTray />
           <div className="relative">
             <button onClick={()=>setShow(v=>!v)} className="px-1.5 md:px-2 py-1.5 md:py-2 rounded-lg border border-white/10 text-sm" title="Credits">✨</button>
             {show && (
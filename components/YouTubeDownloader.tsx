@@ -1,6 +1,7 @@
 'use client';
-import { useState, useRef, useEffect } from 'react';
+import { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
+import { useEventStream } from '@/lib/sse/client';
 
 interface YouTubeDownloaderProps {
   isOpen: boolean;
@@ -25,7 +26,7 @@ export default function YouTubeDownloader({ isOpen, onClose, onDownloadStart }:
   const [format, setFormat] = useState<'mp4' | 'mp3'>('mp4');
   const [isDownloading, setIsDownloading] = useState(false);
   const [progress, setProgress] = useState<DownloadProgress | null>(null);
-  const eventSourceRef = useRef<EventSource | null>(null);
+  const events = useEventStream();
 
   const validateYouTubeUrl = (url: string): boolean => {
     const youtubeRegex = /^(https?:\/\/)?(www\.)?(youtube\.com|youtu\.be)\/.+/;
@@ -42,67 +43,42 @@ export default function YouTubeDownloader({ isOpen, onClose, onDownloadStart }:
     setProgress(null);
     onDownloadStart(url, format);
 
+    const empty: DownloadProgress = { downloadId: '', percentage: 0, speed: '', eta: '', size: '', status: 'started' };
+    const update = (next: Partial<DownloadProgress>) => setProgress(current => ({ ...(current || empty), ...next }));
+
     try {
-      const response = await fetch('/api/download-youtube', {
+      await events.run('/api/download-youtube', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({ url, format }),
+      }, {
+        phase_start: (event) => update({ status: event.phaseId === 'processing' ? 'processing' : 'started' }),
+        phase_update: (event) => update({
+          status: event.progress ? 'progress' : 'started',
+          downloadId: event.data?.downloadId,
+          percentage: event.progress || 0,
+          speed: event.data?.speed || '',
+          eta: event.data?.eta || '',
+          size: event.data?.size || ''
+        }),
+        artifact: ({ artifact }) => update({
+          filename: artifact.title,
+          downloadUrl: artifact.url,
+          size: `${((artifact.size || 0) / (1024 * 1024)).toFixed(2)} MB`
+        }),
+        complete: () => update({ status: 'complete' })
       });
-
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.error || 'Download failed');
-      }
-
-      // Set up Server-Sent Events
-      const eventSource = new EventSource(`/api/download-youtube`);
-      eventSourceRef.current = eventSource;
-
-      eventSource.onmessage = (event) => {
-        const data = JSON.parse(event.data);
-        setProgress(data);
-
-        if (data.type === 'complete') {
-          setIsDownloading(false);
-          eventSource.close();
-        } else if (data.type === 'error') {
-          setIsDownloading(false);
-          eventSource.close();
-        }
-      };
-
-      eventSource.onerror = () => {
-        setIsDownloading(false);
-        setProgress({
-          downloadId: '',
-          percentage: 0,
-          speed: '',
-          eta: '',
-          size: '',
-          status: 'error',
-          error: 'Connection lost'
-        });
-        eventSource.close();
-      };
-
     } catch (error) {
+      update({ status: 'error', error: error instanceof Error ? error.message : 'Download failed' });
+    } finally {
       setIsDownloading(false);
-      setProgress({
-        downloadId: '',
-        percentage: 0,
-        speed: '',
-        eta: '',
-        size: '',
-        status: 'error',
-        error: error instanceof Error ? error.message : 'Download failed'
-      });
     }
   };
 
   const cancelDownload = async () => {
-    if (progress?.downloadId && eventSourceRef.current) {
+    if (progress?.downloadId && events.active) {
       try {
         await fetch(`/api/download-youtube?downloadId=${progress.downloadId}`, {
           method: 'DELETE',
@@ -111,7 +87,7 @@ export default function YouTubeDownloader({ isOpen, onClose, onDownloadStart }:
         console.error('Failed to cancel download:', error);
       }
       
-      eventSourceRef.current.close();
+      events.cancel();
       setIsDownloading(false);
       setProgress(null);
     }
@@ -135,14 +111,6 @@ export default function YouTubeDownloader({ isOpen, onClose, onDownloadStart }:
     onClose();
   };
 
-  useEffect(() => {
-    return () => {
-      if (eventSourceRef.current) {
-        eventSourceRef.current.close();
-      }
-    };
-  }, []);
-
   return (
     <AnimatePresence>
       {isOpen && (
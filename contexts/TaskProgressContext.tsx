@@ -1,38 +1,57 @@
 
 'use client';
-import React, { createContext, useContext, useState, useCallback, useEffect, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useCallback, useEffect, useRef, ReactNode } from 'react';
+import type { Msg } from '@/components/MessageList';
+import { StreamHandlers, StreamRequest, cancelStreamRequest, createStreamRequest, followEventStream } from '@/lib/sse/client';
+import { ReplyKind, TaskReply, answerReply, taskReply } from '@/lib/taskReplies';
 
 export interface TaskPhase {
   id: string;
   name: string;
   description: string;
   estimatedDuration: number; // in seconds
-  status: 'pending' | 'active' | 'completed' | 'error';
+  status: 'pending' | 'active' | 'completed' | 'skipped' | 'error';
   startTime?: Date;
   endTime?: Date;
-  qualityScore?: number; // 0-100
+  progress?: number; // 0-100, as reported by the server
 }
 
 export interface TaskProgress {
   taskId: string;
+  chatId: string;
+  title: string;
+  runId?: string; // set once the server runs the task as a resumable run
+  reply?: ReplyKind; // how to rebuild its chat message after a reload
   overallProgress: number; // 0-100
   currentPhase: string;
   phases: TaskPhase[];
+  startTime: Date;
   totalEstimatedTime: number;
   elapsedTime: number;
   estimatedTimeRemaining: number;
   isActive: boolean;
   error?: string;
+  unread?: boolean; // finished while its chat was not on screen
 }
 
+export interface TaskInfo {
+  chatId: string;
+  title: string;
+}
+
+// Receives a task's reply while its chat is on screen; returns false when
+// the chat cannot take it yet
+type ChatListener = (message: Msg) => boolean;
+
 interface TaskProgressContextType {
-  currentTask: TaskProgress | null;
-  startTask: (taskId: string, phases: Omit<TaskPhase, 'status'>[]) => void;
-  updatePhase: (phaseId: string, updates: Partial<TaskPhase>) => void;
-  completePhase: (phaseId: string, qualityScore?: number) => void;
-  completeTask: () => void;
-  errorTask: (error: string) => void;
-  clearTask: () => void;
+  tasks: TaskProgress[];
+  chatTask: (chatId: string) => TaskProgress | null;
+  runTask: (info: TaskInfo, input: string, init: RequestInit, reply?: TaskReply) => Promise<Msg>;
+  cancelTask: (taskId: string) => void;
+  dismissTask: (taskId: string) => void;
+  markAllRead: () => void;
+  postToChat: (chatId: string, message: Msg) => void;
+  watchChat: (chatId: string, listener: ChatListener) => () => void;
 }
 
 const TaskProgressContext = createContext<TaskProgressContextType | undefined>(undefined);
@@ -45,176 +64,299 @@ export const useTaskProgress = () => {
   return context;
 };
 
+const STORAGE_KEY = 'background_tasks';
+const MAX_STORED_TASKS = 20;
+// Finished tasks whose chat is on screen leave the list after this long
+const VIEWED_TASK_TTL_MS = 3000;
+// Finished tasks are forgotten after a day
+const FINISHED_TASK_TTL_MS = 24 * 60 * 60 * 1000;
+
+// An active phase never counts as more than this share done until the
+// server completes it, however long it overruns its estimate
+const MAX_ACTIVE_SHARE = 0.95;
+
+// Recomputes progress and ETA from the phase estimates. Skipped phases drop
+// out; the active phase counts by its reported progress, or by the time it
+// has run against its estimate when it reports none.
+function withEstimates(task: TaskProgress, now: number = Date.now()): TaskProgress {
+  let total = 0;
+  let done = 0;
+  let remaining = 0;
+
+  for (const phase of task.phases) {
+    if (phase.status === 'skipped') continue;
+    const estimate = phase.estimatedDuration;
+    total += estimate;
+
+    if (phase.status === 'completed') {
+      done += estimate;
+    } else if (phase.status === 'active') {
+      const spent = phase.startTime ? (now - phase.startTime.getTime()) / 1000 : 0;
+      const left = phase.progress
+        ? estimate * (1 - phase.progress / 100)
+        : Math.max(estimate - spent, 0);
+      done += Math.min(estimate - left, estimate * MAX_ACTIVE_SHARE);
+      remaining += left;
+    } else if (phase.status === 'pending') {
+      remaining += estimate;
+    }
+  }
+
+  return {
+    ...task,
+    overallProgress: total ? Math.min(100, (done / total) * 100) : 0,
+    totalEstimatedTime: total,
+    elapsedTime: Math.floor((now - task.startTime.getTime()) / 1000),
+    estimatedTimeRemaining: Math.ceil(remaining),
+  };
+}
+
+// Planned phases the server went past are skipped. A phase missing from the
+// plan is shown after the last one that started.
+function startPhase(task: TaskProgress, phaseId: string, description?: string): TaskProgress {
+  const phases = [...task.phases];
+  let index = phases.findIndex(p => p.id === phaseId);
+  if (index === -1) {
+    index = phases.reduce((after, phase, i) => phase.status === 'pending' ? after : i + 1, 0);
+    phases.splice(index, 0, { id: phaseId, name: phaseId, description: description || '', estimatedDuration: 0, status: 'pending' });
+  }
+
+  for (let i = 0; i < index; i++) {
+    if (phases[i].status === 'pending') phases[i] = { ...phases[i], status: 'skipped' };
+  }
+  phases[index] = {
+    ...phases[index],
+    status: 'active',
+    startTime: new Date(),
+    description: description || phases[index].description,
+  };
+  return { ...task, phases, currentPhase: phaseId };
+}
+
+function updatePhase(task: TaskProgress, phaseId: string, updates: Partial<TaskPhase>): TaskProgress {
+  return { ...task, phases: task.phases.map(phase => phase.id === phaseId ? { ...phase, ...updates } : phase) };
+}
+
+// Planned phases the run never reached (e.g. research rounds it did not
+// need) are skipped
+function finishTask(task: TaskProgress, error?: string): TaskProgress {
+  const phases = task.phases.map(phase =>
+    phase.status === 'pending' ? { ...phase, status: 'skipped' as const }
+      : phase.status === 'active' && error ? { ...phase, status: 'error' as const, endTime: new Date() }
+      : phase
+  );
+  return {
+    ...withEstimates({ ...task, phases }),
+    overallProgress: error ? task.overallProgress : 100,
+    estimatedTimeRemaining: 0,
+    isActive: false,
+    error,
+  };
+}
+
+// Dates come back from storage as strings
+function loadTasks(): TaskProgress[] {
+  try {
+    const stored: any[] = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    const date = (value?: string) => value ? new Date(value) : undefined;
+    return stored.map(task => ({
+      ...task,
+      startTime: new Date(task.startTime),
+      phases: task.phases.map((phase: any) => ({ ...phase, startTime: date(phase.startTime), endTime: date(phase.endTime) })),
+    })).filter(task => task.isActive || Date.now() - task.startTime.getTime() < FINISHED_TASK_TTL_MS);
+  } catch {
+    return [];
+  }
+}
+
+function notify(task: TaskProgress) {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+  new Notification(task.error ? `Failed: ${task.title}` : `Done: ${task.title}`, {
+    body: task.error || 'Open the chat to see the result',
+    icon: '/ai-logo.ico',
+    tag: task.taskId,
+  });
+}
+
 interface TaskProgressProviderProps {
   children: ReactNode;
 }
 
+// Tracks every background task of the session by task and chat. Tasks keep
+// streaming while the user moves between chats; their replies go to the
+// chat if it is open and to the server otherwise.
 export const TaskProgressProvider: React.FC<TaskProgressProviderProps> = ({ children }) => {
-  const [currentTask, setCurrentTask] = useState<TaskProgress | null>(null);
+  const [tasks, setTasks] = useState<TaskProgress[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const restored = useRef(false);
+  const requests = useRef(new Map<string, StreamRequest>());
+  const chatListeners = useRef(new Map<string, ChatListener>());
+
+  const setTask = useCallback((taskId: string, update: (task: TaskProgress) => TaskProgress) => {
+    setTasks(prev => prev.map(task => task.taskId === taskId ? update(task) : task));
+  }, []);
 
-  // Real-time timer for estimated time remaining
-  useEffect(() => {
-    if (!currentTask?.isActive) return;
+  const dismissTask = useCallback((taskId: string) => {
+    setTasks(prev => prev.filter(task => task.taskId !== taskId));
+  }, []);
 
-    const interval = setInterval(() => {
-      setCurrentTask(prev => {
-        if (!prev?.isActive) return prev;
-
-        const now = new Date();
-        const elapsedTime = prev.phases[0]?.startTime 
-          ? Math.floor((now.getTime() - prev.phases[0].startTime.getTime()) / 1000)
-          : 0;
-
-        const completedPhases = prev.phases.filter(p => p.status === 'completed');
-        const completedTime = completedPhases.reduce((sum, phase) => 
-          sum + (phase.estimatedDuration || 0), 0
-        );
-        const estimatedTimeRemaining = Math.max(0, prev.totalEstimatedTime - completedTime);
-
-        return {
-          ...prev,
-          elapsedTime,
-          estimatedTimeRemaining,
-        };
-      });
-    }, 1000);
+  const postToChat = useCallback((chatId: string, message: Msg) => {
+    if (chatListeners.current.get(chatId)?.(message)) return;
+    fetch(`/api/chats/${chatId}/messages`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ messages: [message] })
+    }).catch(error => console.error('Failed to save task reply:', error));
+  }, []);
 
-    return () => clearInterval(interval);
-  }, [currentTask?.isActive]);
+  const watchChat = useCallback((chatId: string, listener: ChatListener) => {
+    chatListeners.current.set(chatId, listener);
+    return () => {
+      if (chatListeners.current.get(chatId) === listener) chatListeners.current.delete(chatId);
+    };
+  }, []);
 
-  const startTask = useCallback((taskId: string, phases: Omit<TaskPhase, 'status'>[]) => {
-    const taskPhases: TaskPhase[] = phases.map((phase, index) => ({
-      ...phase,
-      status: index === 0 ? 'active' : 'pending',
-      startTime: index === 0 ? new Date() : undefined,
+  // A task the user is looking at clears itself; one that finished
+  // elsewhere stays in the tray as unread
+  const settle = useCallback((taskId: string, chatId: string, error?: string) => {
+    const viewed = chatListeners.current.has(chatId) && !document.hidden;
+    setTasks(prev => prev.map(task => {
+      if (task.taskId !== taskId) return task;
+      const finished = { ...finishTask(task, error), unread: !viewed };
+      if (!viewed) notify(finished);
+      return finished;
     }));
-
-    const totalEstimatedTime = phases.reduce((sum, phase) => sum + phase.estimatedDuration, 0);
-
-    setCurrentTask({
+    if (viewed) setTimeout(() => dismissTask(taskId), VIEWED_TASK_TTL_MS);
+  }, [dismissTask]);
+
+  // Streams a task, mirroring the phase plan and progress the server
+  // announces into the task. The caller's handlers see every event too.
+  const follow = useCallback(async (taskId: string, request: StreamRequest, input: string, init: RequestInit, handlers: StreamHandlers = {}) => {
+    requests.current.set(taskId, request);
+    const progress: StreamHandlers = {
+      ...handlers,
+      plan: (event) => {
+        setTask(taskId, task => withEstimates({
+          ...task,
+          runId: request.runId || undefined,
+          phases: event.phases.map(phase => ({ ...phase, status: 'pending' })),
+        }));
+        handlers.plan?.(event);
+      },
+      phase_start: (event) => {
+        setTask(taskId, task => withEstimates(startPhase(task, event.phaseId, event.description)));
+        handlers.phase_start?.(event);
+      },
+      phase_update: (event) => {
+        if (event.progress !== undefined) {
+          setTask(taskId, task => withEstimates(updatePhase(task, event.phaseId, { progress: event.progress })));
+        }
+        handlers.phase_update?.(event);
+      },
+      phase_complete: (event) => {
+        setTask(taskId, task => withEstimates(updatePhase(task, event.phaseId, { status: 'completed', endTime: new Date(), progress: 100 })));
+        handlers.phase_complete?.(event);
+      },
+    };
+
+    try {
+      return await followEventStream(request, input, init, progress);
+    } finally {
+      requests.current.delete(taskId);
+    }
+  }, [setTask]);
+
+  // Runs a task and returns its chat message, built by `reply` from the
+  // task's events
+  const runTask = useCallback(async (info: TaskInfo, input: string, init: RequestInit, reply: TaskReply = answerReply()) => {
+    const taskId = crypto.randomUUID();
+    setTasks(prev => [...prev, withEstimates({
       taskId,
+      ...info,
+      reply: reply.kind,
       overallProgress: 0,
-      currentPhase: taskPhases[0]?.id || '',
-      phases: taskPhases,
-      totalEstimatedTime,
+      currentPhase: '',
+      phases: [],
+      startTime: new Date(),
+      totalEstimatedTime: 0,
       elapsedTime: 0,
-      estimatedTimeRemaining: totalEstimatedTime,
+      estimatedTimeRemaining: 0,
       isActive: true,
-    });
+    })]);
+    if (typeof Notification !== 'undefined' && Notification.permission === 'default') {
+      Notification.requestPermission().catch(() => {});
+    }
+
+    try {
+      const complete = await follow(taskId, createStreamRequest(), input, init, reply.handlers);
+      settle(taskId, info.chatId);
+      return reply.message(complete);
+    } catch (error) {
+      settle(taskId, info.chatId, error instanceof Error ? error.message : 'Unknown error');
+      throw error;
+    }
+  }, [follow, settle]);
+
+  const cancelTask = useCallback((taskId: string) => {
+    const request = requests.current.get(taskId);
+    if (request) cancelStreamRequest(request);
   }, []);
 
-  const updatePhase = useCallback((phaseId: string, updates: Partial<TaskPhase>) => {
-    setCurrentTask(prev => {
-      if (!prev) return null;
-
-      const updatedPhases = prev.phases.map(phase =>
-        phase.id === phaseId ? { ...phase, ...updates } : phase
-      );
-
-      const completedPhases = updatedPhases.filter(p => p.status === 'completed');
-      const activePhase = updatedPhases.find(p => p.status === 'active');
-      
-      let overallProgress = (completedPhases.length / updatedPhases.length) * 100;
-      
-      // Add partial progress for active phase if available
-      if (activePhase && updates.qualityScore !== undefined) {
-        const phaseIndex = updatedPhases.findIndex(p => p.id === activePhase.id);
-        const phaseProgress = (updates.qualityScore / 100) * (1 / updatedPhases.length) * 100;
-        overallProgress = (phaseIndex / updatedPhases.length) * 100 + phaseProgress;
-      }
-
-      const now = new Date();
-      const elapsedTime = prev.phases[0]?.startTime 
-        ? Math.floor((now.getTime() - prev.phases[0].startTime.getTime()) / 1000)
-        : 0;
-
-      const completedTime = completedPhases.reduce((sum, phase) => 
-        sum + (phase.estimatedDuration || 0), 0
-      );
-      const estimatedTimeRemaining = Math.max(0, prev.totalEstimatedTime - completedTime);
-
-      return {
-        ...prev,
-        phases: updatedPhases,
-        overallProgress: Math.min(100, overallProgress),
-        currentPhase: activePhase?.id || prev.currentPhase,
-        elapsedTime,
-        estimatedTimeRemaining,
-      };
-    });
+  const markAllRead = useCallback(() => {
+    setTasks(prev => prev.some(task => task.unread) ? prev.map(task => ({ ...task, unread: false })) : prev);
   }, []);
 
-  const completePhase = useCallback((phaseId: string, qualityScore?: number) => {
-    setCurrentTask(prev => {
-      if (!prev) return null;
-
-      const phaseIndex = prev.phases.findIndex(p => p.id === phaseId);
-      if (phaseIndex === -1) return prev;
-
-      const updatedPhases = [...prev.phases];
-      updatedPhases[phaseIndex] = {
-        ...updatedPhases[phaseIndex],
-        status: 'completed',
-        endTime: new Date(),
-        qualityScore,
-      };
-
-      // Activate next phase if available
-      if (phaseIndex + 1 < updatedPhases.length) {
-        updatedPhases[phaseIndex + 1] = {
-          ...updatedPhases[phaseIndex + 1],
-          status: 'active',
-          startTime: new Date(),
-        };
-      }
-
-      const completedPhases = updatedPhases.filter(p => p.status === 'completed');
-      const overallProgress = (completedPhases.length / updatedPhases.length) * 100;
-
-      return {
-        ...prev,
-        phases: updatedPhases,
-        overallProgress,
-        currentPhase: updatedPhases[phaseIndex + 1]?.id || phaseId,
-      };
-    });
-  }, []);
+  const chatTask = useCallback((chatId: string) => {
+    return [...tasks].reverse().find(task => task.chatId === chatId) || null;
+  }, [tasks]);
 
-  const completeTask = useCallback(() => {
-    setCurrentTask(prev => {
-      if (!prev) return null;
-      return {
-        ...prev,
-        overallProgress: 100,
-        isActive: false,
-        estimatedTimeRemaining: 0,
-      };
+  // Restore tasks from before a reload. Runs still on the server are
+  // followed again from their first event, so a fresh builder of the same
+  // reply kind sees everything; anything else was lost with the page.
+  useEffect(() => {
+    if (restored.current) return;
+    restored.current = true;
+    const stored = loadTasks();
+    setTasks(stored.map(task => task.isActive && !task.runId ? finishTask(task, 'Interrupted by a page reload') : task));
+    setLoaded(true);
+
+    stored.filter(task => task.isActive && task.runId).forEach(task => {
+      const reply = taskReply(task.reply);
+      follow(task.taskId, createStreamRequest(task.runId), '', {}, reply.handlers)
+        .then(complete => {
+          postToChat(task.chatId, reply.message(complete));
+          settle(task.taskId, task.chatId);
+        })
+        .catch(error => settle(task.taskId, task.chatId, error instanceof Error ? error.message : 'Unknown error'));
     });
-  }, []);
+  }, [follow, postToChat, settle]);
 
-  const errorTask = useCallback((error: string) => {
-    setCurrentTask(prev => {
-      if (!prev) return null;
-      return {
-        ...prev,
-        isActive: false,
-        error,
-      };
-    });
-  }, []);
+  useEffect(() => {
+    if (!loaded) return;
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(tasks.slice(-MAX_STORED_TASKS)));
+  }, [tasks, loaded]);
 
-  const clearTask = useCallback(() => {
-    setCurrentTask(null);
-  }, []);
+  // Real-time timer for estimated time remaining
+  const anyActive = tasks.some(task => task.isActive);
+  useEffect(() => {
+    if (!anyActive) return;
+
+    const interval = setInterval(() => {
+      setTasks(prev => prev.map(task => task.isActive ? withEstimates(task) : task));
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [anyActive]);
 
   const value: TaskProgressContextType = {
-    currentTask,
-    startTask,
-    updatePhase,
-    completePhase,
-    completeTask,
-    errorTask,
-    clearTask,
+    tasks,
+    chatTask,
+    runTask,
+    cancelTask,
+    dismissTask,
+    markAllRead,
+    postToChat,
+    watchChat,
   };
 
   return (
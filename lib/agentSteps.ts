@@ -0,0 +1,93 @@
+// Turns the phase and tool events of agent runs into the steps shown under
+// an agent's answer
+import { StreamHandlers } from './sse/client';
+
+export interface AgentStep {
+  id: string;
+  title: string;
+  detail?: string;
+  items?: string[];
+}
+
+// Phase ids of later research rounds, and gap checks, end in _<round>
+function roundOf(phaseId: string) {
+  const round = phaseId.match(/_(\d+)$/);
+  return round ? ` (round ${round[1]})` : '';
+}
+
+// Research phases as steps; the synthesis phase is the answer itself
+function researchStep(phaseId: string, result: any): AgentStep | null {
+  const round = roundOf(phaseId);
+
+  if (phaseId === 'planning') {
+    return {
+      id: phaseId,
+      title: 'Research plan',
+      detail: [result?.expectedOutcome, result?.focusAreas?.length ? `Focus: ${result.focusAreas.join(', ')}` : '']
+        .filter(Boolean).join('\n'),
+      items: result?.searchQueries,
+    };
+  }
+  if (phaseId.startsWith('search')) {
+    const groups: { query: string; results: unknown[] }[] = result?.results || [];
+    const hits = new Map(groups.map(group => [group.query, group.results.length]));
+    const queries: string[] = result?.queries || [];
+    return {
+      id: phaseId,
+      title: `Searched ${queries.length} ${queries.length === 1 ? 'query' : 'queries'}${round}`,
+      items: queries.map(query => `${query} — ${hits.get(query) || 0} results`),
+    };
+  }
+  if (phaseId.startsWith('analysis') && typeof result === 'string') {
+    return { id: phaseId, title: `Findings${round}`, detail: result };
+  }
+  if (phaseId.startsWith('reflection')) {
+    return {
+      id: phaseId,
+      title: `Gap check${round}`,
+      detail: result?.complete ? 'Nothing important is missing' : (result?.gaps || []).join('\n'),
+      items: result?.followUpQueries?.length ? result.followUpQueries : undefined,
+    };
+  }
+  if (phaseId === 'execution' && result?.stopReason && result.stopReason !== 'answered') {
+    return {
+      id: phaseId,
+      title: 'Stopped early',
+      detail: result.stopReason === 'max_steps'
+        ? `Reached the limit of ${result.steps} steps`
+        : 'Ran out of time',
+    };
+  }
+  return null;
+}
+
+// Collects steps from a research (/api/agent-research) or tool
+// (/api/agent-task) run. Spread the handlers into the request's handlers.
+export function collectAgentSteps(): { steps: AgentStep[]; handlers: StreamHandlers } {
+  const steps: AgentStep[] = [];
+
+  const handlers: StreamHandlers = {
+    phase_update: (event) => {
+      const { toolCall, toolResult } = event.data || {};
+      if (toolCall) {
+        steps.push({
+          id: `tool-${toolCall.id}`,
+          title: `Step ${toolCall.step}: ${toolCall.name}`,
+          detail: JSON.stringify(toolCall.arguments, null, 2),
+        });
+      }
+      if (toolResult) {
+        const step = steps.find(s => s.id === `tool-${toolResult.id}`);
+        if (!step) return;
+        const outcome = toolResult.success ? '✓' : `✗ ${toolResult.error || 'failed'}`;
+        step.title = `Step ${toolResult.step}: ${toolResult.name} ${outcome} (${(toolResult.durationMs / 1000).toFixed(1)}s)`;
+      }
+    },
+    phase_complete: (event) => {
+      const step = researchStep(event.phaseId, event.result);
+      if (step) steps.push(step);
+    },
+  };
+
+  return { steps, handlers };
+}
@@ -1,11 +1,47 @@
 
+import { CitationSource, formatSourceList, numberSources } from './citations';
+import { z } from 'zod';
+import { GenerateOptions, LLMInput, LLMProvider, generateStructured } from './llm';
+import { ResearchResult, toResearchResult } from './reports';
+import { SearchProvider, SearchResult } from './search';
+import { PlannedPhase } from './sse/types';
+
 interface ResearchTask {
   query: string;
   steps: string[];
   results: any[];
 }
 
-interface AgentCallbacks {
+export interface ResearchOptions {
+  maxDepth?: number; // search/analysis rounds; 1 is a single pass
+  maxSearches?: number; // total queries across all rounds
+}
+
+const ResearchPlanSchema = z.object({
+  searchQueries: z.array(z.string().trim().min(1)).min(1),
+  focusAreas: z.array(z.string()).default([]),
+  expectedOutcome: z.string().default('')
+});
+
+export type ResearchPlan = z.infer<typeof ResearchPlanSchema>;
+
+const GapAssessmentSchema = z.object({
+  complete: z.boolean(),
+  gaps: z.array(z.string()).default([]),
+  followUpQueries: z.array(z.string().trim().min(1)).default([])
+});
+
+type GapAssessment = z.infer<typeof GapAssessmentSchema>;
+
+const MAX_RESEARCH_DEPTH = 5;
+const DEFAULT_MAX_SEARCHES = 12;
+const FOLLOW_UPS_PER_ROUND = 3;
+
+function researchDepth(options: ResearchOptions): number {
+  return Math.min(Math.max(Math.floor(options.maxDepth || 1), 1), MAX_RESEARCH_DEPTH);
+}
+
+export interface AgentCallbacks {
   onPhaseStart: (phaseId: string, description: string) => void;
   onPhaseUpdate: (phaseId: string, progress: number, data?: any) => void;
   onPhaseComplete: (phaseId: string, result: any) => void;
@@ -13,37 +49,106 @@ interface AgentCallbacks {
 }
 
 export class AIAgent {
-  private geminiKey: string;
-  private searchKey: string;
-  private callbacks: AgentCallbacks;
+  protected llm: LLMProvider;
+  protected search: SearchProvider | null;
+  protected callbacks: AgentCallbacks;
+  protected signal?: AbortSignal; // cancels the run's model, search and fetch calls
 
-  constructor(geminiKey: string, searchKey: string, callbacks: AgentCallbacks) {
-    this.geminiKey = geminiKey;
-    this.searchKey = searchKey;
+  constructor(llm: LLMProvider, search: SearchProvider | null, callbacks: AgentCallbacks, signal?: AbortSignal) {
+    this.llm = llm;
+    this.search = search;
     this.callbacks = callbacks;
+    this.signal = signal;
+  }
+
+  // Every phase performResearch may run, with default estimates in seconds.
+  // Rounds that end early leave their later phases unstarted.
+  static researchPlan(options: ResearchOptions = {}): PlannedPhase[] {
+    const maxDepth = researchDepth(options);
+    const phases: PlannedPhase[] = [
+      { id: 'planning', name: 'Planning', description: 'Analyzing query and creating research plan', estimatedDuration: 3 }
+    ];
+    for (let iteration = 1; iteration <= maxDepth; iteration++) {
+      const round = iteration > 1 ? `_${iteration}` : '';
+      const label = maxDepth > 1 ? ` (round ${iteration})` : '';
+      phases.push(
+        { id: `search${round}`, name: `Web Search${label}`, description: 'Searching the web for relevant information', estimatedDuration: 8 },
+        { id: `analysis${round}`, name: `Analysis${label}`, description: 'Analyzing and synthesizing information', estimatedDuration: 6 }
+      );
+      if (iteration < maxDepth) {
+        phases.push({ id: `reflection_${iteration}`, name: `Gap Check${label}`, description: 'Checking the findings for gaps', estimatedDuration: 3 });
+      }
+    }
+    phases.push({ id: 'synthesis', name: 'Synthesis', description: 'Creating final comprehensive response', estimatedDuration: 5 });
+    return phases;
   }
 
-  async performResearch(query: string): Promise<any> {
+  // Plans, then alternates search and analysis rounds. After each round but
+  // the last the agent looks for gaps and searches follow-up queries, until
+  // nothing is missing or the depth/search budget runs out.
+  async performResearch(query: string, options: ResearchOptions = {}): Promise<ResearchResult> {
+    const maxDepth = researchDepth(options);
+    let searchBudget = options.maxSearches || DEFAULT_MAX_SEARCHES;
+
     try {
       // Phase 1: Planning
       this.callbacks.onPhaseStart('planning', 'Analyzing query and creating research plan');
       const plan = await this.createResearchPlan(query);
       this.callbacks.onPhaseComplete('planning', plan);
 
-      // Phase 2: Web Search
-      this.callbacks.onPhaseStart('search', 'Searching the web for relevant information');
-      const searchResults = await this.performWebSearch(plan.searchQueries);
-      this.callbacks.onPhaseComplete('search', searchResults);
+      const searched = new Set<string>();
+      const searchedQueries: string[] = [];
+      const allResults: SearchResult[] = [];
+      let sources: CitationSource[] = [];
+      let analysis = '';
+      let queries: string[] = plan.searchQueries;
+
+      for (let iteration = 1; iteration <= maxDepth; iteration++) {
+        this.throwIfAborted();
+        const round = iteration > 1 ? `_${iteration}` : '';
+        const label = maxDepth > 1 ? ` (round ${iteration} of ${maxDepth})` : '';
+
+        queries = queries.filter(q => q && !searched.has(q.toLowerCase())).slice(0, searchBudget);
+        if (!queries.length) break;
+        queries.forEach(q => searched.add(q.toLowerCase()));
+        searchedQueries.push(...queries);
+        searchBudget -= queries.length;
 
-      // Phase 3: Analysis
-      this.callbacks.onPhaseStart('analysis', 'Analyzing and synthesizing information');
-      const analysis = await this.analyzeResults(query, searchResults);
-      this.callbacks.onPhaseComplete('analysis', analysis);
+        // Phase 2: Web Search
+        this.callbacks.onPhaseStart(`search${round}`, `Searching the web for relevant information${label}`);
+        const searchResults = await this.performWebSearch(queries, `search${round}`);
+        allResults.push(...searchResults.flatMap(group => group.results));
+        // Numbering is by first appearance, so earlier rounds keep their numbers
+        sources = numberSources(allResults);
+        this.callbacks.onPhaseComplete(`search${round}`, { iteration, queries, results: searchResults });
+
+        // Phase 3: Analysis
+        this.callbacks.onPhaseStart(`analysis${round}`, `Analyzing and synthesizing information${label}`);
+        analysis = await this.analyzeResults(query, sources, `analysis${round}`, analysis);
+        this.callbacks.onPhaseComplete(`analysis${round}`, analysis);
+
+        if (iteration === maxDepth || searchBudget <= 0) break;
+
+        // Reflection: decide whether another round is worth it
+        this.callbacks.onPhaseStart(`reflection_${iteration}`, 'Checking the findings for gaps');
+        const assessment = await this.assessGaps(query, analysis, searchedQueries);
+        this.callbacks.onPhaseComplete(`reflection_${iteration}`, { iteration, ...assessment });
+
+        if (assessment.complete || !assessment.followUpQueries.length) break;
+        queries = assessment.followUpQueries.slice(0, FOLLOW_UPS_PER_ROUND);
+      }
 
       // Phase 4: Synthesis
       this.callbacks.onPhaseStart('synthesis', 'Creating final comprehensive response');
-      const finalResponse = await this.synthesizeResponse(query, analysis);
-      this.callbacks.onPhaseComplete('synthesis', finalResponse);
+      const finalResponse = toResearchResult({
+        query,
+        mode: 'research',
+        queries: searchedQueries,
+        findings: analysis,
+        answer: await this.synthesizeResponse(query, analysis),
+        sources
+      });
+      this.callbacks.onPhaseComplete('synthesis', { text: finalResponse.text, sources: finalResponse.sources });
 
       return finalResponse;
     } catch (error) {
@@ -52,7 +157,7 @@ export class AIAgent {
     }
   }
 
-  private async createResearchPlan(query: string): Promise<any> {
+  private async createResearchPlan(query: string): Promise<ResearchPlan> {
     this.callbacks.onPhaseUpdate('planning', 30);
     
     const planPrompt = `Create a research plan for: "${query}"
@@ -69,46 +174,37 @@ export class AIAgent {
       "expectedOutcome": "Comprehensive list of popular AI tools with descriptions"
     }`;
 
-    const response = await this.callGemini(planPrompt);
-    this.callbacks.onPhaseUpdate('planning', 80);
-    
-    try {
-      const plan = JSON.parse(response);
-      this.callbacks.onPhaseUpdate('planning', 100);
-      return plan;
-    } catch {
-      // Fallback plan if JSON parsing fails
-      return {
+    const { value: plan, fellBack, error } = await generateStructured(this.llm, planPrompt, {
+      schema: ResearchPlanSchema,
+      name: 'ResearchPlan',
+      signal: this.signal,
+      fallback: () => ({
         searchQueries: [query, `${query} 2024`, `best ${query}`, `popular ${query}`],
         focusAreas: [query],
         expectedOutcome: `Information about ${query}`
-      };
-    }
+      })
+    });
+    this.callbacks.onPhaseUpdate('planning', 100, fellBack ? { fallback: true, reason: error } : undefined);
+    return plan;
   }
 
-  private async performWebSearch(queries: string[]): Promise<any[]> {
+  protected async performWebSearch(queries: string[], phaseId: string = 'search'): Promise<{ query: string; results: SearchResult[] }[]> {
+    if (!this.search) {
+      throw new Error('Web search is not configured');
+    }
+
     const results = [];
     
     for (let i = 0; i < queries.length; i++) {
-      this.callbacks.onPhaseUpdate('search', (i / queries.length) * 100);
+      this.callbacks.onPhaseUpdate(phaseId, (i / queries.length) * 100);
       
       try {
-        const searchUrl = `https://www.googleapis.com/customsearch/v1?key=${this.searchKey}&cx=${process.env.GOOGLE_SEARCH_CX || '017576662512468239146:omuauf_lfve'}&q=${encodeURIComponent(queries[i])}&num=5`;
-        
-        const response = await fetch(searchUrl);
-        const data = await response.json();
-        
-        if (data.items) {
-          results.push({
-            query: queries[i],
-            results: data.items.map((item: any) => ({
-              title: item.title,
-              snippet: item.snippet,
-              link: item.link
-            }))
-          });
+        const items = await this.search.search(queries[i], { limit: 5, signal: this.signal });
+        if (items.length) {
+          results.push({ query: queries[i], results: items });
         }
       } catch (error) {
+        this.throwIfAborted();
         console.error(`Search failed for query: ${queries[i]}`, error);
       }
     }
@@ -116,16 +212,20 @@ export class AIAgent {
     return results;
   }
 
-  private async analyzeResults(originalQuery: string, searchResults: any[]): Promise<any> {
-    this.callbacks.onPhaseUpdate('analysis', 25);
+  private async analyzeResults(originalQuery: string, sources: CitationSource[], phaseId: string = 'analysis', previousAnalysis: string = ''): Promise<string> {
+    this.callbacks.onPhaseUpdate(phaseId, 25);
+
+    const previous = previousAnalysis
+      ? `\n\nAnalysis from the previous research round (extend and correct it; keep its source numbers):\n${previousAnalysis}`
+      : '';
 
     const analysisPrompt = `Analyze these search results for the query: "${originalQuery}"
 
-Search Results:
-${JSON.stringify(searchResults, null, 2)}
+Numbered Sources:
+${formatSourceList(sources)}${previous}
 
 Extract and organize the most relevant information in a way that can be used to create a natural, conversational response. Focus on:
-- Key findings and important details
+- Key findings and important details, each followed by the [n] number of the source it came from
 - Specific examples, tools, platforms, or entities mentioned
 - Current trends and patterns
 - Most credible and useful sources
@@ -133,13 +233,39 @@ Extract and organize the most relevant information in a way that can be used to
 
 Organize this information in a clear, structured way that will help create an engaging, flowing response rather than a rigid list format.`;
 
-    this.callbacks.onPhaseUpdate('analysis', 70);
-    const analysis = await this.callGemini(analysisPrompt);
-    this.callbacks.onPhaseUpdate('analysis', 100);
-    
+    this.callbacks.onPhaseUpdate(phaseId, 70);
+    const analysis = await this.callLLM(analysisPrompt);
+    this.callbacks.onPhaseUpdate(phaseId, 100);
+
     return analysis;
   }
 
+  private async assessGaps(query: string, analysis: string, searchedQueries: string[]): Promise<GapAssessment & { fallback?: boolean; reason?: string }> {
+    const assessmentPrompt = `You are reviewing research on: "${query}"
+
+Current findings:
+${analysis}
+
+Queries already searched:
+${searchedQueries.map(q => `- ${q}`).join('\n')}
+
+Decide whether the findings fully answer the question. For comparisons, check that every compared item is covered on the same criteria.
+
+Return a JSON object with:
+- complete: true if nothing important is missing
+- gaps: short descriptions of what is still missing or unverified
+- followUpQueries: up to ${FOLLOW_UPS_PER_ROUND} new, specific search queries that would fill the gaps (not repeating the searched ones)`;
+
+    const { value, fellBack, error } = await generateStructured(this.llm, assessmentPrompt, {
+      schema: GapAssessmentSchema,
+      name: 'GapAssessment',
+      signal: this.signal,
+      // An unusable assessment ends the loop rather than guessing at queries
+      fallback: () => ({ complete: true, gaps: [], followUpQueries: [] })
+    });
+    return fellBack ? { ...value, fallback: true, reason: error } : value;
+  }
+
   private async synthesizeResponse(query: string, analysis: string): Promise<string> {
     this.callbacks.onPhaseUpdate('synthesis', 30);
 
@@ -156,26 +282,24 @@ STRICT FORMATTING RULES:
 - Just give the answer, don't restate what was asked
 - Use simple paragraph breaks for structure
 - Be concise but informative
+- Keep the [n] source numbers from the analysis right after the facts they support, e.g. "... in 2023 [2]."
+- Only cite numbers that appear in the analysis; never invent sources or add a reference list
 
 Provide the answer directly without any preamble or question repetition.`;
 
     this.callbacks.onPhaseUpdate('synthesis', 80);
-    const response = await this.callGemini(synthesisPrompt);
+    const response = await this.callLLM(synthesisPrompt);
     this.callbacks.onPhaseUpdate('synthesis', 100);
     
     return response;
   }
 
-  private async callGemini(prompt: string): Promise<string> {
-    const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash-lite:generateContent?key=${this.geminiKey}`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        contents: [{ parts: [{ text: prompt }] }]
-      })
-    });
+  protected async callLLM(input: LLMInput, options?: GenerateOptions): Promise<string> {
+    const { text } = await this.llm.generate(input, { signal: this.signal, ...options });
+    return text || 'No response generated';
+  }
 
-    const data = await response.json();
-    return data?.candidates?.[0]?.content?.parts?.[0]?.text || 'No response generated';
+  protected throwIfAborted() {
+    if (this.signal?.aborted) throw new Error('Run cancelled');
   }
 }
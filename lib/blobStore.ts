@@ -0,0 +1,103 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { randomUUID } from 'crypto';
+
+export interface BlobRecord {
+  id: string;
+  name: string;
+  type: string;
+  size: number;
+  created_at: string;
+}
+
+export interface SaveBlobInput {
+  name: string;
+  type?: string;
+  data: Buffer;
+}
+
+const BLOB_ID_PATTERN = /^[a-f0-9-]{36}$/;
+
+export const MAX_BLOB_BYTES = Number(process.env.MAX_UPLOAD_BYTES) || 25 * 1024 * 1024;
+
+export function isValidBlobId(id: string): boolean {
+  return BLOB_ID_PATTERN.test(id);
+}
+
+// Each upload gets a random UUID: `<id>` holds the bytes, `<id>.json` the metadata
+export class BlobStore {
+  private dir: string;
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  async save({ name, type, data }: SaveBlobInput): Promise<BlobRecord> {
+    if (data.length > MAX_BLOB_BYTES) {
+      throw new Error(`File ${name} exceeds the ${Math.round(MAX_BLOB_BYTES / (1024 * 1024))} MB limit`);
+    }
+
+    await fs.mkdir(this.dir, { recursive: true });
+    const record: BlobRecord = {
+      id: randomUUID(),
+      name: sanitizeName(name),
+      type: type || 'application/octet-stream',
+      size: data.length,
+      created_at: new Date().toISOString()
+    };
+
+    await fs.writeFile(this.dataPath(record.id), data);
+    await fs.writeFile(this.metaPath(record.id), JSON.stringify(record, null, 2));
+    return record;
+  }
+
+  async getMeta(id: string): Promise<BlobRecord | null> {
+    if (!isValidBlobId(id)) return null;
+    try {
+      return JSON.parse(await fs.readFile(this.metaPath(id), 'utf8'));
+    } catch {
+      return null;
+    }
+  }
+
+  async get(id: string): Promise<{ record: BlobRecord; data: Buffer } | null> {
+    const record = await this.getMeta(id);
+    if (!record) return null;
+    try {
+      return { record, data: await fs.readFile(this.dataPath(id)) };
+    } catch {
+      return null;
+    }
+  }
+
+  async remove(id: string): Promise<void> {
+    if (!isValidBlobId(id)) return;
+    await fs.rm(this.dataPath(id), { force: true });
+    await fs.rm(this.metaPath(id), { force: true });
+  }
+
+  dataPath(id: string) {
+    return join(this.dir, id);
+  }
+
+  private metaPath(id: string) {
+    return join(this.dir, `${id}.json`);
+  }
+}
+
+function sanitizeName(name: string): string {
+  return (name || 'file').replace(/[\/\\\0]/g, '_').substring(0, 200);
+}
+
+export function blobUrl(record: Pick<BlobRecord, 'id'>): string {
+  return `/api/files/${record.id}`;
+}
+
+let store: BlobStore | null = null;
+
+export function getBlobStore(): BlobStore {
+  if (!store) {
+    store = new BlobStore(process.env.BLOB_STORE_DIR || join(process.cwd(), '.data', 'blobs'));
+  }
+  return store;
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { renderChartSvg } from './charts';
+
+const data = [{ label: 'North', value: 12 }, { label: 'South', value: -4 }, { label: 'East & West', value: 30 }];
+
+describe('renderChartSvg', () => {
+  it('draws one bar per point and escapes labels', () => {
+    const svg = renderChartSvg({ type: 'bar', title: 'Sales <2024>', data });
+
+    expect(svg.match(/<rect x=/g)).toHaveLength(3);
+    expect(svg).toContain('Sales &lt;2024&gt;');
+    expect(svg).toContain('East &amp; West');
+  });
+
+  it('draws a line through every point', () => {
+    const svg = renderChartSvg({ type: 'line', data });
+
+    expect(svg.match(/<polyline points="([^"]+)"/)?.[1].split(' ')).toHaveLength(3);
+    expect(svg.match(/<circle /g)).toHaveLength(3);
+  });
+
+  it('draws pie slices with their shares', () => {
+    const svg = renderChartSvg({ type: 'pie', data: [{ label: 'A', value: 1 }, { label: 'B', value: 3 }] });
+
+    expect(svg.match(/<path /g)).toHaveLength(2);
+    expect(svg).toContain('B (75%)');
+  });
+
+  it('rejects data it cannot draw', () => {
+    expect(() => renderChartSvg({ type: 'bar', data: [] })).toThrow(/between 1 and/);
+    expect(() => renderChartSvg({ type: 'bar', data: [{ label: 'A', value: NaN }] })).toThrow(/numeric value/);
+    expect(() => renderChartSvg({ type: 'pie', data })).toThrow(/negative/);
+    expect(() => renderChartSvg({ type: 'radar' as any, data })).toThrow(/Unsupported chart type/);
+  });
+});
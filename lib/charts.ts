@@ -0,0 +1,153 @@
+// Renders the agent's data_visualization charts as standalone SVG files
+export type ChartType = 'bar' | 'line' | 'pie';
+
+export interface ChartPoint {
+  label: string;
+  value: number;
+}
+
+export interface ChartSpec {
+  type: ChartType;
+  title?: string;
+  data: ChartPoint[];
+}
+
+const WIDTH = 640;
+const HEIGHT = 400;
+const MARGIN = { top: 48, right: 24, bottom: 64, left: 64 };
+const MAX_POINTS = 50;
+const COLORS = ['#6B1B5C', '#D78AC5', '#3B82F6', '#F59E0B', '#10B981', '#EF4444', '#8B5CF6', '#14B8A6'];
+
+export function renderChartSvg({ type, title, data }: ChartSpec): string {
+  if (!Array.isArray(data) || data.length === 0 || data.length > MAX_POINTS) {
+    throw new Error(`A chart needs between 1 and ${MAX_POINTS} data points`);
+  }
+  for (const point of data) {
+    if (typeof point?.label !== 'string' || typeof point.value !== 'number' || !Number.isFinite(point.value)) {
+      throw new Error('Every data point needs a text label and a numeric value');
+    }
+  }
+
+  const body = type === 'pie' ? renderPie(data)
+    : type === 'line' ? renderLine(data)
+    : type === 'bar' ? renderBars(data)
+    : null;
+  if (body === null) {
+    throw new Error(`Unsupported chart type: ${type}`);
+  }
+
+  const heading = title
+    ? `<text x="${WIDTH / 2}" y="28" text-anchor="middle" font-size="18" font-weight="600">${escapeXml(title)}</text>`
+    : '';
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${WIDTH}" height="${HEIGHT}" viewBox="0 0 ${WIDTH} ${HEIGHT}" font-family="sans-serif" fill="#1f1f24">
+<rect width="100%" height="100%" fill="#ffffff"/>
+${heading}
+${body}
+</svg>
+`;
+}
+
+// Value axis from the lowest to the highest value, always including zero
+function valueScale(data: ChartPoint[]) {
+  const min = Math.min(0, ...data.map(point => point.value));
+  const max = Math.max(0, ...data.map(point => point.value));
+  const span = max - min || 1;
+  const plotHeight = HEIGHT - MARGIN.top - MARGIN.bottom;
+  const y = (value: number) => MARGIN.top + ((max - value) / span) * plotHeight;
+
+  const ticks = [0, 1, 2, 3, 4].map(i => min + (span * i) / 4);
+  const axis = ticks.map(tick =>
+    `<line x1="${MARGIN.left}" x2="${WIDTH - MARGIN.right}" y1="${round(y(tick))}" y2="${round(y(tick))}" stroke="#e3dde6"/>` +
+    `<text x="${MARGIN.left - 8}" y="${round(y(tick)) + 4}" text-anchor="end" font-size="11">${formatNumber(tick)}</text>`
+  ).join('\n');
+  return { y, axis };
+}
+
+// Label under each point, rotated when they are too many to sit side by side
+function categoryLabels(data: ChartPoint[], x: (index: number) => number): string {
+  const rotate = data.length > 8;
+  return data.map((point, i) => {
+    const top = HEIGHT - MARGIN.bottom + 16;
+    const transform = rotate ? ` transform="rotate(-40 ${round(x(i))} ${top})"` : '';
+    return `<text x="${round(x(i))}" y="${top}" text-anchor="${rotate ? 'end' : 'middle'}" font-size="11"${transform}>${escapeXml(truncate(point.label, 18))}</text>`;
+  }).join('\n');
+}
+
+function renderBars(data: ChartPoint[]): string {
+  const { y, axis } = valueScale(data);
+  const slot = (WIDTH - MARGIN.left - MARGIN.right) / data.length;
+  const x = (i: number) => MARGIN.left + slot * (i + 0.5);
+  const barWidth = slot * 0.7;
+
+  const bars = data.map((point, i) => {
+    const top = Math.min(y(point.value), y(0));
+    const height = Math.abs(y(point.value) - y(0));
+    return `<rect x="${round(x(i) - barWidth / 2)}" y="${round(top)}" width="${round(barWidth)}" height="${round(height)}" fill="${COLORS[0]}"><title>${escapeXml(point.label)}: ${formatNumber(point.value)}</title></rect>`;
+  }).join('\n');
+  return `${axis}\n${bars}\n${categoryLabels(data, x)}`;
+}
+
+function renderLine(data: ChartPoint[]): string {
+  const { y, axis } = valueScale(data);
+  const plotWidth = WIDTH - MARGIN.left - MARGIN.right;
+  const x = (i: number) => MARGIN.left + (data.length === 1 ? plotWidth / 2 : (plotWidth * i) / (data.length - 1));
+
+  const points = data.map((point, i) => `${round(x(i))},${round(y(point.value))}`).join(' ');
+  const dots = data.map((point, i) =>
+    `<circle cx="${round(x(i))}" cy="${round(y(point.value))}" r="4" fill="${COLORS[0]}"><title>${escapeXml(point.label)}: ${formatNumber(point.value)}</title></circle>`
+  ).join('\n');
+  return `${axis}\n<polyline points="${points}" fill="none" stroke="${COLORS[0]}" stroke-width="2"/>\n${dots}\n${categoryLabels(data, x)}`;
+}
+
+function renderPie(data: ChartPoint[]): string {
+  if (data.some(point => point.value < 0)) {
+    throw new Error('Pie charts cannot show negative values');
+  }
+  const total = data.reduce((sum, point) => sum + point.value, 0);
+  if (total === 0) {
+    throw new Error('Pie charts need at least one value above zero');
+  }
+
+  const radius = 140;
+  const cx = 200;
+  const cy = HEIGHT / 2 + 12;
+  let angle = -Math.PI / 2;
+
+  const slices = data.map((point, i) => {
+    const color = COLORS[i % COLORS.length];
+    const share = point.value / total;
+    const label = `<title>${escapeXml(point.label)}: ${formatNumber(point.value)} (${Math.round(share * 100)}%)</title>`;
+    if (share === 1) return `<circle cx="${cx}" cy="${cy}" r="${radius}" fill="${color}">${label}</circle>`;
+
+    const start = angle;
+    angle += share * 2 * Math.PI;
+    const [x1, y1] = [cx + radius * Math.cos(start), cy + radius * Math.sin(start)];
+    const [x2, y2] = [cx + radius * Math.cos(angle), cy + radius * Math.sin(angle)];
+    const largeArc = share > 0.5 ? 1 : 0;
+    return `<path d="M${cx},${cy} L${round(x1)},${round(y1)} A${radius},${radius} 0 ${largeArc} 1 ${round(x2)},${round(y2)} Z" fill="${color}" stroke="#ffffff">${label}</path>`;
+  }).join('\n');
+
+  const legend = data.map((point, i) => {
+    const top = MARGIN.top + 20 + i * 20;
+    return `<rect x="380" y="${top - 10}" width="12" height="12" fill="${COLORS[i % COLORS.length]}"/>` +
+      `<text x="398" y="${top}" font-size="12">${escapeXml(truncate(point.label, 28))} (${Math.round((point.value / total) * 100)}%)</text>`;
+  }).slice(0, 14).join('\n');
+
+  return `${slices}\n${legend}`;
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function formatNumber(value: number): string {
+  return Number(value.toPrecision(4)).toLocaleString('en-US');
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
@@ -0,0 +1,53 @@
+// Browser-side helpers for the /api/chats storage endpoints
+
+const IMPORT_FLAG = 'chats_imported';
+
+let importPromise: Promise<void> | null = null;
+
+// Chats used to live only in localStorage under `chat_<id>` keys. Push them to
+// the server once, then drop the local copies.
+export function importLocalChats(): Promise<void> {
+  if (typeof window === 'undefined') return Promise.resolve();
+  if (!importPromise) {
+    importPromise = runImport().catch((error) => {
+      console.error('Failed to import local chats:', error);
+      importPromise = null; // retry on next call
+    });
+  }
+  return importPromise;
+}
+
+async function runImport() {
+  if (localStorage.getItem(IMPORT_FLAG)) return;
+
+  const keys: string[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key?.startsWith('chat_')) keys.push(key);
+  }
+
+  for (const key of keys) {
+    const chatId = key.replace('chat_', '');
+    let chatData: any;
+    try {
+      chatData = JSON.parse(localStorage.getItem(key) || '{}');
+    } catch {
+      continue; // Skip invalid chat data
+    }
+
+    const res = await fetch('/api/chats', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        id: chatId,
+        title: chatData.title || `Chat ${chatId}`,
+        messages: Array.isArray(chatData.messages) ? chatData.messages : [],
+        updated_at: chatData.lastUpdated
+      })
+    });
+    // Ids the server rejects are left in place rather than lost
+    if (res.ok) localStorage.removeItem(key);
+  }
+
+  localStorage.setItem(IMPORT_FLAG, new Date().toISOString());
+}
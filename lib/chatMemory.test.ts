@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { ChatTurn, buildConversation } from './chatMemory';
+import { MockProvider } from './llm/mock';
+
+const llm = new MockProvider(() => 'Earlier: the user asked about tides.');
+
+// Each turn is about 100 tokens
+const turn = (role: ChatTurn['role'], index: number): ChatTurn => ({ role, content: `${role} ${index} `.padEnd(400, 'x') });
+const history: ChatTurn[] = [0, 1, 2, 3].flatMap(i => [turn('user', i), turn('assistant', i)]);
+
+describe('buildConversation', () => {
+  it('keeps recent turns within the budget and summarises the rest', async () => {
+    const { messages, summary } = await buildConversation(llm, history, 'next question', { tokenBudget: 512 + 210 });
+
+    expect(messages.map(m => m.content.split(' ').slice(0, 2).join(' '))).toEqual(['user 3', 'assistant 3', 'next question']);
+    expect(summary).toBe('Earlier: the user asked about tides.');
+  });
+
+  it('counts the new message against the budget', async () => {
+    const message = 'x'.repeat(400);
+    const { messages } = await buildConversation(llm, history, message, { tokenBudget: 512 + 410 });
+
+    expect(messages).toHaveLength(3);
+    expect(messages[2].content).toBe(message);
+  });
+
+  it('keeps the latest exchange when the budget is too small for it', async () => {
+    const { messages } = await buildConversation(llm, history, 'next question', { tokenBudget: 100 });
+
+    expect(messages.map(m => m.role)).toEqual(['user', 'assistant', 'user']);
+    expect(messages[0].content).toMatch(/^user 3/);
+  });
+});
@@ -0,0 +1,137 @@
+import { LLMMessage, LLMProvider, estimateTokens } from './llm';
+
+export interface ChatTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+interface ConversationOptions {
+  chatId?: string;
+  tokenBudget?: number; // tokens available for history and the new message
+  signal?: AbortSignal;
+}
+
+interface Conversation {
+  messages: LLMMessage[];
+  summary?: string; // summary of turns that no longer fit in the window
+}
+
+interface SummaryCacheEntry {
+  coveredTurns: number;
+  summary: string;
+}
+
+const DEFAULT_TOKEN_BUDGET = Number(process.env.CHAT_HISTORY_TOKEN_BUDGET) || 6000;
+const SUMMARY_MAX_TOKENS = 512;
+const MAX_CACHED_SUMMARIES = 500;
+
+// Rolling summaries per chat so older turns are only summarised once, least
+// recently used first out
+const summaryCache = new Map<string, SummaryCacheEntry>();
+
+function cacheSummary(chatId: string, entry: SummaryCacheEntry) {
+  summaryCache.delete(chatId);
+  summaryCache.set(chatId, entry);
+  if (summaryCache.size > MAX_CACHED_SUMMARIES) {
+    summaryCache.delete(summaryCache.keys().next().value!);
+  }
+}
+
+// Builds a multi-turn message list: recent turns verbatim within the token
+// budget, anything older folded into a running summary. The latest exchange
+// is always kept, however small the budget.
+export async function buildConversation(
+  llm: LLMProvider,
+  history: ChatTurn[],
+  message: string,
+  options: ConversationOptions = {}
+): Promise<Conversation> {
+  const turns = normalizeTurns(history);
+  const budget = Math.max(0, (options.tokenBudget ?? DEFAULT_TOKEN_BUDGET) - SUMMARY_MAX_TOKENS - estimateTokens(message));
+  // The latest exchange starts at the last user turn
+  const lastUser = turns.map(turn => turn.role).lastIndexOf('user');
+  const latestExchange = lastUser === -1 ? turns.length - 1 : lastUser;
+
+  // Walk backwards from the newest turn until the budget is spent
+  let used = 0;
+  let firstKept = turns.length;
+  while (firstKept > 0) {
+    const cost = estimateTokens(turns[firstKept - 1].content);
+    if (used + cost > budget && firstKept <= latestExchange) break;
+    used += cost;
+    firstKept--;
+  }
+
+  const messages: LLMMessage[] = turns.slice(firstKept);
+  // Conversations must open with a user turn
+  while (messages.length && messages[0].role !== 'user') messages.shift();
+  messages.push({ role: 'user', content: message });
+
+  if (firstKept === 0) return { messages };
+
+  const summary = await summarizeTurns(llm, turns.slice(0, firstKept), options);
+  return { messages, summary };
+}
+
+async function summarizeTurns(llm: LLMProvider, turns: ChatTurn[], options: ConversationOptions): Promise<string> {
+  const cached = options.chatId ? summaryCache.get(options.chatId) : undefined;
+  if (options.chatId && cached) cacheSummary(options.chatId, cached);
+  // Reuse the cached summary when it covers a prefix of what needs summarising
+  const usable = cached && cached.coveredTurns <= turns.length ? cached : undefined;
+  const pending = turns.slice(usable?.coveredTurns || 0);
+
+  if (usable && pending.length === 0) return usable.summary;
+
+  const transcript = pending
+    .map(turn => `${turn.role === 'user' ? 'User' : 'Assistant'}: ${turn.content}`)
+    .join('\n\n');
+
+  const summaryPrompt = `Summarize the earlier part of this conversation so it can be used as context for continuing it.
+${usable ? `\nExisting summary:\n${usable.summary}\n` : ''}
+New conversation turns:
+${transcript}
+
+Keep names, facts, decisions, preferences and open questions. Write a compact paragraph, no preamble.`;
+
+  try {
+    const { text } = await llm.generate(summaryPrompt, {
+      temperature: 0.2,
+      maxOutputTokens: SUMMARY_MAX_TOKENS,
+      signal: options.signal
+    });
+    const summary = text.trim() || usable?.summary || '';
+
+    if (options.chatId && summary) {
+      cacheSummary(options.chatId, { coveredTurns: turns.length, summary });
+    }
+    return summary;
+  } catch (error) {
+    console.error('Conversation summarisation failed:', error);
+    return usable?.summary || '';
+  }
+}
+
+function normalizeTurns(history: ChatTurn[]): ChatTurn[] {
+  const turns: ChatTurn[] = [];
+
+  for (const turn of history || []) {
+    if (turn?.role !== 'user' && turn?.role !== 'assistant') continue;
+    const content = stripBranding(String(turn.content || '')).trim();
+    if (!content) continue;
+
+    // Merge consecutive turns from the same speaker
+    const last = turns[turns.length - 1];
+    if (last?.role === turn.role) {
+      last.content += `\n\n${content}`;
+    } else {
+      turns.push({ role: turn.role, content });
+    }
+  }
+
+  return turns;
+}
+
+// Assistant messages carry a "**ScynV** <img …>" header that is pure presentation
+function stripBranding(content: string): string {
+  return content.replace(/^\*\*ScynV\*\*\s*<img[^>]*>\s*/, '');
+}
@@ -0,0 +1,197 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { randomUUID } from 'crypto';
+import { z } from 'zod';
+
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  created_at?: string;
+  [extra: string]: unknown; // attachments, sources, ... are stored as-is
+}
+
+export interface ChatRecord {
+  id: string;
+  title: string;
+  created_at: string;
+  updated_at: string;
+  messages: ChatMessage[];
+}
+
+export type ChatSummary = Omit<ChatRecord, 'messages'>;
+
+export interface CreateChatInput {
+  id?: string;
+  title?: string;
+  messages?: ChatMessage[];
+  updated_at?: string;
+}
+
+export interface ChatStore {
+  list(): Promise<ChatSummary[]>;
+  get(id: string): Promise<ChatRecord | null>;
+  create(input?: CreateChatInput): Promise<ChatRecord>;
+  rename(id: string, title: string): Promise<ChatRecord | null>;
+  remove(id: string): Promise<boolean>;
+  appendMessages(id: string, messages: ChatMessage[], title?: string): Promise<ChatRecord>;
+}
+
+const CHAT_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+const MAX_MESSAGES_PER_REQUEST = 1000;
+const MAX_MESSAGE_CHARS = 200000;
+// Serialized size of the messages of one append or import
+const MAX_MESSAGES_BYTES = 5 * 1024 * 1024;
+
+// Messages as clients send them; extra fields pass through untouched
+export const ChatMessagesSchema = z.array(z.object({
+  role: z.enum(['user', 'assistant']),
+  content: z.string().max(MAX_MESSAGE_CHARS),
+  created_at: z.string().optional()
+}).passthrough())
+  .max(MAX_MESSAGES_PER_REQUEST)
+  .refine(messages => Buffer.byteLength(JSON.stringify(messages)) <= MAX_MESSAGES_BYTES, 'Messages are too large');
+
+export function isValidChatId(id: string): boolean {
+  return CHAT_ID_PATTERN.test(id);
+}
+
+// One JSON file per chat. Writes go through a temp file + rename so a crash
+// never leaves a half-written chat behind, and are serialised per chat.
+export class JsonFileChatStore implements ChatStore {
+  private dir: string;
+  private queues = new Map<string, Promise<unknown>>();
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  async list(): Promise<ChatSummary[]> {
+    await fs.mkdir(this.dir, { recursive: true });
+    const files = (await fs.readdir(this.dir)).filter(f => f.endsWith('.json'));
+
+    const chats: ChatSummary[] = [];
+    for (const file of files) {
+      const chat = await this.read(file.replace(/\.json$/, ''));
+      if (chat) {
+        const { messages, ...summary } = chat;
+        chats.push(summary);
+      }
+    }
+
+    return chats.sort((a, b) => new Date(b.updated_at).getTime() - new Date(a.updated_at).getTime());
+  }
+
+  async get(id: string): Promise<ChatRecord | null> {
+    if (!isValidChatId(id)) return null;
+    return this.read(id);
+  }
+
+  async create(input: CreateChatInput = {}): Promise<ChatRecord> {
+    const id = input.id || `chat-${randomUUID()}`;
+    if (!isValidChatId(id)) throw new Error(`Invalid chat id: ${id}`);
+
+    return this.withLock(id, async () => {
+      // Creating an existing id is a no-op so imports can safely be retried
+      const existing = await this.read(id);
+      if (existing) return existing;
+
+      const now = new Date().toISOString();
+      const chat: ChatRecord = {
+        id,
+        title: input.title || 'New task',
+        created_at: now,
+        updated_at: input.updated_at || now,
+        messages: input.messages || []
+      };
+      await this.write(chat);
+      return chat;
+    });
+  }
+
+  async rename(id: string, title: string): Promise<ChatRecord | null> {
+    if (!isValidChatId(id)) return null;
+
+    return this.withLock(id, async () => {
+      const chat = await this.read(id);
+      if (!chat) return null;
+
+      chat.title = title;
+      chat.updated_at = new Date().toISOString();
+      await this.write(chat);
+      return chat;
+    });
+  }
+
+  async remove(id: string): Promise<boolean> {
+    if (!isValidChatId(id)) return false;
+
+    return this.withLock(id, async () => {
+      try {
+        await fs.unlink(this.pathFor(id));
+        return true;
+      } catch {
+        return false;
+      }
+    });
+  }
+
+  // Creates the chat on first append, so chats opened by URL are saved too
+  async appendMessages(id: string, messages: ChatMessage[], title?: string): Promise<ChatRecord> {
+    if (!isValidChatId(id)) throw new Error(`Invalid chat id: ${id}`);
+
+    return this.withLock(id, async () => {
+      const now = new Date().toISOString();
+      const chat = (await this.read(id)) || {
+        id,
+        title: title || 'New task',
+        created_at: now,
+        updated_at: now,
+        messages: []
+      };
+
+      chat.messages.push(...messages.map(m => ({ ...m, created_at: m.created_at || now })));
+      if (title) chat.title = title;
+      chat.updated_at = now;
+      await this.write(chat);
+      return chat;
+    });
+  }
+
+  private pathFor(id: string) {
+    return join(this.dir, `${id}.json`);
+  }
+
+  private async read(id: string): Promise<ChatRecord | null> {
+    try {
+      return JSON.parse(await fs.readFile(this.pathFor(id), 'utf8'));
+    } catch {
+      return null;
+    }
+  }
+
+  private async write(chat: ChatRecord) {
+    await fs.mkdir(this.dir, { recursive: true });
+    const tempPath = `${this.pathFor(chat.id)}.${randomUUID()}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(chat, null, 2));
+    await fs.rename(tempPath, this.pathFor(chat.id));
+  }
+
+  private withLock<T>(id: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.queues.get(id) || Promise.resolve();
+    const next = previous.catch(() => {}).then(task);
+    this.queues.set(id, next);
+    next.finally(() => {
+      if (this.queues.get(id) === next) this.queues.delete(id);
+    }).catch(() => {});
+    return next;
+  }
+}
+
+let store: ChatStore | null = null;
+
+export function getChatStore(): ChatStore {
+  if (!store) {
+    store = new JsonFileChatStore(process.env.CHAT_DATA_DIR || join(process.cwd(), '.data', 'chats'));
+  }
+  return store;
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { citedIds, CitationSource, numberSources, resolveCitations, resolveCitationsIn } from './citations';
+
+const sources: CitationSource[] = numberSources([
+  { title: 'One', url: 'https://one.example' },
+  { title: 'Two', url: 'https://two.example' },
+  { title: 'One again', url: 'https://one.example' },
+  { title: 'Three', url: 'https://three.example' }
+]);
+
+describe('numberSources', () => {
+  it('numbers sources by first appearance and merges repeated URLs', () => {
+    expect(sources.map(s => [s.id, s.title])).toEqual([[1, 'One'], [2, 'Two'], [3, 'Three']]);
+  });
+});
+
+describe('resolveCitations', () => {
+  it('renumbers cited sources in order of first use and drops uncited ones', () => {
+    const { text, sources: cited } = resolveCitations('Tides rose [3]. Output fell [1].', sources);
+
+    expect(text).toBe('Tides rose [1]. Output fell [2].');
+    expect(cited.map(s => [s.id, s.title])).toEqual([[1, 'Three'], [2, 'One']]);
+  });
+
+  it('keeps one number for a source cited repeatedly', () => {
+    const { text, sources: cited } = resolveCitations('A [2]. B [2][3]. C [3, 2, 2].', sources);
+
+    expect(text).toBe('A [1]. B [1][2]. C [2][1].');
+    expect(cited).toHaveLength(2);
+  });
+
+  it('removes out-of-range citation numbers with the space before them', () => {
+    const { text, sources: cited } = resolveCitations('Known [1]. Unknown [7]. Mixed [0, 2].', sources);
+
+    expect(text).toBe('Known [1]. Unknown. Mixed [2].');
+    expect(cited.map(s => s.title)).toEqual(['One', 'Two']);
+  });
+
+  it('shares one numbering across several texts', () => {
+    const { texts, sources: cited } = resolveCitationsIn(['Intro [2].', 'Body [1][2].'], sources);
+
+    expect(texts).toEqual(['Intro [1].', 'Body [2][1].']);
+    expect(cited.map(s => s.title)).toEqual(['Two', 'One']);
+  });
+});
+
+describe('citedIds', () => {
+  it('collects every number a text cites', () => {
+    expect(Array.from(citedIds('A [1, 3]. B [3][9].'))).toEqual([1, 3, 9]);
+  });
+});
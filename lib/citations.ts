@@ -0,0 +1,72 @@
+export interface CitationSource {
+  id: number; // the number used in inline [n] markers
+  title: string;
+  url: string;
+  snippet?: string;
+}
+
+export interface CitedAnswer {
+  text: string;
+  sources: CitationSource[];
+}
+
+// Groups like [1], [2, 3] or [1][4]; a bare year in brackets is too large to
+// collide with the short source lists we produce
+const CITATION_PATTERN = /([ \t]?)\[(\d{1,3}(?:\s*,\s*\d{1,3})*)\]/g;
+
+// Numbers sources by first appearance, merging duplicates of the same URL
+export function numberSources(candidates: Array<{ title: string; url: string; snippet?: string }>): CitationSource[] {
+  const sources: CitationSource[] = [];
+  const seen = new Set<string>();
+  for (const candidate of candidates) {
+    if (!candidate.url || seen.has(candidate.url)) continue;
+    seen.add(candidate.url);
+    sources.push({ id: sources.length + 1, title: candidate.title || candidate.url, url: candidate.url, snippet: candidate.snippet });
+  }
+  return sources;
+}
+
+// Prompt block listing sources as "[n] Title (url)"
+export function formatSourceList(sources: CitationSource[]): string {
+  return sources.map(source => `[${source.id}] ${source.title} (${source.url})${source.snippet ? `\n${source.snippet}` : ''}`).join('\n\n');
+}
+
+// Drops citation indexes that don't refer to a known source, then renumbers the
+// remaining ones 1..n in order of first use and keeps only the cited sources.
+export function resolveCitations(text: string, sources: CitationSource[]): CitedAnswer {
+  const { texts, sources: cited } = resolveCitationsIn([text], sources);
+  return { text: texts[0], sources: cited };
+}
+
+// Same as resolveCitations over several texts sharing one numbering; sources
+// first cited in earlier texts get the lower numbers.
+export function resolveCitationsIn(texts: string[], sources: CitationSource[]): { texts: string[]; sources: CitationSource[] } {
+  const byId = new Map(sources.map(source => [source.id, source]));
+  const renumbered = new Map<number, number>();
+  const cited: CitationSource[] = [];
+
+  const resolved = texts.map(text => text.replace(CITATION_PATTERN, (_match, space: string, group: string) => {
+    const ids = Array.from(new Set(group.split(',').map(id => Number(id.trim()))))
+      .filter(id => byId.has(id))
+      .map(id => {
+        if (!renumbered.has(id)) {
+          renumbered.set(id, cited.length + 1);
+          cited.push({ ...byId.get(id)!, id: cited.length + 1 });
+        }
+        return renumbered.get(id)!;
+      });
+    // An invalid marker goes together with the space in front of it
+    return ids.length ? space + ids.map(id => `[${id}]`).join('') : '';
+  }));
+
+  return { texts: resolved, sources: cited };
+}
+
+// Ids of the sources a text actually cites
+export function citedIds(text: string): Set<number> {
+  const ids = new Set<number>();
+  for (const match of Array.from(text.matchAll(CITATION_PATTERN))) {
+    match[2].split(',').forEach(id => ids.add(Number(id.trim())));
+  }
+  return ids;
+}
@@ -1,13 +1,19 @@
-import { AIAgent } from './aiAgent';
-import axios from 'axios';
-import * as cheerio from 'cheerio';
+import { AgentCallbacks, AIAgent } from './aiAgent';
+import { LLMMessage, LLMProvider, ToolCall, ToolDefinition, validateToolArguments } from './llm';
+import { extractDocument } from './extract';
+import { blobUrl, getBlobStore } from './blobStore';
+import { renderChartSvg } from './charts';
+import { closeSession, enabledLanguages, executeCode as runInSandbox, isSessionLanguage, runInSession, SessionLanguage } from './sandbox';
+import { SearchProvider } from './search';
+import { PlannedPhase } from './sse/types';
+import { fetchReadablePage } from './web';
+import { randomUUID } from 'crypto';
 
 interface ToolResult {
   success: boolean;
   data?: any;
   error?: string;
   files?: string[];
-  visualizations?: any[];
 }
 
 interface CodeExecutionResult extends ToolResult {
@@ -29,137 +35,275 @@ interface WebBrowsingResult extends ToolResult {
   images: string[];
 }
 
-export class EnhancedAIAgent extends AIAgent {
-  private tools: Map<string, Function>;
+interface AgentTool {
+  definition: ToolDefinition;
+  run: (args: any) => Promise<ToolResult>;
+}
+
+export interface ToolCallEvent {
+  step: number;
+  call: ToolCall;
+}
+
+export interface ToolResultEvent extends ToolCallEvent {
+  result: ToolResult;
+  durationMs: number;
+}
+
+export interface EnhancedAgentCallbacks extends AgentCallbacks {
+  onToolCall?: (event: ToolCallEvent) => void;
+  onToolResult?: (event: ToolResultEvent) => void;
+}
+
+export interface TaskAttachment {
+  id: string; // blob store id
+  name: string;
+  type: string;
+}
+
+export interface EnhancedTaskOptions {
+  maxSteps?: number; // model turns that may request tools
+  timeBudgetMs?: number; // no new steps start after this
+  attachments?: TaskAttachment[]; // uploads document_analysis may read
+}
+
+export interface EnhancedTaskResult {
+  text: string;
+  toolResults: ToolResultEvent[];
+  steps: number;
+  stopReason: 'answered' | 'max_steps' | 'time_budget';
+  hasEnhancements: boolean;
+}
 
-  constructor(geminiKey: string, searchKey: string, callbacks: any) {
-    super(geminiKey, searchKey, callbacks);
+const DEFAULT_MAX_STEPS = 8;
+const DEFAULT_TIME_BUDGET_MS = 120000;
+const MAX_SEARCH_QUERIES = 5;
+// Tool output beyond this is cut before it goes back to the model
+const MAX_TOOL_RESULT_CHARS = 12000;
+
+export class EnhancedAIAgent extends AIAgent {
+  private tools: Map<string, AgentTool>;
+  protected callbacks: EnhancedAgentCallbacks;
+  // Python/JavaScript steps of one task share a kernel, like notebook cells;
+  // the session starts with the first such step
+  private codeOwner = `agent-${randomUUID()}`;
+  private codeSessionId?: string;
+  // Files attached to the current task; the only ones document_analysis reads
+  private attachments: TaskAttachment[] = [];
+
+  constructor(llm: LLMProvider, search: SearchProvider | null, callbacks: EnhancedAgentCallbacks, signal?: AbortSignal) {
+    super(llm, search, callbacks, signal);
+    this.callbacks = callbacks;
     this.tools = new Map();
     this.initializeTools();
   }
 
+  // The phases of performEnhancedTask, with default estimates in seconds
+  static taskPlan(): PlannedPhase[] {
+    return [
+      { id: 'execution', name: 'Execution', description: 'Working through the task with tools', estimatedDuration: 30 },
+      { id: 'synthesis', name: 'Answer', description: 'Writing the final answer', estimatedDuration: 5 }
+    ];
+  }
+
   private initializeTools() {
-    this.tools.set('code_execution', this.executeCode.bind(this));
-    this.tools.set('document_analysis', this.analyzeDocument.bind(this));
-    this.tools.set('web_browsing', this.browseWeb.bind(this));
-    this.tools.set('data_visualization', this.createVisualization.bind(this));
-    this.tools.set('file_processing', this.processFile.bind(this));
-    this.tools.set('enhanced_search', this.enhancedSearch.bind(this));
+    this.registerTool(this.executeCode, {
+      name: 'code_execution',
+      description: 'Run code in a sandbox without network access and return its stdout, stderr and any files it writes. Python and JavaScript calls share variables and files across the task.',
+      parameters: {
+        type: 'object',
+        properties: {
+          // Only what SANDBOX_LANGUAGES allows, so the model is not offered refused languages
+          language: { type: 'string', enum: enabledLanguages() },
+          code: { type: 'string', description: 'Complete program; print the results you need to stdout' },
+          timeout: { type: 'integer', description: 'Wall-clock limit in milliseconds' }
+        },
+        required: ['language', 'code']
+      }
+    });
+    this.registerTool(this.analyzeDocument, {
+      name: 'document_analysis',
+      description: 'Extract the text, tables and metadata of a PDF, Word, Excel, CSV, Markdown or HTML file attached to the task.',
+      parameters: {
+        type: 'object',
+        properties: {
+          fileId: { type: 'string', description: 'Id of an attached file, as listed in the task' },
+          analysisType: { type: 'string', enum: ['full', 'metadata'] }
+        },
+        required: ['fileId']
+      }
+    });
+    this.registerTool(this.browseWeb, {
+      name: 'web_browsing',
+      description: 'Read a web page as Markdown with its title, author, publish date and links.',
+      parameters: {
+        type: 'object',
+        properties: {
+          url: { type: 'string', description: 'Absolute http(s) URL' }
+        },
+        required: ['url']
+      }
+    });
+    this.registerTool(this.createVisualization, {
+      name: 'data_visualization',
+      description: 'Draw a bar, line or pie chart of labelled values and attach it to the answer as an SVG file.',
+      parameters: {
+        type: 'object',
+        properties: {
+          type: { type: 'string', enum: ['bar', 'line', 'pie'] },
+          title: { type: 'string' },
+          data: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: { label: { type: 'string' }, value: { type: 'number' } },
+              required: ['label', 'value']
+            }
+          }
+        },
+        required: ['type', 'data']
+      }
+    });
+    this.registerTool(this.enhancedSearch, {
+      name: 'enhanced_search',
+      description: 'Search the web for several queries at once and return the top results of each.',
+      parameters: {
+        type: 'object',
+        properties: {
+          queries: { type: 'array', items: { type: 'string' }, description: `1-${MAX_SEARCH_QUERIES} specific search queries` },
+          factCheck: { type: 'boolean', description: 'Also search for sources that dispute or debunk each query' }
+        },
+        required: ['queries']
+      }
+    });
   }
 
-  async performEnhancedTask(query: string, toolsNeeded: string[] = []): Promise<any> {
+  private registerTool(run: (args: any) => Promise<ToolResult>, definition: ToolDefinition) {
+    this.tools.set(definition.name, { definition, run: run.bind(this) });
+  }
+
+  // Lets the model call tools, see their results and call more until it
+  // answers or the step/time budget runs out. toolsNeeded only hints at
+  // which tools are likely useful; the model is free to pick others.
+  async performEnhancedTask(query: string, toolsNeeded: string[] = [], options: EnhancedTaskOptions = {}): Promise<EnhancedTaskResult> {
+    const maxSteps = options.maxSteps || DEFAULT_MAX_STEPS;
+    const deadline = Date.now() + (options.timeBudgetMs || DEFAULT_TIME_BUDGET_MS);
+    this.attachments = options.attachments || [];
+    // Without attached files there is nothing for document_analysis to read
+    const definitions = Array.from(this.tools.values())
+      .map(tool => tool.definition)
+      .filter(definition => definition.name !== 'document_analysis' || this.attachments.length);
+    const suggested = toolsNeeded.filter(name => definitions.some(definition => definition.name === name));
+    const toolResults: ToolResultEvent[] = [];
+    const messages: LLMMessage[] = [{ role: 'user', content: withAttachments(query, this.attachments) }];
+    let stopReason: EnhancedTaskResult['stopReason'] = 'max_steps';
+    let text = '';
+    let step = 0;
+
     try {
-      // Phase 1: Enhanced Planning
-      this.callbacks.onPhaseStart('planning', 'Analyzing query and selecting optimal tools');
-      const plan = await this.createEnhancedPlan(query, toolsNeeded);
-      this.callbacks.onPhaseComplete('planning', plan);
-
-      // Phase 2: Tool Execution
-      this.callbacks.onPhaseStart('execution', 'Executing selected tools');
-      const toolResults = await this.executeTools(plan.tools);
-      this.callbacks.onPhaseComplete('execution', toolResults);
-
-      // Phase 3: Enhanced Analysis
-      this.callbacks.onPhaseStart('analysis', 'Analyzing results from multiple sources');
-      const analysis = await this.analyzeEnhancedResults(query, toolResults);
-      this.callbacks.onPhaseComplete('analysis', analysis);
-
-      // Phase 4: Synthesis with Rich Content
-      this.callbacks.onPhaseStart('synthesis', 'Creating comprehensive response with rich content');
-      const finalResponse = await this.synthesizeEnhancedResponse(query, analysis, toolResults);
-      this.callbacks.onPhaseComplete('synthesis', finalResponse);
-
-      return finalResponse;
+      this.callbacks.onPhaseStart('execution', 'Working through the task with tools');
+
+      while (step < maxSteps) {
+        if (Date.now() >= deadline) {
+          stopReason = 'time_budget';
+          break;
+        }
+        this.throwIfAborted();
+        step++;
+
+        const reply = await this.llm.generate(messages, { system: this.systemPrompt(suggested), tools: definitions, signal: this.signal });
+        if (!reply.toolCalls?.length) {
+          text = reply.text;
+          stopReason = 'answered';
+          break;
+        }
+
+        messages.push({ role: 'assistant', content: reply.text, toolCalls: reply.toolCalls });
+        // One at a time: later calls may depend on state earlier ones left in the code session
+        for (const call of reply.toolCalls) {
+          this.throwIfAborted();
+          this.callbacks.onToolCall?.({ step, call });
+          const started = Date.now();
+          const result = await this.invokeTool(call);
+          const event = { step, call, result, durationMs: Date.now() - started };
+          toolResults.push(event);
+          this.callbacks.onToolResult?.(event);
+          messages.push({ role: 'tool', toolCallId: call.id, name: call.name, content: serializeToolResult(result) });
+        }
+        this.callbacks.onPhaseUpdate('execution', Math.round((step / maxSteps) * 100), { step, toolCalls: reply.toolCalls.length });
+      }
+      this.callbacks.onPhaseComplete('execution', { steps: step, stopReason, toolCalls: toolResults.length });
+
+      this.callbacks.onPhaseStart('synthesis', 'Writing the final answer');
+      if (stopReason !== 'answered') {
+        // Out of budget: answer from what the tools returned so far
+        messages.push({ role: 'user', content: 'The tool budget for this task is used up. Give your final answer now from the results above, and say what could not be checked.' });
+        text = await this.callLLM(messages, { system: this.systemPrompt(suggested) });
+      }
+      const result: EnhancedTaskResult = {
+        text: text || 'No response generated',
+        toolResults,
+        steps: step,
+        stopReason,
+        hasEnhancements: toolResults.some(({ result }) => result.files?.length)
+      };
+      this.callbacks.onPhaseComplete('synthesis', { text: result.text, steps: step, stopReason });
+
+      return result;
     } catch (error) {
       this.callbacks.onError(error instanceof Error ? error.message : 'Unknown error');
       throw error;
+    } finally {
+      if (this.codeSessionId) closeSession(this.codeSessionId, this.codeOwner);
     }
   }
 
-  private async createEnhancedPlan(query: string, suggestedTools: string[]): Promise<any> {
-    const planPrompt = `Analyze this query and create an enhanced execution plan: "${query}"
-
-Available tools:
-- code_execution: Execute Python/JavaScript code for calculations, data processing
-- document_analysis: Analyze PDF, Word, Excel files
-- web_browsing: Browse websites and extract real-time information
-- data_visualization: Create charts, graphs, and visual representations
-- file_processing: Process and manipulate various file formats
-- enhanced_search: Multi-source search with fact-checking
-
-Suggested tools: ${suggestedTools.join(', ')}
-
-Return a JSON object with:
-- tools: array of tools to use with specific parameters
-- searchQueries: enhanced search queries if needed
-- expectedOutputs: what each tool should produce
-- synthesisStrategy: how to combine results
-
-Example:
-{
-  "tools": [
-    {"name": "enhanced_search", "params": {"queries": ["AI trends 2024"], "sources": ["academic", "news"]}},
-    {"name": "data_visualization", "params": {"type": "chart", "data_source": "search_results"}}
-  ],
-  "searchQueries": ["comprehensive AI trends analysis 2024"],
-  "expectedOutputs": ["search results", "trend visualization"],
-  "synthesisStrategy": "combine search data with visual analysis"
-}`;
-
-    const response = await this.callGemini(planPrompt);
-    
-    try {
-      return JSON.parse(response);
-    } catch {
-      return {
-        tools: suggestedTools.map(tool => ({ name: tool, params: {} })),
-        searchQueries: [query],
-        expectedOutputs: ["analysis results"],
-        synthesisStrategy: "comprehensive analysis"
-      };
-    }
+  private systemPrompt(suggestedTools: string[]): string {
+    const hint = suggestedTools.length ? `\nTools that are likely useful here: ${suggestedTools.join(', ')}.` : '';
+    return `You are an assistant that can call tools to complete the user's task. Call a tool whenever it gives you facts, computations or files you don't already have, look at its result and decide what to do next. Tool errors come back as results; fix the arguments and retry, or work around them.${hint}
+
+When you have what you need, answer directly in natural paragraphs without restating the task. Reference the data points the tools returned and mention any charts or files produced.`;
   }
 
-  private async executeTools(tools: any[]): Promise<Map<string, ToolResult>> {
-    const results = new Map<string, ToolResult>();
-    
-    for (const tool of tools) {
-      try {
-        const toolFunction = this.tools.get(tool.name);
-        if (toolFunction) {
-          const result = await toolFunction(tool.params);
-          results.set(tool.name, result);
-        }
-      } catch (error) {
-        results.set(tool.name, {
-          success: false,
-          error: error instanceof Error ? error.message : 'Tool execution failed'
-        });
-      }
+  // Unknown tools, invalid arguments and thrown errors all become failed
+  // results, so the model can see them and recover
+  private async invokeTool(call: ToolCall): Promise<ToolResult> {
+    const tool = this.tools.get(call.name);
+    if (!tool) {
+      return { success: false, error: `Unknown tool: ${call.name}` };
+    }
+
+    const invalid = validateToolArguments(tool.definition, call.arguments);
+    if (invalid) {
+      return { success: false, error: `Invalid arguments: ${invalid}` };
+    }
+
+    try {
+      return await tool.run(call.arguments);
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Tool execution failed' };
     }
-    
-    return results;
   }
 
   // Tool Implementations
   private async executeCode(params: any): Promise<CodeExecutionResult> {
-    const { language = 'python', code, timeout = 30000 } = params;
-    
+    const { language = 'python', code, timeout } = params;
+
     try {
-      // This would integrate with a code execution service
-      // For now, return a mock result
-      const startTime = Date.now();
-      
-      // Simulate code execution
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
-      const executionTime = Date.now() - startTime;
-      
+      if (!code) {
+        throw new Error('No code provided');
+      }
+
+      const result = isSessionLanguage(language)
+        ? await this.runCell(language, code, timeout)
+        : await runInSandbox({ language, code, limits: { wallClockMs: timeout }, collectArtifacts: true, signal: this.signal });
       return {
-        success: true,
-        output: `Code executed successfully in ${language}`,
-        executionTime,
-        data: { language, code }
+        success: result.success,
+        output: result.stdout,
+        error: result.error,
+        executionTime: result.executionTime,
+        files: result.artifacts?.map(artifact => artifact.url),
+        data: { language, stderr: result.stderr, exitCode: result.exitCode, compile: result.compile, artifacts: result.artifacts }
       };
     } catch (error) {
       return {
@@ -171,16 +315,30 @@ Example:
     }
   }
 
+  private async runCell(language: SessionLanguage, code: string, timeout?: number) {
+    const result = await runInSession({ sessionId: this.codeSessionId, owner: this.codeOwner, language, code, timeoutMs: timeout, collectArtifacts: true, signal: this.signal });
+    this.codeSessionId = result.sessionId;
+    return result;
+  }
+
   private async analyzeDocument(params: any): Promise<DocumentAnalysisResult> {
-    const { filePath, analysisType = 'full' } = params;
-    
+    const { fileId, analysisType = 'full' } = params;
+
     try {
-      // This would integrate with document processing libraries
+      if (!this.attachments.some(attachment => attachment.id === fileId)) {
+        throw new Error(`No file with id ${fileId} is attached to this task`);
+      }
+      const blob = await getBlobStore().get(fileId);
+      if (!blob) {
+        throw new Error(`Document not found: ${fileId}`);
+      }
+
+      const document = await extractDocument({ name: blob.record.name, type: blob.record.type, data: blob.data });
       return {
         success: true,
-        text: 'Document analysis completed',
-        metadata: { pages: 10, words: 5000, analysisType },
-        data: { filePath, analysisType }
+        text: analysisType === 'metadata' ? '' : document.text,
+        metadata: { ...document.metadata, analysisType },
+        data: { fileId, analysisType, tables: document.tables }
       };
     } catch (error) {
       return {
@@ -194,29 +352,29 @@ Example:
 
   private async browseWeb(params: any): Promise<WebBrowsingResult> {
     const { url, extractData = true } = params;
-    
+
     try {
-      const response = await axios.get(url, {
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
-        },
-        timeout: 10000
-      });
-      
-      const $ = cheerio.load(response.data);
-      const title = $('title').text();
-      const content = $('body').text().substring(0, 5000);
-      const links = $('a[href]').map((_, el) => $(el).attr('href')).get().slice(0, 20);
-      const images = $('img[src]').map((_, el) => $(el).attr('src')).get().slice(0, 10);
-      
+      if (!url) {
+        throw new Error('No URL provided');
+      }
+
+      const page = await fetchReadablePage(url, { signal: this.signal });
       return {
         success: true,
-        content,
-        title,
-        url,
-        links,
-        images,
-        data: { url, extractData }
+        content: page.markdown.substring(0, 20000),
+        title: page.title,
+        url: page.canonicalUrl,
+        links: page.links.map(link => link.href).slice(0, 20),
+        images: page.images.map(image => image.src).slice(0, 10),
+        data: {
+          url,
+          extractData,
+          author: page.author,
+          publishedAt: page.publishedAt,
+          siteName: page.siteName,
+          headings: page.headings,
+          wordCount: page.wordCount
+        }
       };
     } catch (error) {
       return {
@@ -232,61 +390,45 @@ Example:
   }
 
   private async createVisualization(params: any): Promise<ToolResult> {
-    const { type = 'chart', data, title } = params;
-    
-    try {
-      // This would generate actual visualizations
-      return {
-        success: true,
-        data: { type, title, chartData: data },
-        visualizations: [{
-          type,
-          title,
-          data,
-          config: { responsive: true, maintainAspectRatio: false }
-        }]
-      };
-    } catch (error) {
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Visualization creation failed'
-      };
-    }
-  }
+    const { type, data, title } = params;
 
-  private async processFile(params: any): Promise<ToolResult> {
-    const { filePath, operation = 'analyze' } = params;
-    
     try {
-      // File processing logic would go here
+      const svg = renderChartSvg({ type, title, data });
+      const record = await getBlobStore().save({
+        name: `${slugify(title || `${type} chart`)}.svg`,
+        type: 'image/svg+xml',
+        data: Buffer.from(svg)
+      });
       return {
         success: true,
-        data: { filePath, operation, result: 'File processed successfully' }
+        data: { type, title, points: data.length, fileId: record.id },
+        files: [blobUrl(record)]
       };
     } catch (error) {
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'File processing failed'
+        error: error instanceof Error ? error.message : 'Visualization creation failed'
       };
     }
   }
 
   private async enhancedSearch(params: any): Promise<ToolResult> {
-    const { queries, sources = ['web'], factCheck = true } = params;
-    
+    const { queries, factCheck = false } = params;
+
     try {
-      // Enhanced search with multiple sources
-      const results = [];
-      
-      for (const query of queries) {
-        // Use existing search functionality
-        const searchResults = await this.performWebSearch([query]);
-        results.push(...searchResults);
+      if (!queries.length || queries.length > MAX_SEARCH_QUERIES) {
+        throw new Error(`Give between 1 and ${MAX_SEARCH_QUERIES} queries`);
       }
-      
+
+      const results = await this.performWebSearch(queries);
+      // Counter-evidence is searched separately so the model can weigh it
+      const counterEvidence = factCheck
+        ? await this.performWebSearch(queries.map((query: string) => `${query} disputed OR debunked OR criticism`))
+        : undefined;
+
       return {
         success: true,
-        data: { queries, sources, results, factCheck }
+        data: { queries, results, factCheck, counterEvidence }
       };
     } catch (error) {
       return {
@@ -296,58 +438,6 @@ Example:
     }
   }
 
-  private async analyzeEnhancedResults(query: string, toolResults: Map<string, ToolResult>): Promise<any> {
-    const resultsArray = Array.from(toolResults.entries());
-    
-    const analysisPrompt = `Analyze these enhanced tool results for the query: "${query}"
-
-Tool Results:
-${JSON.stringify(resultsArray, null, 2)}
-
-Provide a comprehensive analysis that:
-- Identifies key insights from each tool
-- Finds connections between different data sources
-- Highlights any contradictions or inconsistencies
-- Suggests additional analysis if needed
-- Evaluates the reliability of sources
-
-Focus on creating a cohesive understanding that leverages all available information.`;
-
-    return await this.callGemini(analysisPrompt);
-  }
-
-  private async synthesizeEnhancedResponse(query: string, analysis: string, toolResults: Map<string, ToolResult>): Promise<any> {
-    const hasVisualizations = Array.from(toolResults.values()).some(result => result.visualizations?.length);
-    const hasFiles = Array.from(toolResults.values()).some(result => result.files?.length);
-    
-    const synthesisPrompt = `Create a comprehensive response based on this enhanced analysis.
-
-Query: "${query}"
-Analysis: ${analysis}
-
-Available enhancements:
-- Visualizations: ${hasVisualizations ? 'Yes' : 'No'}
-- Generated files: ${hasFiles ? 'Yes' : 'No'}
-- Multiple data sources: Yes
-
-Create a response that:
-- Directly answers the query without restating it
-- Uses natural, flowing paragraphs
-- Incorporates insights from multiple tools
-- References specific data points and sources
-- Suggests actionable next steps if relevant
-
-Format: Natural paragraphs only, no headers or bullet points.`;
-
-    const response = await this.callGemini(synthesisPrompt);
-    
-    return {
-      text: response,
-      toolResults: Array.from(toolResults.entries()),
-      hasEnhancements: hasVisualizations || hasFiles
-    };
-  }
-
   // Enhanced capability detection
   static detectRequiredTools(query: string): string[] {
     const tools = [];
@@ -377,3 +467,17 @@ Format: Natural paragraphs only, no headers or bullet points.`;
   }
 }
 
+function withAttachments(query: string, attachments: TaskAttachment[]): string {
+  if (!attachments.length) return query;
+  const files = attachments.map(file => `- ${file.name} (${file.type || 'unknown type'}), fileId: ${file.id}`);
+  return `${query}\n\nAttached files, readable with document_analysis:\n${files.join('\n')}`;
+}
+
+function serializeToolResult(result: ToolResult): string {
+  const json = JSON.stringify(result);
+  return json.length > MAX_TOOL_RESULT_CHARS ? `${json.substring(0, MAX_TOOL_RESULT_CHARS)}... [truncated]` : json;
+}
+
+function slugify(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60) || 'chart';
+}
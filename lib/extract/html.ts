@@ -0,0 +1,34 @@
+import * as cheerio from 'cheerio';
+import { ExtractedTable, PartialExtraction } from './types';
+
+const BLOCK_ELEMENTS = 'p, div, section, article, header, footer, aside, li, dt, dd, blockquote, pre, tr, h1, h2, h3, h4, h5, h6';
+
+export function extractHtml(html: string): PartialExtraction {
+  const $ = cheerio.load(html);
+  $('script, style, noscript, template, svg, iframe').remove();
+
+  const title = $('title').first().text().trim() || $('h1').first().text().trim() || undefined;
+  const author = $('meta[name="author"]').attr('content')?.trim() || undefined;
+  const headings = $('h1, h2, h3').toArray().map(el => $(el).text().trim()).filter(Boolean);
+
+  const tables: ExtractedTable[] = $('table').toArray().map((table, i) => ({
+    name: $(table).find('caption').first().text().trim() || `Table ${i + 1}`,
+    rows: $(table).find('tr').toArray().map(row =>
+      $(row).find('th, td').toArray().map(cell => $(cell).text().replace(/\s+/g, ' ').trim())
+    )
+  }));
+
+  // Give block elements and cells explicit separators before flattening to text
+  $('br').replaceWith('\n');
+  $('td, th').append('\t');
+  $(BLOCK_ELEMENTS).append('\n');
+
+  const text = ($('body').length ? $('body').text() : $.root().text())
+    .split('\n')
+    .map(line => line.replace(/[ \t ]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+  return { text, tables, title, author, headings };
+}
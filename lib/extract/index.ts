@@ -0,0 +1,123 @@
+import { extractHtml } from './html';
+import { extractDocx, extractSpreadsheet } from './office';
+import { extractPdf } from './pdf';
+import { DocumentFormat, ExtractedDocument, ExtractedTable, ExtractionInput, PartialExtraction } from './types';
+
+export * from './types';
+
+const MAX_TEXT_CHARS = 200_000;
+
+const EXTENSION_FORMATS: Record<string, DocumentFormat> = {
+  pdf: 'pdf',
+  docx: 'docx',
+  xlsx: 'xlsx',
+  xlsm: 'xlsx',
+  xls: 'xlsx',
+  ods: 'xlsx',
+  csv: 'csv',
+  tsv: 'csv',
+  md: 'markdown',
+  markdown: 'markdown',
+  html: 'html',
+  htm: 'html',
+  txt: 'text',
+  json: 'text',
+  log: 'text'
+};
+
+const MIME_FORMATS: Record<string, DocumentFormat> = {
+  'application/pdf': 'pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 'xlsx',
+  'application/vnd.ms-excel': 'xlsx',
+  'text/csv': 'csv',
+  'text/markdown': 'markdown',
+  'text/html': 'html'
+};
+
+// Extension wins over MIME type since browsers often report CSV/Markdown as octet-stream
+export function detectFormat(name: string, type: string = ''): DocumentFormat | null {
+  const extension = name.split('.').pop()?.toLowerCase() || '';
+  if (EXTENSION_FORMATS[extension]) return EXTENSION_FORMATS[extension];
+  const mime = type.split(';')[0].trim().toLowerCase();
+  if (MIME_FORMATS[mime]) return MIME_FORMATS[mime];
+  if (mime.startsWith('text/')) return 'text';
+  return null;
+}
+
+export function isExtractable(name: string, type?: string): boolean {
+  return detectFormat(name, type) !== null;
+}
+
+export async function extractDocument(input: ExtractionInput): Promise<ExtractedDocument> {
+  const format = detectFormat(input.name, input.type);
+  if (!format) {
+    throw new Error(`Unsupported document type: ${input.type || input.name}`);
+  }
+
+  let result: PartialExtraction;
+  switch (format) {
+    case 'pdf':
+      result = await extractPdf(input.data);
+      break;
+    case 'docx':
+      result = await extractDocx(input.data);
+      break;
+    case 'xlsx':
+    case 'csv':
+      result = extractSpreadsheet(input.data, format === 'csv');
+      break;
+    case 'html':
+      result = extractHtml(input.data.toString('utf8'));
+      break;
+    case 'markdown':
+      result = extractMarkdown(input.data.toString('utf8'));
+      break;
+    default:
+      result = { text: input.data.toString('utf8'), tables: [] };
+  }
+
+  const truncated = result.text.length > MAX_TEXT_CHARS;
+  const text = truncated ? result.text.substring(0, MAX_TEXT_CHARS) : result.text;
+
+  return {
+    text,
+    tables: result.tables,
+    metadata: {
+      format,
+      name: input.name,
+      mimeType: input.type || 'application/octet-stream',
+      size: input.data.length,
+      wordCount: (result.text.match(/\S+/g) || []).length,
+      characterCount: result.text.length,
+      pageCount: result.pageCount,
+      sheetNames: result.sheetNames,
+      title: result.title,
+      author: result.author,
+      headings: result.headings,
+      ...(truncated && { truncated })
+    }
+  };
+}
+
+function extractMarkdown(markdown: string): PartialExtraction {
+  const lines = markdown.split(/\r?\n/);
+  const headings = lines
+    .map(line => line.match(/^#{1,3}\s+(.*)$/)?.[1]?.trim())
+    .filter((heading): heading is string => !!heading);
+
+  // Pipe tables: consecutive "| a | b |" lines, minus the --- separator row
+  const tables: ExtractedTable[] = [];
+  let current: string[][] = [];
+  for (const line of [...lines, '']) {
+    if (/^\s*\|.*\|\s*$/.test(line)) {
+      if (/^\s*\|?[\s:|-]+\|?\s*$/.test(line)) continue;
+      current.push(line.trim().replace(/^\||\|$/g, '').split('|').map(cell => cell.trim()));
+    } else if (current.length) {
+      tables.push({ name: `Table ${tables.length + 1}`, rows: current });
+      current = [];
+    }
+  }
+
+  return { text: markdown.trim(), tables, headings, title: headings[0] };
+}
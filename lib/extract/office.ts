@@ -0,0 +1,45 @@
+import mammoth from 'mammoth';
+import * as XLSX from 'xlsx';
+import { extractHtml } from './html';
+import { ExtractedTable, PartialExtraction } from './types';
+
+const MAX_TABLE_ROWS = 500;
+
+export async function extractDocx(data: Buffer): Promise<PartialExtraction> {
+  // Raw text keeps paragraph flow; the HTML rendering is only used for structure
+  const [raw, html] = await Promise.all([
+    mammoth.extractRawText({ buffer: data }),
+    mammoth.convertToHtml({ buffer: data })
+  ]);
+  const structure = extractHtml(html.value);
+
+  return {
+    text: raw.value.replace(/\n{3,}/g, '\n\n').trim(),
+    tables: structure.tables,
+    headings: structure.headings,
+    title: structure.headings?.[0]
+  };
+}
+
+// Handles both workbooks and CSV, which SheetJS parses as a single-sheet workbook
+export function extractSpreadsheet(data: Buffer, isCsv: boolean): PartialExtraction {
+  const workbook = XLSX.read(data, { type: 'buffer', raw: isCsv, dense: true });
+  const tables: ExtractedTable[] = [];
+  const sections: string[] = [];
+
+  for (const sheetName of workbook.SheetNames) {
+    const sheet = workbook.Sheets[sheetName];
+    const rows = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, blankrows: false, defval: '' })
+      .map(row => row.map(cell => String(cell ?? '')));
+
+    tables.push({ name: sheetName, rows: rows.slice(0, MAX_TABLE_ROWS) });
+    const csv = XLSX.utils.sheet_to_csv(sheet, { blankrows: false });
+    sections.push(isCsv ? csv : `Sheet: ${sheetName}\n${csv}`);
+  }
+
+  return {
+    text: sections.join('\n\n').trim(),
+    tables,
+    sheetNames: isCsv ? undefined : workbook.SheetNames
+  };
+}
@@ -0,0 +1,32 @@
+import { PDFParse } from 'pdf-parse';
+import { ExtractedTable, PartialExtraction } from './types';
+
+export async function extractPdf(data: Buffer): Promise<PartialExtraction> {
+  const parser = new PDFParse({ data });
+
+  try {
+    const textResult = await parser.getText();
+    const info = await parser.getInfo().catch(() => null);
+
+    // Table detection works off vector drawing operators and is best-effort
+    const tables: ExtractedTable[] = [];
+    try {
+      const tableResult = await parser.getTable();
+      for (const page of tableResult.pages) {
+        page.tables.forEach(rows => tables.push({ name: `Page ${page.num}`, rows }));
+      }
+    } catch (error) {
+      console.error('PDF table extraction failed:', error);
+    }
+
+    return {
+      text: textResult.text.trim(),
+      tables,
+      pageCount: textResult.total,
+      title: info?.info?.Title || undefined,
+      author: info?.info?.Author || undefined
+    };
+  } finally {
+    await parser.destroy();
+  }
+}
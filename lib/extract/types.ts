@@ -0,0 +1,37 @@
+export type DocumentFormat = 'pdf' | 'docx' | 'xlsx' | 'csv' | 'markdown' | 'html' | 'text';
+
+export interface ExtractionInput {
+  name: string;
+  type?: string;
+  data: Buffer;
+}
+
+export interface ExtractedTable {
+  name?: string; // sheet name, "Page 3", ...
+  rows: string[][];
+}
+
+export interface DocumentMetadata {
+  format: DocumentFormat;
+  name: string;
+  mimeType: string;
+  size: number;
+  wordCount: number;
+  characterCount: number;
+  pageCount?: number;
+  sheetNames?: string[];
+  title?: string;
+  author?: string;
+  headings?: string[];
+  truncated?: boolean;
+}
+
+export interface ExtractedDocument {
+  text: string;
+  metadata: DocumentMetadata;
+  tables: ExtractedTable[];
+}
+
+// What each format-specific extractor returns; counts and limits are applied centrally
+export type PartialExtraction = Pick<ExtractedDocument, 'text' | 'tables'> &
+  Partial<Pick<DocumentMetadata, 'pageCount' | 'sheetNames' | 'title' | 'author' | 'headings'>>;
@@ -1,3 +1,12 @@
+import { z } from 'zod';
+import { GenerateOptions, LLMImage, LLMProvider, generateStructured } from './llm';
+import { CitationSource, formatSourceList, numberSources } from './citations';
+import { ExtractedTable, extractDocument, isExtractable } from './extract';
+import { ResearchResult, toResearchResult } from './reports';
+import { SearchProvider, SearchResult } from './search';
+import { PlannedPhase } from './sse/types';
+import { Passage, SourceDocument, fetchReadablePage, selectPassages } from './web';
+
 interface AgentCallbacks {
   onPhaseStart: (phaseId: string, description: string) => void;
   onPhaseUpdate: (phaseId: string, progress: number, data?: any) => void;
@@ -5,26 +14,100 @@ interface AgentCallbacks {
   onError: (error: string) => void;
 }
 
+export interface AgentFile {
+  id?: string;
+  name: string;
+  type: string;
+  size: number;
+  data: Buffer;
+}
+
+const FileInsightsSchema = z.object({
+  summary: z.string(),
+  insights: z.array(z.string()).default([]),
+  dataPoints: z.array(z.string()).default([]),
+  questions: z.array(z.string()).default([]),
+  suggestions: z.array(z.string()).default([])
+});
+
+export type FileInsights = z.infer<typeof FileInsightsSchema>;
+
 interface FileAnalysisResult {
   type: string;
-  content: string;
+  excerpt: string; // start of the extracted text, for the response prompt
   metadata: any;
+  tables?: ExtractedTable[]; // first rows of the first tables
   insights: string[];
+  analysis?: FileInsights;
+}
+
+interface FileContent {
+  text: string;
+  metadata: Record<string, any>;
+  tables: ExtractedTable[];
+  image?: LLMImage; // images go to the model as image parts, not text
+}
+
+// How much of each file goes into the analysis and response prompts
+const FILE_ANALYSIS_CHARS = 6000;
+const FILE_EXCERPT_CHARS = 1500;
+const TABLE_PREVIEW_TABLES = 3;
+const TABLE_PREVIEW_ROWS = 10;
+
+function truncate(text: string, limit: number): string {
+  return text.length > limit ? `${text.substring(0, limit)}... [truncated, ${text.length} characters in total]` : text;
+}
+
+// Source pages fetched per deep search
+const MAX_SOURCE_PAGES = 6;
+
+// What the retrieval phase reports to the client; the passage text stays server-side
+function summarizePassages(passages: Passage[]) {
+  const sources = new Map<string, { url: string; title: string; passages: number }>();
+  for (const passage of passages) {
+    const source = sources.get(passage.url) || { url: passage.url, title: passage.title, passages: 0 };
+    source.passages++;
+    sources.set(passage.url, source);
+  }
+  return { sources: Array.from(sources.values()), passages: passages.length };
 }
 
 export class HumanizedAIAgent {
-  private geminiKey: string;
-  private searchKey: string;
+  private llm: LLMProvider;
+  private search: SearchProvider | null;
   private callbacks: AgentCallbacks;
+  private signal?: AbortSignal; // cancels the run's model, search and fetch calls
   private agentName: string = "ScynV";
 
-  constructor(geminiKey: string, searchKey: string, callbacks: AgentCallbacks) {
-    this.geminiKey = geminiKey;
-    this.searchKey = searchKey;
+  constructor(llm: LLMProvider, search: SearchProvider | null, callbacks: AgentCallbacks, signal?: AbortSignal) {
+    this.llm = llm;
+    this.search = search;
     this.callbacks = callbacks;
+    this.signal = signal;
   }
 
-  async processMessage(message: string, files?: FileList): Promise<string> {
+  // The phases of processMessage, with default estimates in seconds
+  static messagePlan(hasFiles: boolean): PlannedPhase[] {
+    return [
+      { id: 'analysis', name: 'Understanding', description: 'Understanding your message and context', estimatedDuration: 3 },
+      ...(hasFiles ? [{ id: 'file_processing', name: 'File Processing', description: 'Processing your files and extracting insights', estimatedDuration: 8 }] : []),
+      { id: 'response_generation', name: 'Response', description: 'Crafting a personalized response', estimatedDuration: 5 },
+      { id: 'polishing', name: 'Polishing', description: 'Adding final touches for natural flow', estimatedDuration: 3 }
+    ];
+  }
+
+  // The phases of performDeepSearch, with default estimates in seconds
+  static deepSearchPlan(): PlannedPhase[] {
+    return [
+      { id: 'query_enhancement', name: 'Query Enhancement', description: 'Enhancing your search query for better results', estimatedDuration: 3 },
+      { id: 'deep_search', name: 'Deep Search', description: 'Searching across multiple sources', estimatedDuration: 8 },
+      { id: 'retrieval', name: 'Reading Sources', description: 'Reading the most relevant source pages', estimatedDuration: 10 },
+      { id: 'synthesis', name: 'Synthesis', description: 'Analyzing and connecting information from different sources', estimatedDuration: 6 },
+      { id: 'humanization', name: 'Writing', description: 'Creating a natural, conversational response', estimatedDuration: 4 }
+    ];
+  }
+
+  async processMessage(message: string, files?: AgentFile[]): Promise<string> {
     try {
       // Phase 1: Initial Analysis
       this.callbacks.onPhaseStart('analysis', 'Understanding your message and context');
@@ -36,7 +119,8 @@ export class HumanizedAIAgent {
       if (files && files.length > 0) {
         this.callbacks.onPhaseStart('file_processing', 'Processing your files and extracting insights');
         fileResults = await this.processFiles(files);
-        this.callbacks.onPhaseComplete('file_processing', fileResults);
+        // The client gets what was found, not the file contents
+        this.callbacks.onPhaseComplete('file_processing', fileResults.map(({ type, metadata, insights, analysis }) => ({ type, metadata, insights, analysis })));
       }
 
       // Phase 3: Enhanced Response Generation
@@ -56,7 +140,7 @@ export class HumanizedAIAgent {
     }
   }
 
-  async performDeepSearch(query: string): Promise<string> {
+  async performDeepSearch(query: string): Promise<ResearchResult> {
     try {
       // Phase 1: Query Enhancement
       this.callbacks.onPhaseStart('query_enhancement', 'Enhancing your search query for better results');
@@ -68,17 +152,35 @@ export class HumanizedAIAgent {
       const searchResults = await this.performMultiSourceSearch(enhancedQueries);
       this.callbacks.onPhaseComplete('deep_search', searchResults);
 
-      // Phase 3: Information Synthesis
+      // Phase 3: Source Retrieval
+      this.callbacks.onPhaseStart('retrieval', 'Reading the most relevant source pages');
+      const passages = await this.retrieveSourcePassages(query, searchResults);
+      this.callbacks.onPhaseComplete('retrieval', summarizePassages(passages));
+
+      // Citations point at the pages actually read; snippets only when none could be
+      const sources = passages.length
+        ? numberSources(passages)
+        : numberSources(searchResults.flatMap(group => group.results));
+
+      // Phase 4: Information Synthesis
       this.callbacks.onPhaseStart('synthesis', 'Analyzing and connecting information from different sources');
-      const synthesizedInfo = await this.synthesizeSearchResults(query, searchResults);
+      const synthesizedInfo = await this.synthesizeSearchResults(query, sources, passages);
       this.callbacks.onPhaseComplete('synthesis', synthesizedInfo);
 
-      // Phase 4: Human-like Response
+      // Phase 5: Human-like Response
       this.callbacks.onPhaseStart('humanization', 'Creating a natural, conversational response');
       const humanizedResponse = await this.humanizeSearchResponse(query, synthesizedInfo);
-      this.callbacks.onPhaseComplete('humanization', humanizedResponse);
-
-      return this.formatFinalResponse(humanizedResponse);
+      const result = toResearchResult({
+        query,
+        mode: 'deep_search',
+        queries: enhancedQueries,
+        findings: synthesizedInfo,
+        answer: humanizedResponse,
+        sources
+      });
+      this.callbacks.onPhaseComplete('humanization', { text: result.text, sources: result.sources });
+
+      return { ...result, text: this.formatFinalResponse(result.text) };
     } catch (error) {
       this.callbacks.onError(error instanceof Error ? error.message : 'Unknown error');
       throw error;
@@ -100,10 +202,10 @@ Provide analysis in this format:
 
 Keep analysis concise and practical.`;
 
-    return await this.callGemini(analysisPrompt);
+    return await this.callLLM(analysisPrompt);
   }
 
-  private async processFiles(files: FileList): Promise<FileAnalysisResult[]> {
+  private async processFiles(files: AgentFile[]): Promise<FileAnalysisResult[]> {
     const results: FileAnalysisResult[] = [];
     
     for (let i = 0; i < files.length; i++) {
@@ -112,22 +214,25 @@ Keep analysis concise and practical.`;
       
       try {
         const fileContent = await this.extractFileContent(file);
-        const analysis = await this.analyzeFileContent(file.name, fileContent, file.type);
+        const analysis = await this.analyzeFileContent(file.name, fileContent, file.type, (i / files.length) * 100);
         
         results.push({
           type: file.type,
-          content: fileContent,
+          excerpt: truncate(fileContent.text, FILE_EXCERPT_CHARS),
           metadata: {
+            id: file.id,
+            ...fileContent.metadata,
             name: file.name,
-            size: file.size,
-            lastModified: file.lastModified
+            size: file.size
           },
-          insights: analysis.insights || []
+          tables: fileContent.tables.slice(0, TABLE_PREVIEW_TABLES).map(table => ({ ...table, rows: table.rows.slice(0, TABLE_PREVIEW_ROWS) })),
+          insights: analysis.insights,
+          analysis
         });
       } catch (error) {
         results.push({
           type: file.type,
-          content: '',
+          excerpt: '',
           metadata: { name: file.name, error: 'Failed to process file' },
           insights: ['File could not be processed']
         });
@@ -137,56 +242,55 @@ Keep analysis concise and practical.`;
     return results;
   }
 
-  private async extractFileContent(file: File): Promise<string> {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      
-      reader.onload = (e) => {
-        const result = e.target?.result;
-        if (typeof result === 'string') {
-          resolve(result);
-        } else {
-          // For binary files, convert to base64 or handle appropriately
-          resolve('[Binary file content]');
-        }
-      };
-      
-      reader.onerror = () => reject(new Error('Failed to read file'));
-      
-      if (file.type.startsWith('text/') || file.name.endsWith('.txt') || file.name.endsWith('.md')) {
-        reader.readAsText(file);
-      } else if (file.type.startsWith('image/')) {
-        reader.readAsDataURL(file);
-      } else {
-        reader.readAsText(file); // Try as text first
-      }
-    });
+  private async extractFileContent(file: AgentFile): Promise<FileContent> {
+    if (isExtractable(file.name, file.type)) {
+      const document = await extractDocument(file);
+      return { text: document.text, metadata: document.metadata, tables: document.tables };
+    }
+
+    // Images and other binaries have no text layer to extract
+    if (file.type.startsWith('image/')) {
+      return { text: '', metadata: { mimeType: file.type }, tables: [], image: { mimeType: file.type, data: file.data.toString('base64') } };
+    }
+    return { text: '[Binary file content]', metadata: { mimeType: file.type }, tables: [] };
   }
 
-  private async analyzeFileContent(fileName: string, content: string, fileType: string): Promise<any> {
+  private async analyzeFileContent(fileName: string, file: FileContent, fileType: string, progress: number): Promise<FileInsights> {
+    const { text: content, metadata, tables, image } = file;
+    const structure = [
+      metadata.pageCount && `Pages: ${metadata.pageCount}`,
+      metadata.sheetNames?.length && `Sheets: ${metadata.sheetNames.join(', ')}`,
+      tables.length && `Tables: ${tables.length}`,
+      metadata.wordCount && `Words: ${metadata.wordCount}`
+    ].filter(Boolean).join('\n');
+
     const analysisPrompt = `Analyze this file content and provide insights:
 
 File: ${fileName}
 Type: ${fileType}
-Content: ${content.substring(0, 2000)}${content.length > 2000 ? '...' : ''}
+${structure ? `${structure}\n` : ''}${image ? 'Content: the attached image' : `Content: ${truncate(content, FILE_ANALYSIS_CHARS)}`}
 
-Provide:
-- Key insights about the content
-- Important data points or information
-- Potential questions the user might have
-- Suggestions for further analysis
+Return a JSON object with:
+- summary: two or three sentences on what the file is and contains
+- insights: key insights about the content
+- dataPoints: important data points or figures
+- questions: questions the user might have about it
+- suggestions: ideas for further analysis
 
 Keep insights practical and actionable.`;
 
-    const analysis = await this.callGemini(analysisPrompt);
-    
-    try {
-      return JSON.parse(analysis);
-    } catch {
-      return {
-        insights: [analysis]
-      };
+    const input = [{ role: 'user' as const, content: analysisPrompt, ...(image && { images: [image] }) }];
+    const { value, fellBack, error } = await generateStructured(this.llm, input, {
+      schema: FileInsightsSchema,
+      name: 'FileInsights',
+      signal: this.signal,
+      temperature: 0.4,
+      fallback: () => ({ summary: '', insights: [], dataPoints: [], questions: [], suggestions: [] })
+    });
+    if (fellBack) {
+      this.callbacks.onPhaseUpdate('file_processing', progress, { fallback: true, file: fileName, reason: error });
     }
+    return value;
   }
 
   private async enhanceSearchQuery(query: string): Promise<string[]> {
@@ -200,34 +304,27 @@ Make them:
 
 Return as a simple array of strings, one query per line.`;
 
-    const response = await this.callGemini(enhancementPrompt);
+    const response = await this.callLLM(enhancementPrompt);
     return response.split('\n').filter(line => line.trim()).slice(0, 5);
   }
 
-  private async performMultiSourceSearch(queries: string[]): Promise<any[]> {
+  private async performMultiSourceSearch(queries: string[]): Promise<{ query: string; results: SearchResult[] }[]> {
+    if (!this.search) {
+      throw new Error('Web search is not configured');
+    }
+
     const results = [];
     
     for (let i = 0; i < queries.length; i++) {
       this.callbacks.onPhaseUpdate('deep_search', (i / queries.length) * 100);
       
       try {
-        const searchUrl = `https://www.googleapis.com/customsearch/v1?key=${this.searchKey}&cx=${process.env.GOOGLE_SEARCH_CX || '017576662512468239146:omuauf_lfve'}&q=${encodeURIComponent(queries[i])}&num=8`;
-        
-        const response = await fetch(searchUrl);
-        const data = await response.json();
-        
-        if (data.items) {
-          results.push({
-            query: queries[i],
-            results: data.items.map((item: any) => ({
-              title: item.title,
-              snippet: item.snippet,
-              link: item.link,
-              displayLink: item.displayLink
-            }))
-          });
+        const items = await this.search.search(queries[i], { limit: 8, signal: this.signal });
+        if (items.length) {
+          results.push({ query: queries[i], results: items });
         }
       } catch (error) {
+        if (this.signal?.aborted) throw new Error('Run cancelled');
         console.error(`Search failed for query: ${queries[i]}`, error);
       }
     }
@@ -235,11 +332,42 @@ Return as a simple array of strings, one query per line.`;
     return results;
   }
 
-  private async synthesizeSearchResults(originalQuery: string, searchResults: any[]): Promise<string> {
-    const synthesisPrompt = `Synthesize information from these search results for the query: "${originalQuery}"
+  // Fetches the top unique result URLs in parallel and keeps the passages
+  // most relevant to the query; pages that fail to load are skipped.
+  private async retrieveSourcePassages(query: string, searchResults: { query: string; results: SearchResult[] }[]): Promise<Passage[]> {
+    const urls = Array.from(new Set(searchResults.flatMap(group => group.results.map(result => result.url))))
+      .slice(0, MAX_SOURCE_PAGES);
+    if (!urls.length) return [];
+
+    let finished = 0;
+    const pages = await Promise.all(urls.map(async (url): Promise<SourceDocument | null> => {
+      try {
+        const page = await fetchReadablePage(url, { signal: this.signal });
+        return { url: page.canonicalUrl, title: page.title, text: page.markdown };
+      } catch (error) {
+        console.error(`Could not read source page ${url}:`, error);
+        return null;
+      } finally {
+        finished++;
+        this.callbacks.onPhaseUpdate('retrieval', (finished / urls.length) * 80);
+      }
+    }));
+
+    const passages = selectPassages(query, pages.filter((page): page is SourceDocument => !!page));
+    this.callbacks.onPhaseUpdate('retrieval', 100);
+    return passages;
+  }
+
+  private async synthesizeSearchResults(originalQuery: string, sources: CitationSource[], passages: Passage[]): Promise<string> {
+    const sourceIds = new Map(sources.map(source => [source.url, source.id]));
+    const material = passages.length
+      ? passages.map(p => `[${sourceIds.get(p.url)}] ${p.title}\n${p.text}`).join('\n\n')
+      : formatSourceList(sources);
 
-Search Results:
-${JSON.stringify(searchResults, null, 2)}
+    const synthesisPrompt = `Synthesize information from these sources for the query: "${originalQuery}"
+
+${passages.length ? 'Passages from the source pages' : 'Search results (no source pages could be read)'}, each tagged with its source number:
+${material}
 
 Create a comprehensive synthesis that:
 - Combines information from multiple sources
@@ -247,10 +375,11 @@ Create a comprehensive synthesis that:
 - Highlights the most reliable and current information
 - Notes any conflicting information
 - Provides a balanced perspective
+- Follows every fact with the [n] number of the source it came from
 
 Write in a natural, informative style that flows well.`;
 
-    return await this.callGemini(synthesisPrompt);
+    return await this.callLLM(synthesisPrompt);
   }
 
   private async generateHumanizedResponse(message: string, analysis: any, fileResults: FileAnalysisResult[]): Promise<string> {
@@ -273,7 +402,7 @@ Response Guidelines:
 
 Write the response directly without any meta-commentary.`;
 
-    return await this.callGemini(responsePrompt);
+    return await this.callLLM(responsePrompt);
   }
 
   private async humanizeSearchResponse(query: string, synthesizedInfo: string): Promise<string> {
@@ -289,10 +418,11 @@ Make it:
 - Include specific details and examples
 - Show connections between different pieces of information
 - End with helpful next steps or related suggestions if appropriate
+- Keep the [n] source numbers right after the facts they support; never invent new numbers or add a reference list
 
 Write as if you're having a conversation, not delivering a report.`;
 
-    return await this.callGemini(humanizationPrompt);
+    return await this.callLLM(humanizationPrompt);
   }
 
   private async polishResponse(response: string): Promise<string> {
@@ -310,7 +440,7 @@ Improvements to make:
 
 Return only the polished response.`;
 
-    return await this.callGemini(polishPrompt);
+    return await this.callLLM(polishPrompt);
   }
 
   private formatFinalResponse(response: string): string {
@@ -322,23 +452,16 @@ ${response}`;
     return brandedResponse;
   }
 
-  private async callGemini(prompt: string): Promise<string> {
-    const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash-lite:generateContent?key=${this.geminiKey}`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        contents: [{ parts: [{ text: prompt }] }],
-        generationConfig: {
-          temperature: 0.8,
-          maxOutputTokens: 2048,
-          topP: 0.9,
-          topK: 40
-        }
-      })
+  private async callLLM(prompt: string, options?: GenerateOptions): Promise<string> {
+    const { text } = await this.llm.generate(prompt, {
+      temperature: 0.8,
+      maxOutputTokens: 2048,
+      topP: 0.9,
+      topK: 40,
+      signal: this.signal,
+      ...options
     });
-
-    const data = await response.json();
-    return data?.candidates?.[0]?.content?.parts?.[0]?.text || 'I apologize, but I couldn\'t generate a response at the moment. Please try again.';
+    return text || 'I apologize, but I couldn\'t generate a response at the moment. Please try again.';
   }
 
   // Utility method to detect if message needs deep search
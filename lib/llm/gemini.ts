@@ -0,0 +1,130 @@
+import { randomUUID } from 'crypto';
+import { readServerSentEvents } from '@/lib/sse';
+import { GenerateOptions, GenerateResult, LLMInput, LLMMessage, LLMProvider, StreamChunk, TokenUsage, ToolCall, toMessages } from './types';
+
+const GEMINI_BASE_URL = 'https://generativelanguage.googleapis.com/v1beta/models';
+
+export class GeminiProvider implements LLMProvider {
+  readonly name = 'gemini';
+  readonly model: string;
+  private apiKey: string;
+
+  constructor(apiKey: string, model: string = 'gemini-2.0-flash-lite') {
+    this.apiKey = apiKey;
+    this.model = model;
+  }
+
+  async generate(input: LLMInput, options: GenerateOptions = {}): Promise<GenerateResult> {
+    const response = await fetch(`${GEMINI_BASE_URL}/${this.model}:generateContent?key=${this.apiKey}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(this.buildBody(input, options)),
+      signal: options.signal
+    });
+
+    if (!response.ok) {
+      throw new Error(`Gemini request failed with status ${response.status}`);
+    }
+
+    const data = await response.json();
+    const toolCalls = extractToolCalls(data);
+    return {
+      text: extractText(data),
+      ...(toolCalls.length && { toolCalls }),
+      usage: extractUsage(data)
+    };
+  }
+
+  async *stream(input: LLMInput, options: GenerateOptions = {}): AsyncGenerator<StreamChunk> {
+    const response = await fetch(`${GEMINI_BASE_URL}/${this.model}:streamGenerateContent?alt=sse&key=${this.apiKey}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(this.buildBody(input, options)),
+      signal: options.signal
+    });
+
+    if (!response.ok || !response.body) {
+      throw new Error(`Gemini stream failed with status ${response.status}`);
+    }
+
+    for await (const event of readServerSentEvents(response.body)) {
+      const data = JSON.parse(event.data);
+      yield {
+        text: extractText(data),
+        usage: extractUsage(data)
+      };
+    }
+  }
+
+  private buildBody(input: LLMInput, options: GenerateOptions) {
+    const messages = toMessages(input);
+    const system = [options.system, ...messages.filter(m => m.role === 'system').map(m => m.content)]
+      .filter(Boolean)
+      .join('\n\n');
+
+    return {
+      contents: toContents(messages.filter(m => m.role !== 'system')),
+      ...(system && { systemInstruction: { parts: [{ text: system }] } }),
+      ...(options.tools?.length && {
+        tools: [{ functionDeclarations: options.tools.map(({ name, description, parameters }) => ({ name, description, parameters })) }]
+      }),
+      generationConfig: {
+        temperature: options.temperature,
+        maxOutputTokens: options.maxOutputTokens,
+        topP: options.topP,
+        topK: options.topK,
+        ...(options.json && { responseMimeType: 'application/json' })
+      }
+    };
+  }
+}
+
+// Gemini has no tool role: calls are model parts and their results are
+// functionResponse parts of the next user turn, one turn for a batch of calls
+function toContents(messages: LLMMessage[]) {
+  const contents: Array<{ role: string; parts: any[] }> = [];
+  for (const m of messages) {
+    if (m.role === 'tool') {
+      const part = { functionResponse: { name: m.name, response: { content: m.content } } };
+      const previous = contents[contents.length - 1];
+      if (previous?.role === 'user' && previous.parts.every(p => p.functionResponse)) {
+        previous.parts.push(part);
+      } else {
+        contents.push({ role: 'user', parts: [part] });
+      }
+    } else if (m.role === 'assistant') {
+      const calls = (m.toolCalls || []).map(call => ({ functionCall: { name: call.name, args: call.arguments } }));
+      contents.push({ role: 'model', parts: [...(m.content ? [{ text: m.content }] : []), ...calls] });
+    } else {
+      const images = (m.images || []).map(image => ({ inlineData: { mimeType: image.mimeType, data: image.data } }));
+      contents.push({ role: 'user', parts: [{ text: m.content }, ...images] });
+    }
+  }
+  return contents;
+}
+
+function extractText(data: any): string {
+  const parts = data?.candidates?.[0]?.content?.parts || [];
+  return parts.map((part: any) => part.text || '').join('');
+}
+
+function extractToolCalls(data: any): ToolCall[] {
+  const parts = data?.candidates?.[0]?.content?.parts || [];
+  return parts
+    .filter((part: any) => part.functionCall?.name)
+    .map((part: any) => ({
+      id: part.functionCall.id || randomUUID(),
+      name: part.functionCall.name,
+      arguments: part.functionCall.args || {}
+    }));
+}
+
+function extractUsage(data: any): TokenUsage | undefined {
+  const usage = data?.usageMetadata;
+  if (!usage) return undefined;
+  return {
+    promptTokens: usage.promptTokenCount || 0,
+    completionTokens: usage.candidatesTokenCount || 0,
+    totalTokens: usage.totalTokenCount || 0
+  };
+}
@@ -0,0 +1,34 @@
+import { GeminiProvider } from './gemini';
+import { MockProvider } from './mock';
+import { OpenAICompatibleProvider } from './openai';
+import { LLMProvider } from './types';
+
+export * from './types';
+export { generateStructured, parseJsonResponse } from './structured';
+export type { StructuredOptions, StructuredResult } from './structured';
+export { validateToolArguments } from './tools';
+export { GeminiProvider, MockProvider, OpenAICompatibleProvider };
+
+// Picks the provider from LLM_PROVIDER (gemini | openai | mock, default gemini).
+// Returns null when the selected provider is missing credentials so callers
+// can fall back to demo mode.
+export function createLLMProvider(env: NodeJS.ProcessEnv = process.env): LLMProvider | null {
+  const provider = (env.LLM_PROVIDER || 'gemini').toLowerCase();
+
+  switch (provider) {
+    case 'gemini': {
+      const apiKey = env.GEMINI_KEY_1 || env.GEMINI_KEY_2;
+      return apiKey ? new GeminiProvider(apiKey, env.GEMINI_MODEL || undefined) : null;
+    }
+    case 'openai': {
+      // Local OpenAI-compatible servers usually don't need a key, but do need a base URL
+      const apiKey = env.OPENAI_API_KEY || '';
+      if (!apiKey && !env.OPENAI_BASE_URL) return null;
+      return new OpenAICompatibleProvider(apiKey, env.OPENAI_MODEL || undefined, env.OPENAI_BASE_URL || undefined);
+    }
+    case 'mock':
+      return new MockProvider();
+    default:
+      throw new Error(`Unknown LLM_PROVIDER: ${provider}`);
+  }
+}
@@ -0,0 +1,49 @@
+import { GenerateOptions, GenerateResult, LLMInput, LLMMessage, LLMProvider, StreamChunk, ToolCall, estimateTokens, toMessages } from './types';
+
+// Return an object to simulate a model that calls tools
+type MockResponder = (messages: LLMMessage[], options: GenerateOptions) => string | { text?: string; toolCalls?: ToolCall[] };
+
+// Deterministic, network-free provider for local development and tests
+export class MockProvider implements LLMProvider {
+  readonly name = 'mock';
+  readonly model = 'mock';
+  private responder: MockResponder;
+
+  constructor(responder?: MockResponder) {
+    this.responder = responder || defaultResponder;
+  }
+
+  async generate(input: LLMInput, options: GenerateOptions = {}): Promise<GenerateResult> {
+    const messages = toMessages(input);
+    const reply = this.responder(messages, options);
+    const text = typeof reply === 'string' ? reply : reply.text || '';
+    const toolCalls = typeof reply === 'string' ? undefined : reply.toolCalls;
+    return { text, ...(toolCalls?.length && { toolCalls }), usage: usageFor(messages, text) };
+  }
+
+  async *stream(input: LLMInput, options: GenerateOptions = {}): AsyncGenerator<StreamChunk> {
+    const messages = toMessages(input);
+    const reply = this.responder(messages, options);
+    const text = typeof reply === 'string' ? reply : reply.text || '';
+    // Emit word by word (keeping whitespace) to mimic token streaming
+    const pieces = text.match(/\S+\s*|\s+/g) || [];
+
+    for (const piece of pieces) {
+      if (options.signal?.aborted) return;
+      yield { text: piece };
+    }
+    yield { text: '', usage: usageFor(messages, text) };
+  }
+}
+
+function defaultResponder(messages: LLMMessage[], options: GenerateOptions): string {
+  if (options.json) return '{}';
+  const lastUser = [...messages].reverse().find(m => m.role === 'user');
+  return `Mock response to: ${(lastUser?.content || '').trim().substring(0, 200)}`;
+}
+
+function usageFor(messages: LLMMessage[], text: string) {
+  const promptTokens = messages.reduce((sum, m) => sum + estimateTokens(m.content), 0);
+  const completionTokens = estimateTokens(text);
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+}
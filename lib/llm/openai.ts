@@ -0,0 +1,139 @@
+import { readServerSentEvents } from '@/lib/sse';
+import { GenerateOptions, GenerateResult, LLMInput, LLMMessage, LLMProvider, StreamChunk, TokenUsage, ToolCall, toMessages } from './types';
+
+// Works with any endpoint that speaks the OpenAI chat completions API
+// (OpenAI itself, OpenRouter, vLLM, Ollama, LM Studio, ...)
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai';
+  readonly model: string;
+  private apiKey: string;
+  private baseUrl: string;
+
+  constructor(apiKey: string, model: string = 'gpt-4o-mini', baseUrl: string = 'https://api.openai.com/v1') {
+    this.apiKey = apiKey;
+    this.model = model;
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  async generate(input: LLMInput, options: GenerateOptions = {}): Promise<GenerateResult> {
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: this.headers(),
+      body: JSON.stringify(this.buildBody(input, options, false)),
+      signal: options.signal
+    });
+
+    if (!response.ok) {
+      throw new Error(`OpenAI-compatible request failed with status ${response.status}`);
+    }
+
+    const data = await response.json();
+    const toolCalls = extractToolCalls(data);
+    return {
+      text: data?.choices?.[0]?.message?.content || '',
+      ...(toolCalls.length && { toolCalls }),
+      usage: extractUsage(data)
+    };
+  }
+
+  async *stream(input: LLMInput, options: GenerateOptions = {}): AsyncGenerator<StreamChunk> {
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: this.headers(),
+      body: JSON.stringify(this.buildBody(input, options, true)),
+      signal: options.signal
+    });
+
+    if (!response.ok || !response.body) {
+      throw new Error(`OpenAI-compatible stream failed with status ${response.status}`);
+    }
+
+    for await (const event of readServerSentEvents(response.body)) {
+      if (event.data === '[DONE]') break;
+      const data = JSON.parse(event.data);
+      yield {
+        text: data?.choices?.[0]?.delta?.content || '',
+        usage: extractUsage(data)
+      };
+    }
+  }
+
+  private headers() {
+    return {
+      'Content-Type': 'application/json',
+      ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` })
+    };
+  }
+
+  private buildBody(input: LLMInput, options: GenerateOptions, stream: boolean) {
+    const messages = toMessages(input).map(toChatMessage);
+    return {
+      model: this.model,
+      messages: options.system ? [{ role: 'system', content: options.system }, ...messages] : messages,
+      temperature: options.temperature,
+      max_tokens: options.maxOutputTokens,
+      top_p: options.topP,
+      ...(options.tools?.length && {
+        tools: options.tools.map(({ name, description, parameters }) => ({ type: 'function', function: { name, description, parameters } }))
+      }),
+      ...(options.json && { response_format: { type: 'json_object' } }),
+      ...(stream && { stream: true, stream_options: { include_usage: true } })
+    };
+  }
+}
+
+function toChatMessage(m: LLMMessage) {
+  if (m.role === 'tool') {
+    return { role: 'tool', tool_call_id: m.toolCallId, content: m.content };
+  }
+  if (m.role === 'assistant' && m.toolCalls?.length) {
+    return {
+      role: 'assistant',
+      content: m.content || null,
+      tool_calls: m.toolCalls.map(call => ({
+        id: call.id,
+        type: 'function',
+        function: { name: call.name, arguments: JSON.stringify(call.arguments) }
+      }))
+    };
+  }
+  if (m.images?.length) {
+    return {
+      role: m.role,
+      content: [
+        { type: 'text', text: m.content },
+        ...m.images.map(image => ({ type: 'image_url', image_url: { url: `data:${image.mimeType};base64,${image.data}` } }))
+      ]
+    };
+  }
+  return { role: m.role, content: m.content };
+}
+
+function extractToolCalls(data: any): ToolCall[] {
+  const calls = data?.choices?.[0]?.message?.tool_calls || [];
+  return calls
+    .filter((call: any) => call.type === 'function' && call.function?.name)
+    .map((call: any) => ({ id: call.id, name: call.function.name, arguments: parseArguments(call.function.arguments) }));
+}
+
+// Arguments arrive as a JSON string the model wrote; a malformed one becomes
+// {} and fails argument validation instead of the whole request
+function parseArguments(raw: unknown): Record<string, unknown> {
+  if (typeof raw !== 'string') return {};
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+function extractUsage(data: any): TokenUsage | undefined {
+  const usage = data?.usage;
+  if (!usage) return undefined;
+  return {
+    promptTokens: usage.prompt_tokens || 0,
+    completionTokens: usage.completion_tokens || 0,
+    totalTokens: usage.total_tokens || 0
+  };
+}
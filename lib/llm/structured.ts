@@ -0,0 +1,69 @@
+import { ZodError, ZodType, ZodTypeDef } from 'zod';
+import { GenerateOptions, LLMInput, LLMMessage, LLMProvider, toMessages } from './types';
+
+export interface StructuredOptions<T> extends Omit<GenerateOptions, 'json'> {
+  schema: ZodType<T, ZodTypeDef, unknown>;
+  name: string; // shown in logs and fallback reports, e.g. "ResearchPlan"
+  fallback: () => T;
+  retries?: number; // extra attempts after the first, each told what was wrong
+}
+
+export interface StructuredResult<T> {
+  value: T;
+  attempts: number;
+  fellBack: boolean;
+  error?: string; // why the last attempt was rejected, when falling back
+}
+
+const DEFAULT_RETRIES = 2;
+
+// Asks for JSON, validates it against the schema and retries with the
+// validation error fed back. Never throws for bad output: after the last
+// attempt it returns the fallback with fellBack set, so callers can report it.
+// Provider errors (network, auth, abort) still propagate.
+export async function generateStructured<T>(llm: LLMProvider, input: LLMInput, options: StructuredOptions<T>): Promise<StructuredResult<T>> {
+  const { schema, name, fallback, retries = DEFAULT_RETRIES, ...generateOptions } = options;
+  const messages: LLMMessage[] = [...toMessages(input)];
+  let error = '';
+
+  for (let attempt = 1; attempt <= retries + 1; attempt++) {
+    const { text } = await llm.generate(messages, { ...generateOptions, json: true });
+
+    try {
+      const value = schema.parse(parseJsonResponse(text));
+      return { value, attempts: attempt, fellBack: false };
+    } catch (e) {
+      error = describeError(e);
+      messages.push(
+        { role: 'assistant', content: text },
+        { role: 'user', content: `That response was rejected: ${error}\nReply with only the corrected JSON object, no prose and no code fences.` }
+      );
+    }
+  }
+
+  console.warn(`${name}: no valid structured output after ${retries + 1} attempts, using fallback (${error})`);
+  return { value: fallback(), attempts: retries + 1, fellBack: true, error };
+}
+
+// Models often wrap JSON in ```json fences or add a sentence around it; take
+// the outermost object or array.
+export function parseJsonResponse(text: string): unknown {
+  const unfenced = text.replace(/```(?:json)?\s*([\s\S]*?)```/i, '$1').trim();
+  try {
+    return JSON.parse(unfenced);
+  } catch {
+    const start = unfenced.search(/[[{]/);
+    const end = Math.max(unfenced.lastIndexOf('}'), unfenced.lastIndexOf(']'));
+    if (start === -1 || end <= start) throw new SyntaxError('Response contains no JSON object');
+    return JSON.parse(unfenced.slice(start, end + 1));
+  }
+}
+
+function describeError(error: unknown): string {
+  if (error instanceof ZodError) {
+    return error.issues.slice(0, 5)
+      .map(issue => `${issue.path.length ? issue.path.join('.') : '(root)'}: ${issue.message}`)
+      .join('; ');
+  }
+  return error instanceof Error ? `invalid JSON (${error.message})` : 'invalid JSON';
+}
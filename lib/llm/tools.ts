@@ -0,0 +1,44 @@
+import { JsonSchema, ToolDefinition } from './types';
+
+// Checks model-supplied arguments against a tool's declared parameters. Models
+// do send wrong types or skip required fields, and the error goes back to
+// them as the tool result so they can correct the call.
+export function validateToolArguments(tool: ToolDefinition, args: Record<string, unknown>): string | null {
+  return validateValue(tool.parameters, args, 'arguments');
+}
+
+function validateValue(schema: JsonSchema, value: unknown, path: string): string | null {
+  switch (schema.type) {
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) return `${path} must be an object`;
+      const record = value as Record<string, unknown>;
+      for (const key of schema.required || []) {
+        if (record[key] === undefined || record[key] === null) return `${path}.${key} is required`;
+      }
+      for (const [key, child] of Object.entries(schema.properties || {})) {
+        if (record[key] === undefined || record[key] === null) continue;
+        const error = validateValue(child, record[key], `${path}.${key}`);
+        if (error) return error;
+      }
+      return null;
+    }
+    case 'array': {
+      if (!Array.isArray(value)) return `${path} must be an array`;
+      if (!schema.items) return null;
+      for (let i = 0; i < value.length; i++) {
+        const error = validateValue(schema.items, value[i], `${path}[${i}]`);
+        if (error) return error;
+      }
+      return null;
+    }
+    case 'integer':
+      return Number.isInteger(value) ? null : `${path} must be an integer`;
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value) ? null : `${path} must be a number`;
+    case 'boolean':
+      return typeof value === 'boolean' ? null : `${path} must be a boolean`;
+    case 'string':
+      if (typeof value !== 'string') return `${path} must be a string`;
+      return schema.enum && !schema.enum.includes(value) ? `${path} must be one of ${schema.enum.join(', ')}` : null;
+  }
+}
@@ -0,0 +1,84 @@
+export type LLMRole = 'system' | 'user' | 'assistant' | 'tool';
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+export interface LLMImage {
+  mimeType: string;
+  data: string; // base64
+}
+
+export interface LLMMessage {
+  role: LLMRole;
+  content: string;
+  images?: LLMImage[]; // user turns: pictures sent alongside the text
+  toolCalls?: ToolCall[]; // assistant turns that requested tools
+  toolCallId?: string; // tool turns: the call this result answers
+  name?: string; // tool turns: the tool that produced it
+}
+
+// The JSON Schema subset both Gemini function declarations and OpenAI tools accept
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  enum?: string[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+}
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: JsonSchema & { type: 'object' };
+}
+
+// A bare string is treated as a single user turn
+export type LLMInput = string | LLMMessage[];
+
+export interface GenerateOptions {
+  system?: string;
+  temperature?: number;
+  maxOutputTokens?: number;
+  topP?: number;
+  topK?: number;
+  json?: boolean; // ask the provider for a JSON-only response
+  tools?: ToolDefinition[]; // functions the model may call instead of answering
+  signal?: AbortSignal;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface GenerateResult {
+  text: string;
+  toolCalls?: ToolCall[]; // set when the model wants tools run before it answers
+  usage?: TokenUsage;
+}
+
+export interface StreamChunk {
+  text: string; // incremental text since the previous chunk
+  usage?: TokenUsage;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  generate(input: LLMInput, options?: GenerateOptions): Promise<GenerateResult>;
+  stream(input: LLMInput, options?: GenerateOptions): AsyncGenerator<StreamChunk>;
+}
+
+export function toMessages(input: LLMInput): LLMMessage[] {
+  return typeof input === 'string' ? [{ role: 'user', content: input }] : input;
+}
+
+// Rough heuristic (~4 characters per token) used where the provider does not report usage
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
@@ -0,0 +1,76 @@
+// The small Markdown subset reports are written in, parsed once so every
+// output format renders the same structure.
+export interface InlineRun {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  href?: string;
+  citation?: number;
+}
+
+export type Block =
+  | { type: 'heading'; runs: InlineRun[] }
+  | { type: 'paragraph'; runs: InlineRun[] }
+  | { type: 'list'; ordered: boolean; items: InlineRun[][] };
+
+const INLINE_PATTERN = /\*\*(.+?)\*\*|\*(.+?)\*|\[([^\]]+)\]\((https?:\/\/[^)\s]+)\)|\[(\d+)\]/g;
+
+export function parseInline(text: string): InlineRun[] {
+  const runs: InlineRun[] = [];
+  let last = 0;
+  for (const match of Array.from(text.matchAll(INLINE_PATTERN))) {
+    if (match.index! > last) runs.push({ text: text.slice(last, match.index) });
+    const [whole, bold, italic, linkText, href, citation] = match;
+    if (bold !== undefined) runs.push({ text: bold, bold: true });
+    else if (italic !== undefined) runs.push({ text: italic, italic: true });
+    else if (href !== undefined) runs.push({ text: linkText, href });
+    else runs.push({ text: whole, citation: Number(citation) });
+    last = match.index! + whole.length;
+  }
+  if (last < text.length) runs.push({ text: text.slice(last) });
+  return runs;
+}
+
+export function parseBlocks(markdown: string): Block[] {
+  const blocks: Block[] = [];
+  let paragraph: string[] = [];
+  let list: { ordered: boolean; items: string[] } | null = null;
+
+  const flush = () => {
+    if (paragraph.length) blocks.push({ type: 'paragraph', runs: parseInline(paragraph.join(' ')) });
+    if (list) blocks.push({ type: 'list', ordered: list.ordered, items: list.items.map(parseInline) });
+    paragraph = [];
+    list = null;
+  };
+
+  for (const rawLine of markdown.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    const heading = line.match(/^#{1,6}\s+(.*)$/);
+    const bullet = line.match(/^[-*•]\s+(.*)$/);
+    const numbered = line.match(/^\d+[.)]\s+(.*)$/);
+
+    if (!line) {
+      flush();
+    } else if (heading) {
+      flush();
+      blocks.push({ type: 'heading', runs: parseInline(heading[1]) });
+    } else if (bullet || numbered) {
+      const ordered = !!numbered;
+      if (paragraph.length || (list && list.ordered !== ordered)) flush();
+      if (!list) list = { ordered, items: [] };
+      list.items.push((bullet || numbered)![1]);
+    } else if (list && /^\s{2,}/.test(rawLine)) {
+      // Indented continuation of the previous item
+      list.items[list.items.length - 1] += ` ${line}`;
+    } else {
+      if (list) flush();
+      paragraph.push(line);
+    }
+  }
+  flush();
+  return blocks;
+}
+
+export function plainText(runs: InlineRun[]): string {
+  return runs.map(run => run.text).join('');
+}
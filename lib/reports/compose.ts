@@ -0,0 +1,86 @@
+import { z } from 'zod';
+import { formatSourceList, resolveCitationsIn } from '../citations';
+import { LLMProvider, generateStructured } from '../llm';
+import { Report, ReportSection, ResearchRun } from './types';
+
+const MAX_SECTIONS = 8;
+
+// Turns a finished run into a titled report with an executive summary,
+// sections and a bibliography of the sources actually cited. Falls back to a
+// fixed layout when no LLM is available or its output can't be used.
+export async function composeReport(run: ResearchRun, llm: LLMProvider | null): Promise<Report> {
+  const draft = llm
+    ? await draftWithLLM(run, llm).catch(error => {
+      console.error('Report drafting failed, using the plain layout:', error);
+      return fallbackDraft(run);
+    })
+    : fallbackDraft(run);
+
+  const { texts, sources } = resolveCitationsIn([draft.summary, ...draft.sections.map(s => s.body)], run.sources);
+  const [summary, ...bodies] = texts;
+
+  return {
+    title: draft.title,
+    query: run.query,
+    createdAt: run.createdAt,
+    summary,
+    sections: draft.sections.map((section, i) => ({ heading: section.heading, body: bodies[i] })),
+    sources
+  };
+}
+
+const ReportDraftSchema = z.object({
+  title: z.string().trim().min(1),
+  summary: z.string().trim().min(1),
+  sections: z.array(z.object({
+    heading: z.string().trim().min(1),
+    body: z.string().trim().min(1)
+  })).min(1).transform(sections => sections.slice(0, MAX_SECTIONS))
+});
+
+type ReportDraft = z.infer<typeof ReportDraftSchema>;
+
+async function draftWithLLM(run: ResearchRun, llm: LLMProvider): Promise<ReportDraft> {
+  const prompt = `Write a structured research report.
+
+Research question: "${run.query}"
+
+Findings:
+${run.findings}
+
+Final answer given to the user:
+${run.answer}
+
+Numbered sources:
+${formatSourceList(run.sources)}
+
+Return a JSON object with:
+- title: a specific, descriptive report title (not the question verbatim)
+- summary: an executive summary of 3-5 sentences
+- sections: 3-6 objects with "heading" and "body"; bodies are Markdown using only paragraphs, "-" or "1." lists, **bold**, *italic* and ### subheadings
+
+Cite facts inline with the [n] numbers of the sources above, right after the fact. Use only those numbers and do not add a reference list; one is generated.`;
+
+  const { value } = await generateStructured(llm, prompt, {
+    schema: ReportDraftSchema,
+    name: 'ReportDraft',
+    temperature: 0.3,
+    maxOutputTokens: 4096,
+    fallback: () => fallbackDraft(run)
+  });
+  return value;
+}
+
+function fallbackDraft(run: ResearchRun): ReportDraft {
+  const [summary = run.answer, ...rest] = run.answer.split(/\n{2,}/).map(p => p.trim()).filter(Boolean);
+  const sections: ReportSection[] = [];
+  if (rest.length) sections.push({ heading: 'Discussion', body: rest.join('\n\n') });
+  if (run.findings.trim()) sections.push({ heading: 'Detailed findings', body: run.findings });
+  if (run.queries.length) sections.push({ heading: 'Methodology', body: `Searches run:\n\n${run.queries.map(q => `- ${q}`).join('\n')}` });
+
+  return {
+    title: run.query.charAt(0).toUpperCase() + run.query.slice(1),
+    summary,
+    sections
+  };
+}
@@ -0,0 +1,90 @@
+import { AlignmentType, Document, ExternalHyperlink, HeadingLevel, LevelFormat, Packer, Paragraph, ParagraphChild, TextRun } from 'docx';
+import { Block, InlineRun, parseBlocks, parseInline } from './blocks';
+import { formatDate } from './markdown';
+import { Report } from './types';
+
+const ORDERED_LIST = 'ordered-list';
+
+export async function renderDocx(report: Report): Promise<Buffer> {
+  // Each ordered list restarts at 1 through its own numbering instance
+  let listInstance = 0;
+  const blocks = (markdown: string) => parseBlocks(markdown).flatMap(block => renderBlock(block, ++listInstance));
+
+  const children: Paragraph[] = [
+    new Paragraph({ heading: HeadingLevel.TITLE, children: renderRuns(parseInline(report.title)) }),
+    new Paragraph({
+      children: [
+        new TextRun({ text: `Research question: ${report.query}`, italics: true, color: '6B6473' }),
+        new TextRun({ text: `Generated ${formatDate(report.createdAt)}`, color: '6B6473', break: 1 })
+      ]
+    }),
+    new Paragraph({ heading: HeadingLevel.HEADING_1, text: 'Executive summary' }),
+    ...blocks(report.summary)
+  ];
+
+  for (const section of report.sections) {
+    children.push(new Paragraph({ heading: HeadingLevel.HEADING_1, children: renderRuns(parseInline(section.heading)) }));
+    children.push(...blocks(section.body));
+  }
+
+  if (report.sources.length) {
+    children.push(new Paragraph({ heading: HeadingLevel.HEADING_1, text: 'Sources' }));
+    for (const source of report.sources) {
+      children.push(new Paragraph({
+        spacing: { after: 80 },
+        children: [
+          new TextRun(`[${source.id}] ${source.title} `),
+          new ExternalHyperlink({ link: source.url, children: [new TextRun({ text: source.url, style: 'Hyperlink' })] })
+        ]
+      }));
+    }
+  }
+
+  const doc = new Document({
+    title: report.title,
+    description: report.query,
+    numbering: {
+      config: [{
+        reference: ORDERED_LIST,
+        levels: [{
+          level: 0,
+          format: LevelFormat.DECIMAL,
+          text: '%1.',
+          alignment: AlignmentType.START,
+          style: { paragraph: { indent: { left: 720, hanging: 360 } } }
+        }]
+      }]
+    },
+    sections: [{ children }]
+  });
+
+  return Packer.toBuffer(doc);
+}
+
+function renderBlock(block: Block, listInstance: number): Paragraph[] {
+  switch (block.type) {
+    case 'heading':
+      return [new Paragraph({ heading: HeadingLevel.HEADING_2, children: renderRuns(block.runs) })];
+    case 'paragraph':
+      return [new Paragraph({ spacing: { after: 120 }, children: renderRuns(block.runs) })];
+    case 'list':
+      return block.items.map(item => new Paragraph({
+        ...(block.ordered
+          ? { numbering: { reference: ORDERED_LIST, level: 0, instance: listInstance } }
+          : { bullet: { level: 0 } }),
+        children: renderRuns(item)
+      }));
+  }
+}
+
+function renderRuns(runs: InlineRun[]): ParagraphChild[] {
+  return runs.map(run => {
+    if (run.citation !== undefined) {
+      return new TextRun({ text: `[${run.citation}]`, superScript: true });
+    }
+    if (run.href) {
+      return new ExternalHyperlink({ link: run.href, children: [new TextRun({ text: run.text, style: 'Hyperlink', bold: run.bold, italics: run.italic })] });
+    }
+    return new TextRun({ text: run.text, bold: run.bold, italics: run.italic });
+  });
+}
@@ -0,0 +1,83 @@
+import { Block, InlineRun, parseBlocks } from './blocks';
+import { formatDate } from './markdown';
+import { Report } from './types';
+
+const STYLES = `
+  body { font-family: Georgia, 'Times New Roman', serif; max-width: 46rem; margin: 3rem auto; padding: 0 1.25rem; color: #1f1f24; line-height: 1.6; }
+  h1 { font-size: 2rem; line-height: 1.25; margin-bottom: 0.25rem; }
+  h2 { font-size: 1.35rem; margin-top: 2.25rem; border-bottom: 1px solid #e3dde6; padding-bottom: 0.25rem; }
+  h3 { font-size: 1.1rem; margin-top: 1.5rem; }
+  .meta { color: #6b6473; font-size: 0.9rem; }
+  .summary { background: #f7f3f8; border-left: 4px solid #6B1B5C; padding: 0.75rem 1rem; }
+  sup a, a { color: #6B1B5C; }
+  sup a { text-decoration: none; }
+  ol.sources { font-size: 0.9rem; word-break: break-word; }
+  @media print { body { margin: 0 auto; } a { color: inherit; } }
+`;
+
+export function renderHtml(report: Report): string {
+  const sections = report.sections.map(section =>
+    `<section>\n<h2>${escapeHtml(section.heading)}</h2>\n${renderBlocks(parseBlocks(section.body))}\n</section>`
+  ).join('\n');
+
+  const sources = report.sources.length
+    ? `<section>\n<h2>Sources</h2>\n<ol class="sources">\n${report.sources.map(source =>
+      `<li id="source-${source.id}"><a href="${escapeHtml(source.url)}">${escapeHtml(source.title)}</a><br><span class="meta">${escapeHtml(source.url)}</span></li>`
+    ).join('\n')}\n</ol>\n</section>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(report.title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<header>
+<h1>${escapeHtml(report.title)}</h1>
+<p class="meta">Research question: ${escapeHtml(report.query)}<br>Generated ${formatDate(report.createdAt)}</p>
+</header>
+<section class="summary">
+<h2>Executive summary</h2>
+${renderBlocks(parseBlocks(report.summary))}
+</section>
+${sections}
+${sources}
+</body>
+</html>
+`;
+}
+
+function renderBlocks(blocks: Block[]): string {
+  return blocks.map(block => {
+    switch (block.type) {
+      case 'heading':
+        return `<h3>${renderRuns(block.runs)}</h3>`;
+      case 'paragraph':
+        return `<p>${renderRuns(block.runs)}</p>`;
+      case 'list': {
+        const tag = block.ordered ? 'ol' : 'ul';
+        return `<${tag}>\n${block.items.map(item => `<li>${renderRuns(item)}</li>`).join('\n')}\n</${tag}>`;
+      }
+    }
+  }).join('\n');
+}
+
+function renderRuns(runs: InlineRun[]): string {
+  return runs.map(run => {
+    if (run.citation !== undefined) {
+      return `<sup><a href="#source-${run.citation}">[${run.citation}]</a></sup>`;
+    }
+    let html = escapeHtml(run.text);
+    if (run.bold) html = `<strong>${html}</strong>`;
+    if (run.italic) html = `<em>${html}</em>`;
+    if (run.href) html = `<a href="${escapeHtml(run.href)}">${html}</a>`;
+    return html;
+  }).join('');
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
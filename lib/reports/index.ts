@@ -0,0 +1,40 @@
+import { renderDocx } from './docx';
+import { renderHtml } from './html';
+import { renderMarkdown } from './markdown';
+import { renderPdf } from './pdf';
+import { Report, ReportFormat } from './types';
+
+export * from './types';
+export { composeReport } from './compose';
+export { toResearchResult } from './run';
+export { getReportStore, isValidReportId, ReportStore } from './store';
+export type { StoredReport } from './store';
+
+export const REPORT_CONTENT_TYPES: Record<ReportFormat, string> = {
+  md: 'text/markdown; charset=utf-8',
+  html: 'text/html; charset=utf-8',
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+};
+
+export function isReportFormat(format: string): format is ReportFormat {
+  return Object.prototype.hasOwnProperty.call(REPORT_CONTENT_TYPES, format);
+}
+
+export async function renderReport(report: Report, format: ReportFormat): Promise<Buffer> {
+  switch (format) {
+    case 'md':
+      return Buffer.from(renderMarkdown(report));
+    case 'html':
+      return Buffer.from(renderHtml(report));
+    case 'pdf':
+      return renderPdf(report);
+    case 'docx':
+      return renderDocx(report);
+  }
+}
+
+// Filename stem for downloads, e.g. "solar-panel-efficiency-2024"
+export function reportSlug(report: Pick<Report, 'title'>): string {
+  return report.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 80) || 'report';
+}
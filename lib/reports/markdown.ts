@@ -0,0 +1,24 @@
+import { Report } from './types';
+
+export function renderMarkdown(report: Report): string {
+  const parts = [
+    `# ${report.title}`,
+    `*Research question: ${report.query}*  \nGenerated ${formatDate(report.createdAt)}`,
+    `## Executive summary\n\n${report.summary}`,
+    ...report.sections.map(section => `## ${section.heading}\n\n${demoteHeadings(section.body)}`)
+  ];
+  if (report.sources.length) {
+    parts.push(`## Sources\n\n${report.sources.map(source => `${source.id}. [${source.title}](${source.url})`).join('\n')}`);
+  }
+  return `${parts.join('\n\n')}\n`;
+}
+
+export function formatDate(iso: string): string {
+  const date = new Date(iso);
+  return Number.isNaN(date.getTime()) ? iso : date.toISOString().slice(0, 10);
+}
+
+// Section bodies sit under a level-2 heading, so their own headings start at 3
+function demoteHeadings(body: string): string {
+  return body.replace(/^#{1,6}\s+/gm, '### ');
+}
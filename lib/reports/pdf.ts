@@ -0,0 +1,242 @@
+import { PDFDocument, PDFFont, PDFPage, RGB, StandardFonts, rgb } from 'pdf-lib';
+import { Block, InlineRun, parseBlocks, parseInline } from './blocks';
+import { formatDate } from './markdown';
+import { Report } from './types';
+
+const PAGE_WIDTH = 595.28; // A4 in points
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 56;
+const BODY_SIZE = 10.5;
+const TEXT_COLOR = rgb(0.12, 0.12, 0.14);
+const MUTED_COLOR = rgb(0.42, 0.39, 0.45);
+const ACCENT_COLOR = rgb(0.42, 0.11, 0.36);
+
+// The standard 14 fonts only cover WinAnsi; anything else is substituted
+const WIN_ANSI_EXTRA = '€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ';
+
+interface Fonts {
+  regular: PDFFont;
+  bold: PDFFont;
+  italic: PDFFont;
+  boldItalic: PDFFont;
+}
+
+interface Piece {
+  text: string;
+  font: PDFFont;
+  size: number;
+  color: RGB;
+  rise: number;
+  width: number;
+}
+
+interface TextStyle {
+  size?: number;
+  bold?: boolean;
+  color?: RGB;
+  indent?: number;
+  prefix?: string;
+}
+
+export async function renderPdf(report: Report): Promise<Buffer> {
+  const doc = await PDFDocument.create();
+  doc.setTitle(sanitize(report.title));
+  doc.setSubject(sanitize(report.query));
+  doc.setCreationDate(new Date(report.createdAt));
+
+  const fonts: Fonts = {
+    regular: await doc.embedFont(StandardFonts.Helvetica),
+    bold: await doc.embedFont(StandardFonts.HelveticaBold),
+    italic: await doc.embedFont(StandardFonts.HelveticaOblique),
+    boldItalic: await doc.embedFont(StandardFonts.HelveticaBoldOblique)
+  };
+  const layout = new PdfLayout(doc, fonts);
+
+  layout.text(parseInline(report.title), { size: 22, bold: true });
+  layout.gap(4);
+  layout.text([{ text: `Research question: ${report.query}` }], { size: 9.5, color: MUTED_COLOR });
+  layout.text([{ text: `Generated ${formatDate(report.createdAt)}` }], { size: 9.5, color: MUTED_COLOR });
+  layout.gap(14);
+
+  layout.sectionHeading('Executive summary');
+  layout.blocks(parseBlocks(report.summary));
+
+  for (const section of report.sections) {
+    layout.sectionHeading(section.heading);
+    layout.blocks(parseBlocks(section.body));
+  }
+
+  if (report.sources.length) {
+    layout.sectionHeading('Sources');
+    for (const source of report.sources) {
+      layout.text([{ text: source.title }, { text: `\n${source.url}`, href: source.url }], { size: 9.5, indent: 18, prefix: `${source.id}.` });
+      layout.gap(3);
+    }
+  }
+
+  const pages = doc.getPages();
+  pages.forEach((page, i) => {
+    const label = `${i + 1} / ${pages.length}`;
+    page.drawText(label, {
+      x: PAGE_WIDTH - MARGIN - fonts.regular.widthOfTextAtSize(label, 8),
+      y: MARGIN / 2,
+      size: 8,
+      font: fonts.regular,
+      color: MUTED_COLOR
+    });
+  });
+
+  return Buffer.from(await doc.save());
+}
+
+class PdfLayout {
+  private doc: PDFDocument;
+  private fonts: Fonts;
+  private page: PDFPage;
+  private y: number;
+
+  constructor(doc: PDFDocument, fonts: Fonts) {
+    this.doc = doc;
+    this.fonts = fonts;
+    this.page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  gap(height: number) {
+    this.y -= height;
+  }
+
+  sectionHeading(text: string) {
+    // Keep a heading together with at least a few lines of its section
+    this.ensure(80);
+    this.gap(10);
+    this.text(parseInline(text), { size: 14, bold: true, color: ACCENT_COLOR });
+    this.gap(4);
+  }
+
+  blocks(blocks: Block[]) {
+    for (const block of blocks) {
+      if (block.type === 'heading') {
+        this.ensure(50);
+        this.gap(4);
+        this.text(block.runs, { size: 11.5, bold: true });
+      } else if (block.type === 'paragraph') {
+        this.text(block.runs);
+      } else {
+        block.items.forEach((item, i) => {
+          this.text(item, { indent: 16, prefix: block.ordered ? `${i + 1}.` : '•' });
+          this.gap(-3);
+        });
+        this.gap(3);
+      }
+      this.gap(6);
+    }
+  }
+
+  // Flows runs into wrapped lines; a "\n" in a run forces a line break
+  text(runs: InlineRun[], style: TextStyle = {}) {
+    const size = style.size || BODY_SIZE;
+    const indent = style.indent || 0;
+    const maxWidth = PAGE_WIDTH - 2 * MARGIN - indent;
+    const lineHeight = size * 1.45;
+
+    let line: Piece[] = [];
+    let lineWidth = 0;
+    let pendingSpace = false;
+    let first = true;
+
+    const flush = () => {
+      this.ensure(lineHeight);
+      this.y -= lineHeight;
+      if (first && style.prefix) {
+        this.page.drawText(style.prefix, {
+          x: MARGIN + indent - this.fonts.regular.widthOfTextAtSize(style.prefix, size) - 5,
+          y: this.y,
+          size,
+          font: this.fonts.regular,
+          color: style.color || TEXT_COLOR
+        });
+      }
+      let x = MARGIN + indent;
+      for (const piece of line) {
+        this.page.drawText(piece.text, { x, y: this.y + piece.rise, size: piece.size, font: piece.font, color: piece.color });
+        x += piece.width;
+      }
+      line = [];
+      lineWidth = 0;
+      pendingSpace = false;
+      first = false;
+    };
+
+    for (const run of runs) {
+      const font = this.fontFor(run, style.bold);
+      const pieceSize = run.citation !== undefined ? size * 0.72 : size;
+      const color = run.href || run.citation !== undefined ? ACCENT_COLOR : style.color || TEXT_COLOR;
+      const rise = run.citation !== undefined ? size * 0.35 : 0;
+
+      for (const token of sanitize(run.text).split(/(\n|\s+)/)) {
+        if (token === '\n') {
+          flush();
+          continue;
+        }
+        if (!token) continue;
+        if (/^\s+$/.test(token)) {
+          pendingSpace = line.length > 0;
+          continue;
+        }
+
+        const spaceWidth = pendingSpace ? font.widthOfTextAtSize(' ', pieceSize) : 0;
+        let width = font.widthOfTextAtSize(token, pieceSize);
+        if (line.length && lineWidth + spaceWidth + width > maxWidth) {
+          flush();
+        }
+
+        // Tokens wider than a whole line (long URLs) are broken by character
+        let word = token;
+        while (width > maxWidth) {
+          let cut = word.length - 1;
+          while (cut > 1 && font.widthOfTextAtSize(word.slice(0, cut), pieceSize) > maxWidth - lineWidth) cut--;
+          const head = word.slice(0, cut);
+          line.push({ text: head, font, size: pieceSize, color, rise, width: font.widthOfTextAtSize(head, pieceSize) });
+          flush();
+          word = word.slice(cut);
+          width = font.widthOfTextAtSize(word, pieceSize);
+        }
+
+        const text = pendingSpace && line.length ? ` ${word}` : word;
+        const textWidth = font.widthOfTextAtSize(text, pieceSize);
+        line.push({ text, font, size: pieceSize, color, rise, width: textWidth });
+        lineWidth += textWidth;
+        pendingSpace = false;
+      }
+    }
+    if (line.length) flush();
+  }
+
+  private fontFor(run: InlineRun, bold?: boolean): PDFFont {
+    const isBold = bold || run.bold;
+    if (isBold && run.italic) return this.fonts.boldItalic;
+    if (isBold) return this.fonts.bold;
+    if (run.italic) return this.fonts.italic;
+    return this.fonts.regular;
+  }
+
+  private ensure(height: number) {
+    if (this.y - height < MARGIN) {
+      this.page = this.doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+      this.y = PAGE_HEIGHT - MARGIN;
+    }
+  }
+}
+
+function sanitize(text: string): string {
+  return Array.from(text)
+    .map(char => {
+      const code = char.charCodeAt(0);
+      if (char === '\n' || (code >= 0x20 && code < 0x7f) || (code >= 0xa0 && code <= 0xff) || WIN_ANSI_EXTRA.includes(char)) {
+        return char;
+      }
+      return /\s/.test(char) ? ' ' : '?';
+    })
+    .join('');
+}
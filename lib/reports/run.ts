@@ -0,0 +1,32 @@
+import { CitationSource, citedIds, resolveCitationsIn } from '../citations';
+import { ResearchMode, ResearchResult } from './types';
+
+interface ResearchOutput {
+  query: string;
+  mode: ResearchMode;
+  queries: string[];
+  findings: string;
+  answer: string;
+  sources: CitationSource[];
+}
+
+// Resolves citations across answer and findings in one numbering, so the
+// chat footnotes and a later report agree. The answer's own sources come first.
+export function toResearchResult({ query, mode, queries, findings, answer, sources }: ResearchOutput): ResearchResult {
+  const { texts: [text, resolvedFindings], sources: cited } = resolveCitationsIn([answer, findings], sources);
+  const answerIds = citedIds(text);
+
+  return {
+    text,
+    sources: cited.filter(source => answerIds.has(source.id)),
+    run: {
+      query,
+      mode,
+      createdAt: new Date().toISOString(),
+      queries,
+      findings: resolvedFindings,
+      answer: text,
+      sources: cited
+    }
+  };
+}
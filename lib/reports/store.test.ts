@@ -0,0 +1,61 @@
+import { mkdtempSync, readdirSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, describe, expect, it } from 'vitest';
+import { ReportStore } from './store';
+import { Report, ResearchRun } from './types';
+
+const run: ResearchRun = {
+  query: 'tidal power',
+  mode: 'deep_search',
+  createdAt: '2024-03-18T09:30:00Z',
+  queries: ['tidal power output'],
+  findings: 'Output beat forecasts.',
+  answer: 'Tidal power output beat forecasts [1].',
+  sources: []
+};
+
+const report: Report = {
+  title: 'Tidal power',
+  query: run.query,
+  createdAt: run.createdAt,
+  summary: 'Output beat forecasts.',
+  sections: [],
+  sources: []
+};
+
+describe('ReportStore', () => {
+  let dir: string;
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('composes a report once for concurrent downloads and saves it', async () => {
+    dir = mkdtempSync(join(tmpdir(), 'reports-'));
+    const store = new ReportStore(dir);
+    const stored = await store.create(run);
+
+    let composed = 0;
+    const compose = async () => {
+      composed++;
+      await new Promise(resolve => setTimeout(resolve, 20));
+      return report;
+    };
+    const reports = await Promise.all([1, 2, 3].map(() => store.getReport(stored, compose)));
+
+    expect(composed).toBe(1);
+    expect(reports).toEqual([report, report, report]);
+    expect((await store.get(stored.id))?.report).toEqual(report);
+    expect(readdirSync(dir)).toEqual([`${stored.id}.json`]);
+  });
+
+  it('composes again after a failed attempt', async () => {
+    dir = mkdtempSync(join(tmpdir(), 'reports-'));
+    const store = new ReportStore(dir);
+    const stored = await store.create(run);
+
+    await expect(store.getReport(stored, async () => { throw new Error('model down'); })).rejects.toThrow('model down');
+    await expect(store.getReport(stored, async () => report)).resolves.toEqual(report);
+  });
+});
@@ -0,0 +1,85 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { randomUUID } from 'crypto';
+import { Report, ResearchRun } from './types';
+
+export interface StoredReport {
+  id: string;
+  run: ResearchRun;
+  report?: Report; // composed on first download, then reused
+}
+
+const REPORT_ID_PATTERN = /^[a-f0-9-]{36}$/;
+
+export function isValidReportId(id: string): boolean {
+  return REPORT_ID_PATTERN.test(id);
+}
+
+// One JSON file per research run
+export class ReportStore {
+  private dir: string;
+  // Reports being composed, so concurrent downloads share one model call
+  private composing = new Map<string, Promise<Report>>();
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  async create(run: ResearchRun): Promise<StoredReport> {
+    const stored: StoredReport = { id: randomUUID(), run };
+    await this.write(stored);
+    return stored;
+  }
+
+  async get(id: string): Promise<StoredReport | null> {
+    if (!isValidReportId(id)) return null;
+    try {
+      return JSON.parse(await fs.readFile(this.path(id), 'utf8'));
+    } catch {
+      return null;
+    }
+  }
+
+  async saveReport(id: string, report: Report): Promise<void> {
+    const stored = await this.get(id);
+    if (!stored) throw new Error(`Report not found: ${id}`);
+    await this.write({ ...stored, report });
+  }
+
+  // The stored report, composing and saving it first if this run has none yet
+  async getReport(stored: StoredReport, compose: (run: ResearchRun) => Promise<Report>): Promise<Report> {
+    if (stored.report) return stored.report;
+
+    let pending = this.composing.get(stored.id);
+    if (!pending) {
+      pending = compose(stored.run)
+        .then(async (report) => {
+          await this.saveReport(stored.id, report);
+          return report;
+        })
+        .finally(() => this.composing.delete(stored.id));
+      this.composing.set(stored.id, pending);
+    }
+    return pending;
+  }
+
+  private async write(stored: StoredReport) {
+    await fs.mkdir(this.dir, { recursive: true });
+    const tmp = `${this.path(stored.id)}.${randomUUID()}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(stored, null, 2));
+    await fs.rename(tmp, this.path(stored.id));
+  }
+
+  private path(id: string) {
+    return join(this.dir, `${id}.json`);
+  }
+}
+
+let store: ReportStore | null = null;
+
+export function getReportStore(): ReportStore {
+  if (!store) {
+    store = new ReportStore(process.env.REPORT_DATA_DIR || join(process.cwd(), '.data', 'reports'));
+  }
+  return store;
+}
@@ -0,0 +1,35 @@
+import type { CitationSource, CitedAnswer } from '../citations';
+
+export type ResearchMode = 'research' | 'deep_search';
+
+// Everything a finished research run produced; findings and answer share the
+// numbering of `sources`
+export interface ResearchRun {
+  query: string;
+  mode: ResearchMode;
+  createdAt: string;
+  queries: string[];
+  findings: string;
+  answer: string;
+  sources: CitationSource[];
+}
+
+export interface ResearchResult extends CitedAnswer {
+  run: ResearchRun;
+}
+
+export interface ReportSection {
+  heading: string;
+  body: string; // Markdown subset: paragraphs, ### subheadings, lists, **bold**, *italic*, links, [n] citations
+}
+
+export interface Report {
+  title: string;
+  query: string;
+  createdAt: string;
+  summary: string;
+  sections: ReportSection[];
+  sources: CitationSource[];
+}
+
+export type ReportFormat = 'md' | 'html' | 'pdf' | 'docx';
@@ -0,0 +1,40 @@
+import { RUN_ID_HEADER, createEventStream } from '../sse';
+import { AgentRun } from './run';
+
+export { AgentRun } from './run';
+export type { PhaseTimer, RunListener, RunStatus } from './run';
+export { RunRegistry, getRunRegistry } from './registry';
+export type { RunRegistryOptions } from './registry';
+export { PhaseTimings, getPhaseTimings } from './timings';
+
+// Streams a run to one client, starting after `lastEventId`. The client
+// going away only detaches it; the run keeps going for the grace period.
+export function streamRun(run: AgentRun, lastEventId: number = 0): Response {
+  return createEventStream(stream => new Promise<void>(resolve => {
+    let unsubscribe: (() => void) | null = null;
+    let done = false;
+    const finish = () => {
+      if (done) return;
+      done = true;
+      unsubscribe?.();
+      resolve();
+    };
+
+    // A finished run replays straight through to its terminal event
+    unsubscribe = run.subscribe((event, id) => {
+      stream.send(event, id);
+      if (stream.closed) finish();
+    }, lastEventId);
+    if (done) unsubscribe();
+    else if (run.status !== 'running') finish(); // nothing left to replay
+
+    stream.signal.addEventListener('abort', finish);
+  }), { headers: { [RUN_ID_HEADER]: run.id } });
+}
+
+// Reconnecting clients say where they left off in the standard header, or
+// in a query parameter when they can't set headers
+export function lastEventIdOf(req: Request): number {
+  const value = req.headers.get('Last-Event-ID') || new URL(req.url).searchParams.get('lastEventId');
+  return Math.max(Number(value) || 0, 0);
+}
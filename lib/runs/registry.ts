@@ -0,0 +1,66 @@
+import { PlannedPhase } from '../sse';
+import { AgentRun } from './run';
+import { PhaseTimings, getPhaseTimings } from './timings';
+
+export interface RunRegistryOptions {
+  graceMs: number; // how long a run survives without a connected client
+  retentionMs: number; // how long a finished run stays replayable
+  timings?: PhaseTimings; // learns phase durations and estimates plans from them
+}
+
+// In-memory, so runs live and die with the server process
+export class RunRegistry {
+  private runs = new Map<string, AgentRun>();
+  private options: RunRegistryOptions;
+
+  constructor(options: RunRegistryOptions) {
+    this.options = options;
+  }
+
+  // Announces `plan` and starts `task` in the background. Whatever the task
+  // throws becomes the run's error event, and a task that returns without a
+  // terminal event fails.
+  start(kind: string, plan: PlannedPhase[], task: (run: AgentRun) => Promise<void>): AgentRun {
+    const { timings } = this.options;
+    const run = new AgentRun(kind, this.options.graceMs, timings && ((phaseId, durationMs) => {
+      timings.record(kind, phaseId, durationMs);
+    }));
+    this.runs.set(run.id, run);
+
+    Promise.resolve()
+      .then(async () => {
+        if (plan.length) {
+          run.send({ type: 'plan', phases: timings ? await timings.estimate(kind, plan) : plan });
+        }
+        return task(run);
+      })
+      .catch(error => run.send({ type: 'error', error: error instanceof Error ? error.message : 'Unknown error' }))
+      .finally(() => {
+        run.send({ type: 'error', error: 'Run ended without a result' });
+        setTimeout(() => this.runs.delete(run.id), this.options.retentionMs);
+      });
+
+    return run;
+  }
+
+  get(runId: string): AgentRun | null {
+    return this.runs.get(runId) || null;
+  }
+
+  cancel(runId: string): boolean {
+    return this.runs.get(runId)?.cancel() || false;
+  }
+}
+
+let registry: RunRegistry | null = null;
+
+export function getRunRegistry(): RunRegistry {
+  if (!registry) {
+    registry = new RunRegistry({
+      graceMs: Number(process.env.RUN_DISCONNECT_GRACE_MS) || 30000,
+      retentionMs: Number(process.env.RUN_RETENTION_MS) || 10 * 60 * 1000,
+      timings: getPhaseTimings()
+    });
+  }
+  return registry;
+}
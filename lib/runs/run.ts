@@ -0,0 +1,95 @@
+import { randomUUID } from 'crypto';
+import { EventSink, StreamEvent, isTerminalEvent } from '../sse';
+
+export type RunStatus = 'running' | 'complete' | 'error' | 'cancelled';
+
+export type RunListener = (event: StreamEvent, id: number) => void;
+
+export type PhaseTimer = (phaseId: string, durationMs: number) => void;
+
+// Enough for every phase event of a deep run; token-heavy runs lose their
+// oldest events first, which only matters to a client that is far behind
+const MAX_BUFFERED_EVENTS = 2000;
+
+// One agent run. Events are numbered and kept so a client that reconnects
+// can pick up after the last id it saw; nobody listening for longer than
+// the grace period cancels the run.
+export class AgentRun implements EventSink {
+  readonly id = randomUUID();
+  readonly kind: string;
+  readonly createdAt = new Date().toISOString();
+  status: RunStatus = 'running';
+  private events: Array<{ id: number; event: StreamEvent }> = [];
+  private nextId = 1;
+  private listeners = new Set<RunListener>();
+  private aborter = new AbortController();
+  private graceMs: number;
+  private graceTimer?: ReturnType<typeof setTimeout>;
+  private phaseStarts = new Map<string, number>();
+  private onPhaseTimed?: PhaseTimer;
+
+  constructor(kind: string, graceMs: number, onPhaseTimed?: PhaseTimer) {
+    this.kind = kind;
+    this.graceMs = graceMs;
+    this.onPhaseTimed = onPhaseTimed;
+    this.armGraceTimer(); // the first client has to attach too
+  }
+
+  get signal(): AbortSignal {
+    return this.aborter.signal;
+  }
+
+  send(event: StreamEvent) {
+    if (this.status !== 'running' || event.type === 'heartbeat') return;
+
+    const id = this.nextId++;
+    this.events.push({ id, event });
+    if (this.events.length > MAX_BUFFERED_EVENTS) this.events.shift();
+
+    if (event.type === 'phase_start') {
+      this.phaseStarts.set(event.phaseId, Date.now());
+    } else if (event.type === 'phase_complete' && this.phaseStarts.has(event.phaseId)) {
+      this.onPhaseTimed?.(event.phaseId, Date.now() - this.phaseStarts.get(event.phaseId)!);
+    }
+
+    if (isTerminalEvent(event)) {
+      this.status = event.type === 'complete' ? 'complete' : 'error';
+      this.clearGraceTimer();
+    }
+    this.listeners.forEach(listener => listener(event, id));
+  }
+
+  // Replays the buffered events after `afterId`, then follows live ones
+  subscribe(listener: RunListener, afterId: number = 0): () => void {
+    this.clearGraceTimer();
+    for (const { id, event } of this.events) {
+      if (id > afterId) listener(event, id);
+    }
+    this.listeners.add(listener);
+
+    return () => {
+      this.listeners.delete(listener);
+      if (!this.listeners.size) this.armGraceTimer();
+    };
+  }
+
+  // Reports the cancellation as the run's terminal event, then aborts
+  // whatever the agent is waiting on
+  cancel(reason: string = 'Run cancelled'): boolean {
+    if (this.status !== 'running') return false;
+    this.send({ type: 'error', error: reason });
+    this.status = 'cancelled';
+    this.aborter.abort();
+    return true;
+  }
+
+  private armGraceTimer() {
+    if (this.status !== 'running' || this.graceTimer) return;
+    this.graceTimer = setTimeout(() => this.cancel('Run cancelled after the client disconnected'), this.graceMs);
+  }
+
+  private clearGraceTimer() {
+    if (this.graceTimer) clearTimeout(this.graceTimer);
+    this.graceTimer = undefined;
+  }
+}
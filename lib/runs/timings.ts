@@ -0,0 +1,83 @@
+import { promises as fs } from 'fs';
+import { dirname, join } from 'path';
+import { PlannedPhase } from '../sse';
+
+// Recent samples kept per phase; estimates start replacing the defaults
+// once a phase has been timed a few times
+const MAX_SAMPLES = 20;
+const MIN_SAMPLES = 3;
+
+type TimingData = Record<string, Record<string, number[]>>; // kind -> phase -> durations in ms
+
+// Later research rounds (search_2, reflection_1, ...) are timed together
+// with the first one
+function phaseKey(phaseId: string): string {
+  return phaseId.replace(/_\d+$/, '');
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+// How long each phase of each kind of run has actually taken, so plans can
+// carry real estimates instead of guesses
+export class PhaseTimings {
+  private file: string;
+  private data: Promise<TimingData> | null = null;
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(file: string) {
+    this.file = file;
+  }
+
+  // Swaps each phase's default estimate for the median of its recent runs
+  async estimate(kind: string, phases: PlannedPhase[]): Promise<PlannedPhase[]> {
+    const samples = (await this.load())[kind] || {};
+    return phases.map(phase => {
+      const durations = samples[phaseKey(phase.id)] || [];
+      if (durations.length < MIN_SAMPLES) return phase;
+      return { ...phase, estimatedDuration: Math.max(1, Math.round(median(durations) / 1000)) };
+    });
+  }
+
+  async record(kind: string, phaseId: string, durationMs: number): Promise<void> {
+    const data = await this.load();
+    const phases = data[kind] || (data[kind] = {});
+    const durations = phases[phaseKey(phaseId)] || (phases[phaseKey(phaseId)] = []);
+    durations.push(Math.round(durationMs));
+    if (durations.length > MAX_SAMPLES) durations.shift();
+
+    // Writes go one after another so an older snapshot never lands last
+    this.saving = this.saving.then(() => this.write(data)).catch(error => {
+      console.error('Failed to save phase timings:', error);
+    });
+    return this.saving;
+  }
+
+  private load(): Promise<TimingData> {
+    if (!this.data) {
+      this.data = fs.readFile(this.file, 'utf8')
+        .then(text => JSON.parse(text) as TimingData)
+        .catch(() => ({}));
+    }
+    return this.data;
+  }
+
+  private async write(data: TimingData) {
+    await fs.mkdir(dirname(this.file), { recursive: true });
+    const tmp = `${this.file}.${process.pid}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(data, null, 2));
+    await fs.rename(tmp, this.file);
+  }
+}
+
+let timings: PhaseTimings | null = null;
+
+export function getPhaseTimings(): PhaseTimings {
+  if (!timings) {
+    timings = new PhaseTimings(process.env.PHASE_TIMINGS_FILE || join(process.cwd(), '.data', 'phase-timings.json'));
+  }
+  return timings;
+}
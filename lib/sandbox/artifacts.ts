@@ -0,0 +1,134 @@
+import { promises as fs } from 'fs';
+import { basename, extname, join, relative } from 'path';
+import { blobUrl, getBlobStore } from '../blobStore';
+import { CACHE_DIR } from './languages';
+
+export interface Artifact {
+  id: string;
+  name: string;
+  path: string;
+  type: string;
+  size: number;
+  url: string;
+}
+
+export interface GeneratedFile {
+  path: string;
+  size: number;
+}
+
+export interface OmittedArtifact {
+  path: string;
+  size: number;
+  reason: string;
+}
+
+export const MAX_ARTIFACT_BYTES = Number(process.env.SANDBOX_MAX_ARTIFACT_BYTES) || 10 * 1024 * 1024;
+const MAX_ARTIFACTS = 20;
+const MAX_LISTED_FILES = 200;
+const MAX_TOTAL_ARTIFACT_BYTES = 4 * MAX_ARTIFACT_BYTES;
+
+const ARTIFACT_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+  pdf: 'application/pdf',
+  csv: 'text/csv',
+  tsv: 'text/tab-separated-values',
+  txt: 'text/plain',
+  log: 'text/plain',
+  md: 'text/markdown',
+  json: 'application/json',
+  html: 'text/html',
+  xml: 'application/xml',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  zip: 'application/zip',
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  mp4: 'video/mp4'
+};
+
+export function artifactType(path: string): string {
+  return ARTIFACT_TYPES[extname(path).slice(1).toLowerCase()] || 'application/octet-stream';
+}
+
+// Copies files a run left in its working directory into the blob store so
+// they outlive the directory, smallest first until the limits are reached.
+export async function collectArtifacts(
+  workDir: string,
+  files: GeneratedFile[]
+): Promise<{ artifacts: Artifact[]; omitted: OmittedArtifact[] }> {
+  const artifacts: Artifact[] = [];
+  const omitted: OmittedArtifact[] = [];
+  let total = 0;
+
+  for (const file of [...files].sort((a, b) => a.size - b.size)) {
+    let reason: string | null = null;
+    if (file.size > MAX_ARTIFACT_BYTES) reason = `exceeds ${MAX_ARTIFACT_BYTES} bytes`;
+    else if (artifacts.length >= MAX_ARTIFACTS) reason = `more than ${MAX_ARTIFACTS} files`;
+    else if (total + file.size > MAX_TOTAL_ARTIFACT_BYTES) reason = 'total artifact size limit reached';
+
+    if (reason) {
+      omitted.push({ ...file, reason });
+      continue;
+    }
+
+    try {
+      const type = artifactType(file.path);
+      const record = await getBlobStore().save({
+        name: basename(file.path),
+        type,
+        data: await fs.readFile(join(workDir, file.path))
+      });
+      artifacts.push({ id: record.id, name: record.name, path: file.path, type, size: record.size, url: blobUrl(record) });
+      total += record.size;
+    } catch (error) {
+      omitted.push({ ...file, reason: error instanceof Error ? error.message : 'could not be stored' });
+    }
+  }
+
+  return { artifacts: artifacts.sort((a, b) => a.path.localeCompare(b.path)), omitted };
+}
+
+export type FileStamps = Map<string, number>;
+
+// Regular files under `workDir` (symlinks are skipped so nothing outside can be
+// pulled in), optionally only those that changed since `previous` was taken
+export async function listGeneratedFiles(workDir: string, exclude: Set<string>, previous?: FileStamps): Promise<GeneratedFile[]> {
+  const files = (await walkFiles(workDir, exclude))
+    .filter(file => previous?.get(file.path) !== file.mtimeMs)
+    .map(({ path, size }) => ({ path, size }));
+
+  return files.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+export async function fileStamps(workDir: string): Promise<FileStamps> {
+  return new Map((await walkFiles(workDir, new Set())).map(file => [file.path, file.mtimeMs]));
+}
+
+async function walkFiles(workDir: string, exclude: Set<string>) {
+  const files: (GeneratedFile & { mtimeMs: number })[] = [];
+  const pending = [workDir];
+
+  while (pending.length && files.length < MAX_LISTED_FILES) {
+    const dir = pending.pop()!;
+    const entries = await fs.readdir(dir, { withFileTypes: true }).catch(() => []);
+    for (const entry of entries) {
+      const fullPath = join(dir, entry.name);
+      const path = relative(workDir, fullPath);
+      if (entry.isDirectory()) {
+        if (path !== CACHE_DIR) pending.push(fullPath);
+      } else if (entry.isFile() && !exclude.has(path)) {
+        const { size, mtimeMs } = await fs.stat(fullPath);
+        files.push({ path, size, mtimeMs });
+        if (files.length >= MAX_LISTED_FILES) break;
+      }
+    }
+  }
+
+  return files;
+}
@@ -0,0 +1,174 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Artifact, collectArtifacts, GeneratedFile, listGeneratedFiles, OmittedArtifact } from './artifacts';
+import { getLanguageSpec, isSupportedLanguage, LanguageSpec, SandboxLanguage } from './languages';
+import { DEFAULT_LIMITS, ProcessResult, RunOptions, runSandboxed, SandboxLimits } from './runner';
+
+export { enabledLanguages, isSupportedLanguage } from './languages';
+export { DEFAULT_LIMITS, getSandboxMode } from './runner';
+export { closeSession, getSessionInfo, isSessionLanguage, isValidSessionId, runInSession, SessionNotFoundError } from './sessions';
+export type { Artifact, GeneratedFile, OmittedArtifact } from './artifacts';
+export type { SandboxLanguage } from './languages';
+export type { OutputStream, SandboxLimits, SandboxMode } from './runner';
+export type { SessionInfo, SessionLanguage, SessionResult } from './sessions';
+
+export interface ExecutionRequest extends RunOptions {
+  language: SandboxLanguage;
+  code: string;
+  limits?: Partial<SandboxLimits>;
+  // Store generated files in the blob store before the workdir is removed
+  collectArtifacts?: boolean;
+  onCompiled?: (compile: CompileResult) => void;
+}
+
+export interface CompileResult {
+  success: boolean;
+  output: string;
+  exitCode: number | null;
+  executionTime: number;
+}
+
+export interface ExecutionResult {
+  success: boolean;
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+  timedOut: boolean;
+  cancelled: boolean;
+  truncated: boolean;
+  executionTime: number;
+  // Present for compiled languages; when it failed the program never ran
+  compile?: CompileResult;
+  files: GeneratedFile[];
+  artifacts?: Artifact[];
+  omittedArtifacts?: OmittedArtifact[];
+  error?: string;
+}
+
+// Compilers get more headroom than the programs they build
+export const COMPILE_LIMITS: Partial<SandboxLimits> = {
+  cpuSeconds: Number(process.env.SANDBOX_COMPILE_CPU_SECONDS) || 60,
+  memoryMb: Math.max(DEFAULT_LIMITS.memoryMb, 1024),
+  wallClockMs: Number(process.env.SANDBOX_COMPILE_TIMEOUT_MS) || 60000,
+  maxFileBytes: Math.max(DEFAULT_LIMITS.maxFileBytes, 256 * 1024 * 1024),
+  maxOpenFiles: Math.max(DEFAULT_LIMITS.maxOpenFiles, 256)
+};
+
+// Runs `code` in a throwaway working directory. Callers can only tighten the
+// configured limits, never raise them.
+export async function executeCode({
+  language,
+  code,
+  limits = {},
+  collectArtifacts: collect = false,
+  onCompiled,
+  ...runOptions
+}: ExecutionRequest): Promise<ExecutionResult> {
+  if (!isSupportedLanguage(language)) {
+    throw new Error(`Unsupported or disabled language: ${language}`);
+  }
+
+  const spec = getLanguageSpec(language);
+  const effective = { ...DEFAULT_LIMITS };
+  for (const key of Object.keys(effective) as (keyof SandboxLimits)[]) {
+    const requested = limits[key];
+    if (requested && requested > 0) effective[key] = Math.min(requested, DEFAULT_LIMITS[key]);
+  }
+
+  const workDir = await fs.mkdtemp(join(tmpdir(), 'code-execution-'));
+  const env = spec.env?.(workDir) || {};
+  const startTime = Date.now();
+
+  try {
+    await fs.writeFile(join(workDir, spec.fileName), code);
+
+    const compile = await compileSource(spec, code, workDir, { ...effective, ...COMPILE_LIMITS }, runOptions.signal, env);
+    if (compile) onCompiled?.(compile);
+
+    let result: ProcessResult;
+    if (compile && !compile.success) {
+      result = { stdout: '', stderr: '', exitCode: null, signal: null, timedOut: false, cancelled: !!runOptions.signal?.aborted, truncated: false };
+    } else {
+      result = await runSandboxed(spec.run, workDir, effective, runOptions, env);
+    }
+
+    const files = await listGeneratedFiles(workDir, new Set([spec.fileName, ...(spec.outputs || [])]));
+    const collected = collect ? await collectArtifacts(workDir, files) : null;
+
+    let error = result.error;
+    if (result.cancelled) {
+      error = 'Execution cancelled';
+    } else if (compile && !compile.success) {
+      error = 'Compilation failed';
+    } else if (result.timedOut) {
+      error = `Execution timed out after ${effective.wallClockMs}ms`;
+    } else if (result.signal === 'SIGXCPU' || result.signal === 'SIGKILL') {
+      error = `Execution killed (${result.signal}); CPU limit is ${effective.cpuSeconds}s`;
+    } else if (result.signal === 'SIGXFSZ') {
+      error = `Execution killed (SIGXFSZ); file size limit is ${effective.maxFileBytes} bytes`;
+    } else if (!error && result.signal) {
+      error = `Process killed by ${result.signal}`;
+    } else if (!error && result.exitCode !== 0) {
+      error = result.stderr.trim() || `Process exited with code ${result.exitCode}`;
+    }
+
+    return {
+      success: !error && result.exitCode === 0,
+      stdout: result.stdout,
+      stderr: result.stderr,
+      exitCode: result.exitCode,
+      timedOut: result.timedOut,
+      cancelled: result.cancelled,
+      truncated: result.truncated,
+      executionTime: Date.now() - startTime,
+      ...(compile && { compile }),
+      files,
+      ...(collected && { artifacts: collected.artifacts, omittedArtifacts: collected.omitted }),
+      ...(error ? { error } : {})
+    };
+  } finally {
+    await fs.rm(workDir, { recursive: true, force: true }).catch((cleanupError) => {
+      console.error('Sandbox cleanup error:', cleanupError);
+    });
+  }
+}
+
+// Returns null for interpreted languages
+async function compileSource(
+  spec: LanguageSpec,
+  code: string,
+  workDir: string,
+  limits: SandboxLimits,
+  signal: AbortSignal | undefined,
+  env: Record<string, string>
+): Promise<CompileResult | null> {
+  const startTime = Date.now();
+
+  if (spec.transpile) {
+    const transpiled = await spec.transpile(code);
+    if (!transpiled.errors.length) {
+      await fs.writeFile(join(workDir, transpiled.fileName), transpiled.source);
+    }
+    return {
+      success: !transpiled.errors.length,
+      output: transpiled.errors.join('\n'),
+      exitCode: transpiled.errors.length ? 1 : 0,
+      executionTime: Date.now() - startTime
+    };
+  }
+
+  if (!spec.compile) return null;
+
+  const result = await runSandboxed(spec.compile, workDir, limits, { signal }, env);
+  let output = [result.stdout, result.stderr].filter(Boolean).join('\n').trim();
+  if (result.timedOut) output = `${output}\nCompilation timed out after ${limits.wallClockMs}ms`.trim();
+  if (result.error) output = `${output}\n${result.error}`.trim();
+
+  return {
+    success: result.exitCode === 0,
+    output,
+    exitCode: result.exitCode,
+    executionTime: Date.now() - startTime
+  };
+}
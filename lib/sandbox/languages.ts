@@ -0,0 +1,150 @@
+import { existsSync } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
+
+export type SandboxLanguage =
+  | 'python'
+  | 'javascript'
+  | 'typescript'
+  | 'shell'
+  | 'go'
+  | 'rust'
+  | 'c'
+  | 'cpp'
+  | 'ruby';
+
+export interface TranspileResult {
+  fileName: string;
+  source: string;
+  errors: string[];
+}
+
+export interface LanguageSpec {
+  fileName: string;
+  // Runs in the sandbox before `run`; a non-zero exit is reported as a compile error
+  compile?: string[];
+  // In-process alternative to `compile` for languages whose compiler is a library
+  transpile?: (source: string) => Promise<TranspileResult>;
+  run: string[];
+  // Build outputs that should not be returned as artifacts
+  outputs?: string[];
+  env?: (workDir: string) => Record<string, string>;
+}
+
+// Directory inside the workdir for compiler caches; never listed as artifacts
+export const CACHE_DIR = '.cache';
+
+const LANGUAGES: Record<SandboxLanguage, LanguageSpec> = {
+  python: {
+    fileName: 'main.py',
+    run: ['python3', 'main.py']
+  },
+  javascript: {
+    fileName: 'main.js',
+    run: ['node', 'main.js']
+  },
+  typescript: {
+    fileName: 'main.ts',
+    transpile: transpileTypeScript,
+    run: ['node', 'main.js'],
+    outputs: ['main.js']
+  },
+  shell: {
+    fileName: 'main.sh',
+    run: ['bash', 'main.sh']
+  },
+  go: {
+    fileName: 'main.go',
+    compile: ['go', 'build', '-o', 'main', 'main.go'],
+    run: ['./main'],
+    outputs: ['main'],
+    env: workDir => ({
+      GOCACHE: join(workDir, CACHE_DIR, 'go-build'),
+      GOPATH: join(workDir, CACHE_DIR, 'go'),
+      GO111MODULE: 'off',
+      GOTOOLCHAIN: 'local'
+    })
+  },
+  rust: {
+    fileName: 'main.rs',
+    compile: ['rustc', '-O', '-o', 'main', 'main.rs'],
+    run: ['./main'],
+    outputs: ['main']
+  },
+  c: {
+    fileName: 'main.c',
+    compile: ['gcc', '-O2', '-std=c17', '-o', 'main', 'main.c', '-lm'],
+    run: ['./main'],
+    outputs: ['main']
+  },
+  cpp: {
+    fileName: 'main.cpp',
+    compile: ['g++', '-O2', '-std=c++17', '-o', 'main', 'main.cpp'],
+    run: ['./main'],
+    outputs: ['main']
+  },
+  ruby: {
+    fileName: 'main.rb',
+    run: ['ruby', 'main.rb']
+  }
+};
+
+// Version managers keep toolchains under the real $HOME, which the sandbox
+// replaces with the workdir, so point them back explicitly.
+const TOOLCHAIN_HOMES: Record<string, string> = {
+  RUSTUP_HOME: '.rustup',
+  CARGO_HOME: '.cargo',
+  RBENV_ROOT: '.rbenv',
+  PYENV_ROOT: '.pyenv'
+};
+
+export function toolchainEnv(): Record<string, string> {
+  const env: Record<string, string> = {};
+  for (const [name, dir] of Object.entries(TOOLCHAIN_HOMES)) {
+    const value = process.env[name] || join(homedir(), dir);
+    if (existsSync(value)) env[name] = value;
+  }
+  return env;
+}
+
+export function getLanguageSpec(language: SandboxLanguage): LanguageSpec {
+  return LANGUAGES[language];
+}
+
+export function knownLanguages(): SandboxLanguage[] {
+  return Object.keys(LANGUAGES) as SandboxLanguage[];
+}
+
+// SANDBOX_LANGUAGES is a comma-separated allow-list, e.g. "python,javascript"
+export function enabledLanguages(): SandboxLanguage[] {
+  const known = knownLanguages();
+  const configured = process.env.SANDBOX_LANGUAGES?.split(',').map(l => l.trim().toLowerCase()).filter(Boolean);
+  return configured?.length ? known.filter(l => configured.includes(l)) : known;
+}
+
+export function isSupportedLanguage(language: string): language is SandboxLanguage {
+  return (enabledLanguages() as string[]).includes(language);
+}
+
+// Strips types without checking them; only syntax errors fail the build
+async function transpileTypeScript(source: string): Promise<TranspileResult> {
+  const ts = await import('typescript');
+  const result = ts.transpileModule(source, {
+    fileName: 'main.ts',
+    reportDiagnostics: true,
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2020,
+      esModuleInterop: true
+    }
+  });
+
+  const errors = (result.diagnostics || []).map(diagnostic => {
+    const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n');
+    if (!diagnostic.file || diagnostic.start === undefined) return message;
+    const { line, character } = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start);
+    return `main.ts(${line + 1},${character + 1}): error TS${diagnostic.code}: ${message}`;
+  });
+
+  return { fileName: 'main.js', source: result.outputText, errors };
+}
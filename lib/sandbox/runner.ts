@@ -0,0 +1,355 @@
+import { ChildProcessWithoutNullStreams, spawn, spawnSync } from 'child_process';
+import { mkdirSync, mkdtempSync, rmdirSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { dirname, isAbsolute, join } from 'path';
+import { StringDecoder } from 'string_decoder';
+import { toolchainEnv } from './languages';
+
+export type SandboxMode = 'bwrap' | 'unshare' | 'none';
+
+export interface SandboxLimits {
+  cpuSeconds: number;
+  memoryMb: number;
+  wallClockMs: number;
+  maxProcesses: number;
+  maxFileBytes: number;
+  maxOpenFiles: number;
+  maxOutputBytes: number;
+}
+
+export const DEFAULT_LIMITS: SandboxLimits = {
+  cpuSeconds: Number(process.env.SANDBOX_CPU_SECONDS) || 10,
+  memoryMb: Number(process.env.SANDBOX_MEMORY_MB) || 512,
+  wallClockMs: Number(process.env.SANDBOX_TIMEOUT_MS) || 30000,
+  maxProcesses: Number(process.env.SANDBOX_MAX_PROCESSES) || 64,
+  maxFileBytes: Number(process.env.SANDBOX_MAX_FILE_BYTES) || 10 * 1024 * 1024,
+  maxOpenFiles: Number(process.env.SANDBOX_MAX_OPEN_FILES) || 64,
+  maxOutputBytes: Number(process.env.SANDBOX_MAX_OUTPUT_BYTES) || 256 * 1024
+};
+
+export type OutputStream = 'stdout' | 'stderr';
+
+export interface RunOptions {
+  stdin?: string;
+  // Receives output as it arrives, after the output cap has been applied
+  onOutput?: (stream: OutputStream, text: string) => void;
+  signal?: AbortSignal;
+}
+
+export interface ProcessResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+  signal: string | null;
+  timedOut: boolean;
+  cancelled: boolean;
+  truncated: boolean;
+  error?: string;
+}
+
+// Only these are mounted (read-only) inside the sandbox; everything else,
+// including the app directory, $HOME and the host /tmp, does not exist there.
+const SYSTEM_PATHS = ['/usr', '/bin', '/sbin', '/lib', '/lib32', '/lib64', '/etc/alternatives', '/etc/ssl', '/etc/ld.so.cache'];
+
+export class SandboxUnavailableError extends Error {
+  constructor() {
+    super('No sandbox runtime available: install bubblewrap or enable unprivileged user namespaces (SANDBOX_MODE=none runs code without isolation)');
+    this.name = 'SandboxUnavailableError';
+  }
+}
+
+let resolvedMode: SandboxMode | 'unavailable' | null = null;
+
+// SANDBOX_MODE=auto (default) prefers bubblewrap, then user namespaces. Both
+// give no network, a minimal read-only root, a private /tmp and pid
+// namespace. Without either, code does not run at all; SANDBOX_MODE=none
+// must be set explicitly to run it unisolated.
+export function getSandboxMode(): SandboxMode {
+  if (!resolvedMode) {
+    const configured = (process.env.SANDBOX_MODE || 'auto').toLowerCase();
+    if (configured === 'bwrap' || configured === 'unshare') {
+      resolvedMode = configured;
+    } else if (configured === 'none') {
+      console.warn('SANDBOX_MODE=none: code runs without any isolation');
+      resolvedMode = 'none';
+    } else if (commandWorks('bwrap', ['--ro-bind', '/', '/', '--unshare-all', 'true'])) {
+      resolvedMode = 'bwrap';
+    } else if (unshareWorks()) {
+      console.warn('bubblewrap not available; sandbox falls back to unshare');
+      resolvedMode = 'unshare';
+    } else {
+      console.error(new SandboxUnavailableError().message);
+      resolvedMode = 'unavailable';
+    }
+    if (resolvedMode !== 'bwrap' && resolvedMode !== 'unavailable' && process.getuid?.() === 0) {
+      console.warn('Server runs as root; the sandbox process limit is not enforced');
+    }
+  }
+  if (resolvedMode === 'unavailable') throw new SandboxUnavailableError();
+  return resolvedMode;
+}
+
+function commandWorks(command: string, args: string[]): boolean {
+  try {
+    return spawnSync(command, args, { stdio: 'ignore', timeout: 5000 }).status === 0;
+  } catch {
+    return false;
+  }
+}
+
+function unshareWorks(): boolean {
+  const probe = mkdtempSync(join(tmpdir(), 'sandbox-probe-'));
+  try {
+    mkdirSync(sandboxRoot(probe));
+    const [bin, ...args] = unshareCommand(['true'], probe);
+    return commandWorks(bin, args);
+  } finally {
+    removeSandboxRoot(probe);
+    rmSync(probe, { recursive: true, force: true });
+  }
+}
+
+function pathList(value?: string): string[] {
+  return (value || '').split(':').map(p => p.trim()).filter(p => isAbsolute(p));
+}
+
+// Other interpreters installed outside /usr need SANDBOX_RO_PATHS
+function readOnlyPaths(): string[] {
+  return [
+    ...SYSTEM_PATHS,
+    dirname(dirname(process.execPath)),
+    ...Object.values(toolchainEnv()),
+    ...pathList(process.env.SANDBOX_RO_PATHS)
+  ];
+}
+
+// Empty mount point for the unshare sandbox's root, next to the workdir
+function sandboxRoot(workDir: string): string {
+  return `${workDir}.root`;
+}
+
+// Only ever an empty directory on the host; the mounts live in the sandbox's namespace
+function removeSandboxRoot(workDir: string) {
+  try {
+    rmdirSync(sandboxRoot(workDir));
+  } catch {
+    // Never created
+  }
+}
+
+// Runs as root of a fresh user namespace: builds a root from read-only binds
+// of `ro paths`, a private /tmp holding only the workdir and a few devices,
+// pivots into it, drops every capability and execs the command. `set -e`
+// makes any failed mount abort the run instead of running unisolated.
+const UNSHARE_SCRIPT = `set -e
+R="$1"; W="$2"; shift 2
+mount --make-rprivate /
+mount -t tmpfs -o size=1m,mode=755 sandbox-root "$R"
+while [ "$1" != "--" ]; do
+  p="$1"; shift
+  if [ -L "$p" ]; then mkdir -p "$R$(dirname "$p")"; ln -s "$(readlink "$p")" "$R$p"
+  elif [ -d "$p" ]; then mkdir -p "$R$p"; mount --rbind "$p" "$R$p"; mount -o remount,bind,ro "$R$p"
+  elif [ -f "$p" ]; then mkdir -p "$R$(dirname "$p")"; touch "$R$p"; mount --bind "$p" "$R$p"; mount -o remount,bind,ro "$R$p"
+  fi
+done
+shift
+mkdir -p "$R/tmp" "$R/proc" "$R/dev" "$R/.old"
+mount -t tmpfs -o size=64m,mode=1777 sandbox-tmp "$R/tmp"
+mkdir -p "$R$W"; mount --bind "$W" "$R$W"
+for d in null zero full random urandom; do touch "$R/dev/$d"; mount --bind "/dev/$d" "$R/dev/$d"; done
+mount -t proc proc "$R/proc"
+mount -o remount,bind,ro "$R"
+cd "$R"; pivot_root . .old; umount -l /.old
+cd "$W"
+exec setpriv --no-new-privs --inh-caps=-all --bounding-set=-all --securebits=+noroot,+noroot_locked,+no_setuid_fixup,+no_setuid_fixup_locked,+keep_caps_locked -- "$@"`;
+
+function unshareCommand(command: string[], workDir: string): string[] {
+  return [
+    'unshare', '--user', '--map-root-user', '--net', '--mount', '--pid', '--fork', '--kill-child',
+    '--',
+    'sh', '-c', UNSHARE_SCRIPT, 'sandbox', sandboxRoot(workDir), workDir, ...readOnlyPaths(), '--',
+    ...command
+  ];
+}
+
+// Nothing from the server environment leaks in except PATH and toolchain
+// locations, so API keys stay out
+export function sandboxEnv(workDir: string, extra: Record<string, string> = {}): NodeJS.ProcessEnv {
+  return {
+    ...toolchainEnv(),
+    NODE_ENV: 'production',
+    PATH: process.env.SANDBOX_PATH || process.env.PATH || '/usr/local/bin:/usr/bin:/bin',
+    HOME: workDir,
+    TMPDIR: workDir,
+    LANG: 'C.UTF-8',
+    PYTHONDONTWRITEBYTECODE: '1',
+    PYTHONUNBUFFERED: '1',
+    ...extra
+  };
+}
+
+// Wraps `command` so it runs under rlimits inside the sandbox with `workDir`
+// as the only writable location.
+export function buildSandboxCommand(command: string[], workDir: string, limits: SandboxLimits): string[] {
+  const limited = [
+    'prlimit',
+    `--cpu=${limits.cpuSeconds}`,
+    // RLIMIT_DATA rather than RLIMIT_AS: V8 reserves far more address space than it uses
+    `--data=${limits.memoryMb * 1024 * 1024}`,
+    `--nproc=${limits.maxProcesses}`,
+    `--fsize=${limits.maxFileBytes}`,
+    `--nofile=${limits.maxOpenFiles}`,
+    '--core=0',
+    '--',
+    ...command
+  ];
+
+  switch (getSandboxMode()) {
+    case 'bwrap':
+      return [
+        'bwrap',
+        ...readOnlyPaths().flatMap(p => ['--ro-bind-try', p, p]),
+        '--dev', '/dev',
+        '--proc', '/proc',
+        '--tmpfs', '/tmp',
+        '--bind', workDir, workDir,
+        '--chdir', workDir,
+        '--unshare-all',
+        '--die-with-parent',
+        '--new-session',
+        '--',
+        ...limited
+      ];
+    case 'unshare':
+      return unshareCommand(limited, workDir);
+    default:
+      return limited;
+  }
+}
+
+// Starts `command` in the sandbox without any wall-clock limit; the caller owns
+// the process and must eventually killTree() it.
+export function spawnSandboxed(
+  command: string[],
+  workDir: string,
+  limits: SandboxLimits,
+  env: Record<string, string> = {}
+): ChildProcessWithoutNullStreams {
+  const [bin, ...args] = buildSandboxCommand(command, workDir, limits);
+  const unshared = getSandboxMode() === 'unshare';
+  if (unshared) mkdirSync(sandboxRoot(workDir), { recursive: true });
+  const child = spawn(bin, args, {
+    cwd: workDir,
+    env: sandboxEnv(workDir, env),
+    stdio: ['pipe', 'pipe', 'pipe'],
+    detached: true // own process group so the whole tree can be killed
+  });
+  child.stdin.on('error', () => {}); // EPIPE when the program exits without reading
+  if (unshared) child.on('close', () => removeSandboxRoot(workDir));
+  return child;
+}
+
+export function runSandboxed(
+  command: string[],
+  workDir: string,
+  limits: SandboxLimits,
+  { stdin, onOutput, signal }: RunOptions = {},
+  env: Record<string, string> = {}
+): Promise<ProcessResult> {
+  return new Promise((resolve) => {
+    const child = spawnSandboxed(command, workDir, limits, env);
+    child.stdin.end(stdin ?? '');
+
+    const output = {
+      stdout: new OutputBuffer(limits.maxOutputBytes),
+      stderr: new OutputBuffer(limits.maxOutputBytes)
+    };
+    const decoders = { stdout: new StringDecoder('utf8'), stderr: new StringDecoder('utf8') };
+    let timedOut = false;
+    let cancelled = false;
+
+    const capture = (stream: OutputStream) => (data: Buffer) => {
+      const kept = output[stream].append(data);
+      if (onOutput && kept.length) {
+        const text = decoders[stream].write(kept);
+        if (text) onOutput(stream, text);
+      }
+    };
+    child.stdout.on('data', capture('stdout'));
+    child.stderr.on('data', capture('stderr'));
+
+    const timeoutId = setTimeout(() => {
+      timedOut = true;
+      killTree(child.pid);
+    }, limits.wallClockMs);
+
+    const cancel = () => {
+      cancelled = true;
+      killTree(child.pid);
+    };
+    if (signal?.aborted) cancel();
+    signal?.addEventListener('abort', cancel);
+
+    const finish = (exitCode: number | null, exitSignal: string | null, error?: string) => {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', cancel);
+      for (const stream of ['stdout', 'stderr'] as const) {
+        const rest = decoders[stream].end();
+        if (onOutput && rest) onOutput(stream, rest);
+      }
+      resolve({
+        stdout: output.stdout.toString(),
+        stderr: output.stderr.toString(),
+        exitCode,
+        signal: exitSignal,
+        timedOut,
+        cancelled,
+        truncated: output.stdout.truncated || output.stderr.truncated,
+        ...(error ? { error } : {})
+      });
+    };
+
+    child.on('close', (code, exitSignal) => finish(code, exitSignal));
+    child.on('error', (err) => finish(null, null, err.message));
+  });
+}
+
+// Keeps the first `limit` bytes of a stream and drops the rest so a chatty
+// program cannot exhaust server memory.
+export class OutputBuffer {
+  private chunks: Buffer[] = [];
+  private size = 0;
+  private dropped = 0;
+
+  constructor(private limit: number) {}
+
+  get truncated(): boolean {
+    return this.dropped > 0;
+  }
+
+  // Returns the part of `data` that was kept
+  append(data: Buffer): Buffer {
+    const room = Math.max(this.limit - this.size, 0);
+    const kept = data.length > room ? data.subarray(0, room) : data;
+    if (kept.length) {
+      this.chunks.push(kept);
+      this.size += kept.length;
+    }
+    this.dropped += data.length - kept.length;
+    return kept;
+  }
+
+  toString(): string {
+    const text = Buffer.concat(this.chunks).toString('utf8');
+    return this.truncated ? `${text}\n[output truncated: ${this.dropped} more bytes]` : text;
+  }
+}
+
+export function killTree(pid?: number) {
+  if (!pid) return;
+  try {
+    process.kill(-pid, 'SIGKILL');
+  } catch {
+    // Already gone
+  }
+}
@@ -0,0 +1,167 @@
+import { randomUUID } from 'crypto';
+import { existsSync, mkdirSync, rmSync, writeFileSync } from 'fs';
+import { homedir, tmpdir } from 'os';
+import { join } from 'path';
+import { afterAll, afterEach, beforeAll, describe, expect, it } from 'vitest';
+import { closeSession, enabledLanguages, executeCode, getSandboxMode, isValidSessionId, runInSession } from './index';
+import { OutputBuffer } from './runner';
+
+function sandboxAvailable(): boolean {
+  try {
+    return getSandboxMode() !== 'none';
+  } catch {
+    return false;
+  }
+}
+
+const available = sandboxAvailable();
+
+describe.runIf(available)('sandbox isolation', () => {
+  const secret = `secret-${randomUUID()}`;
+  // Host files the sandboxed code must not see
+  const hostDir = join(tmpdir(), `code-execution-host-${randomUUID()}`);
+  const hostFile = join(hostDir, 'private.txt');
+  // Toolchains under $HOME are mounted read-only on purpose; nothing else is
+  const homeFile = join(homedir(), `.sandbox-test-${randomUUID()}`);
+
+  beforeAll(() => {
+    process.env.SANDBOX_TEST_SECRET = secret;
+    mkdirSync(hostDir);
+    writeFileSync(hostFile, secret);
+    writeFileSync(homeFile, secret);
+  });
+
+  afterAll(() => {
+    delete process.env.SANDBOX_TEST_SECRET;
+    rmSync(hostDir, { recursive: true, force: true });
+    rmSync(homeFile, { force: true });
+  });
+
+  it('does not pass server environment variables to the program', async () => {
+    const shell = await executeCode({ language: 'shell', code: 'echo "[$SANDBOX_TEST_SECRET]"; env' });
+    expect(shell.stdout).toContain('[]');
+    expect(shell.stdout).not.toContain(secret);
+
+    const python = await executeCode({ language: 'python', code: 'import os\nprint(os.environ.get("SANDBOX_TEST_SECRET"))' });
+    expect(python.stdout.trim()).toBe('None');
+  });
+
+  it('cannot read the app directory, $HOME or other runs in /tmp', async () => {
+    const result = await executeCode({
+      language: 'shell',
+      code: [
+        `cat ${join(process.cwd(), 'package.json')} && echo LEAK-APP`,
+        `cat ${homeFile} && echo LEAK-HOME`,
+        `cat ${hostFile} && echo LEAK-TMP`,
+        'ls /tmp'
+      ].join('\n')
+    });
+    expect(result.stdout).not.toMatch(/LEAK-/);
+    expect(result.stdout).not.toContain(secret);
+    expect(result.stdout).not.toContain('code-execution-host-');
+  });
+
+  it('cannot write outside its working directory', async () => {
+    const probe = join(tmpdir(), `sandbox-escape-probe-${randomUUID()}`);
+    const result = await executeCode({
+      language: 'shell',
+      code: [
+        `echo x > ${probe}`,
+        `echo x > ${join(process.cwd(), 'sandbox-escape-probe')} || echo APP-DENIED`,
+        'touch /usr/sandbox-escape-probe || echo USR-DENIED',
+        'mount -o remount,rw /usr || echo REMOUNT-DENIED',
+        'echo ok > inside.txt && cat inside.txt'
+      ].join('\n')
+    });
+    expect(existsSync(probe)).toBe(false);
+    expect(existsSync(join(process.cwd(), 'sandbox-escape-probe'))).toBe(false);
+    expect(existsSync('/usr/sandbox-escape-probe')).toBe(false);
+    expect(result.stdout).toContain('APP-DENIED');
+    expect(result.stdout).toContain('USR-DENIED');
+    expect(result.stdout).toContain('REMOUNT-DENIED');
+    expect(result.stdout).toContain('ok');
+  });
+
+  it('caps the output it keeps', async () => {
+    const result = await executeCode({
+      language: 'python',
+      code: 'print("x" * 100000)',
+      limits: { maxOutputBytes: 1000 }
+    });
+    expect(result.truncated).toBe(true);
+    expect(result.stdout.startsWith('x'.repeat(1000))).toBe(true);
+    expect(result.stdout).toContain('[output truncated:');
+  });
+});
+
+describe.runIf(available)('sessions', () => {
+  it('mints the session id and keeps state between cells', async () => {
+    const first = await runInSession({ owner: 'alice', language: 'python', code: 'x = 41' });
+    expect(isValidSessionId(first.sessionId)).toBe(true);
+
+    const second = await runInSession({ sessionId: first.sessionId, owner: 'alice', language: 'python', code: 'x + 1' });
+    expect(second.stdout.trim()).toBe('42');
+    expect(second.executionCount).toBe(2);
+    expect(closeSession(first.sessionId, 'alice')).toBe(true);
+  });
+
+  it('only lets the owner use or close a session', async () => {
+    const { sessionId } = await runInSession({ owner: 'alice', language: 'python', code: 'secret = 1' });
+    await expect(runInSession({ sessionId, owner: 'mallory', language: 'python', code: 'secret' })).rejects.toThrow(/Session not found/);
+    expect(closeSession(sessionId, 'mallory')).toBe(false);
+    expect(closeSession(sessionId, 'alice')).toBe(true);
+  });
+
+  it('rejects session ids it did not mint', async () => {
+    await expect(runInSession({ sessionId: 'a'.repeat(32), owner: 'alice', language: 'python', code: '1' })).rejects.toThrow(/Session not found/);
+  });
+});
+
+describe.skipIf(available)('without a sandbox runtime', () => {
+  it('refuses to run code', async () => {
+    await expect(executeCode({ language: 'shell', code: 'echo hi' })).rejects.toThrow(/No sandbox runtime/);
+  });
+});
+
+describe('language allow-list', () => {
+  const configured = process.env.SANDBOX_LANGUAGES;
+
+  afterEach(() => {
+    if (configured === undefined) delete process.env.SANDBOX_LANGUAGES;
+    else process.env.SANDBOX_LANGUAGES = configured;
+  });
+
+  it('only enables the configured languages', () => {
+    process.env.SANDBOX_LANGUAGES = 'python, Shell,cobol';
+    expect(enabledLanguages().sort()).toEqual(['python', 'shell']);
+  });
+
+  it('rejects disabled and unknown languages before running anything', async () => {
+    process.env.SANDBOX_LANGUAGES = 'python';
+    await expect(executeCode({ language: 'javascript', code: 'console.log(1)' })).rejects.toThrow(/Unsupported or disabled language: javascript/);
+    await expect(executeCode({ language: 'cobol' as any, code: '' })).rejects.toThrow(/Unsupported or disabled language/);
+  });
+
+  it('rejects disabled languages in sessions', async () => {
+    process.env.SANDBOX_LANGUAGES = 'python';
+    await expect(runInSession({ owner: 'test', language: 'javascript', code: 'console.log(1)' })).rejects.toThrow(/Unsupported or disabled language: javascript/);
+  });
+});
+
+describe('OutputBuffer', () => {
+  it('keeps everything under the limit', () => {
+    const buffer = new OutputBuffer(10);
+    expect(buffer.append(Buffer.from('hello')).toString()).toBe('hello');
+    expect(buffer.truncated).toBe(false);
+    expect(buffer.toString()).toBe('hello');
+  });
+
+  it('keeps the first bytes and reports how many were dropped', () => {
+    const buffer = new OutputBuffer(8);
+    expect(buffer.append(Buffer.from('hello')).toString()).toBe('hello');
+    expect(buffer.append(Buffer.from('world!')).toString()).toBe('wor');
+    expect(buffer.append(Buffer.from('more')).length).toBe(0);
+    expect(buffer.truncated).toBe(true);
+    expect(buffer.toString()).toBe('hellowor\n[output truncated: 7 more bytes]');
+  });
+});
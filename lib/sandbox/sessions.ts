@@ -0,0 +1,413 @@
+import { ChildProcessWithoutNullStreams } from 'child_process';
+import { randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { StringDecoder } from 'string_decoder';
+import { collectArtifacts, fileStamps, listGeneratedFiles } from './artifacts';
+import type { ExecutionResult } from './index';
+import { isSupportedLanguage } from './languages';
+import { DEFAULT_LIMITS, killTree, OutputBuffer, OutputStream, RunOptions, SandboxLimits, spawnSandboxed } from './runner';
+
+export type SessionLanguage = 'python' | 'javascript';
+
+export interface SessionRequest extends RunOptions {
+  // Omit to start a new session; its minted id comes back in the result
+  sessionId?: string;
+  // Whoever started the session; other owners get SessionNotFoundError
+  owner: string;
+  language: SessionLanguage;
+  code: string;
+  timeoutMs?: number;
+  collectArtifacts?: boolean;
+}
+
+export interface SessionResult extends ExecutionResult {
+  sessionId: string;
+  executionCount: number;
+  // False when the kernel had to be killed and its state was lost
+  alive: boolean;
+}
+
+export interface SessionInfo {
+  id: string;
+  language: SessionLanguage;
+  executionCount: number;
+  createdAt: number;
+  lastUsedAt: number;
+}
+
+const SESSION_IDLE_MS = Number(process.env.SANDBOX_SESSION_IDLE_MS) || 15 * 60 * 1000;
+const MAX_SESSIONS = Number(process.env.SANDBOX_MAX_SESSIONS) || 8;
+const SESSION_ID_PATTERN = /^[A-Za-z0-9_-]{32}$/;
+
+// Unknown, expired and other owners' sessions look the same to the caller
+export class SessionNotFoundError extends Error {
+  constructor(sessionId: string) {
+    super(`Session not found or expired: ${sessionId}`);
+    this.name = 'SessionNotFoundError';
+  }
+}
+
+// A kernel lives much longer than a single run, so its CPU budget is for the
+// whole session; each cell still gets the usual wall-clock limit.
+const SESSION_LIMITS: SandboxLimits = {
+  ...DEFAULT_LIMITS,
+  cpuSeconds: Number(process.env.SANDBOX_SESSION_CPU_SECONDS) || 300
+};
+
+// The kernels read one JSON request per line from stdin and, after each cell,
+// write `\x1e<nonce>` to stderr and `\x1e<nonce>{"ok":...}` to stdout so the
+// host knows both streams are drained. The last expression's value is printed.
+const PYTHON_KERNEL = `
+import ast, json, os, sys, traceback
+NONCE = '\\x1e' + os.environ.pop('KERNEL_NONCE')
+requests = sys.stdin
+sys.stdin = open(os.devnull)
+ns = {'__name__': '__main__', '__builtins__': __builtins__}
+for line in requests:
+    ok = True
+    try:
+        tree = ast.parse(json.loads(line)['code'], '<cell>', 'exec')
+        last = tree.body.pop() if tree.body and isinstance(tree.body[-1], ast.Expr) else None
+        exec(compile(tree, '<cell>', 'exec'), ns)
+        if last is not None:
+            value = eval(compile(ast.Expression(last.value), '<cell>', 'eval'), ns)
+            if value is not None:
+                print(repr(value))
+    except BaseException as error:
+        ok = False
+        # Drop the kernel's own frame from the traceback
+        traceback.print_exception(type(error), error, error.__traceback__.tb_next)
+    for stream in (sys.stdout, sys.stderr):
+        try:
+            stream.flush()
+        except Exception:
+            pass
+    sys.__stderr__.write(NONCE + '\\n')
+    sys.__stderr__.flush()
+    sys.__stdout__.write(NONCE + json.dumps({'ok': ok}) + '\\n')
+    sys.__stdout__.flush()
+`;
+
+const NODE_KERNEL = `
+const readline = require('readline'), util = require('util'), vm = require('vm');
+const NONCE = '\\x1e' + process.env.KERNEL_NONCE;
+delete process.env.KERNEL_NONCE;
+globalThis.require = require;
+const write = (stream, text) => new Promise((resolve) => stream.write(text, resolve));
+const trim = (e) => String(e && e.stack || e).split('\\n').filter((l) => !/node:|\\[eval\\]/.test(l)).join('\\n');
+process.on('uncaughtException', (e) => console.error(trim(e)));
+process.on('unhandledRejection', (e) => console.error(trim(e)));
+// Top-level await needs an async wrapper, which makes declarations cell-local
+const script = (code) => {
+  try {
+    return new vm.Script(code, { filename: 'cell' });
+  } catch (e) {
+    if (!/await/.test(String(e))) throw e;
+    try {
+      return new vm.Script('(async () => (' + code + '\\n))()', { filename: 'cell' });
+    } catch {
+      return new vm.Script('(async () => {' + code + '\\n})()', { filename: 'cell' });
+    }
+  }
+};
+(async () => {
+  for await (const line of readline.createInterface({ input: process.stdin })) {
+    let ok = true;
+    try {
+      let value = script(JSON.parse(line).code).runInThisContext();
+      if (value && typeof value.then === 'function') value = await value;
+      if (value !== undefined) console.log(util.inspect(value, { depth: 4 }));
+    } catch (e) {
+      ok = false;
+      console.error(trim(e));
+    }
+    await write(process.stderr, NONCE + '\\n');
+    await write(process.stdout, NONCE + JSON.stringify({ ok }) + '\\n');
+  }
+})();
+`;
+
+const KERNELS: Record<SessionLanguage, string[]> = {
+  python: ['python3', '-u', '-c', PYTHON_KERNEL],
+  javascript: ['node', '-e', NODE_KERNEL]
+};
+
+type CellOptions = Omit<SessionRequest, 'sessionId' | 'owner' | 'language' | 'code'>;
+
+interface PendingCell {
+  stdout: OutputBuffer;
+  stderr: OutputBuffer;
+  onOutput?: (stream: OutputStream, text: string) => void;
+  done: { stdout?: boolean; stderr?: boolean };
+  ok: boolean;
+  resolve: () => void;
+}
+
+class KernelSession {
+  readonly createdAt = Date.now();
+  lastUsedAt = Date.now();
+  executionCount = 0;
+  alive = true;
+
+  private child: ChildProcessWithoutNullStreams;
+  private marker: string;
+  private pending: PendingCell | null = null;
+  private buffers: Record<OutputStream, string> = { stdout: '', stderr: '' };
+  private decoders = { stdout: new StringDecoder('utf8'), stderr: new StringDecoder('utf8') };
+  private queue: Promise<unknown> = Promise.resolve();
+  private idleTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    readonly id: string,
+    readonly owner: string,
+    readonly language: SessionLanguage,
+    readonly workDir: string
+  ) {
+    const nonce = randomBytes(16).toString('hex');
+    this.marker = `\x1e${nonce}`;
+    this.child = spawnSandboxed(KERNELS[language], workDir, SESSION_LIMITS, { KERNEL_NONCE: nonce });
+
+    this.child.stdout.on('data', (data: Buffer) => this.receive('stdout', data));
+    this.child.stderr.on('data', (data: Buffer) => this.receive('stderr', data));
+    this.child.on('close', () => this.close());
+    this.child.on('error', (error) => {
+      console.error(`Kernel ${id} failed:`, error);
+      this.close();
+    });
+    this.touch();
+  }
+
+  // Cells run one at a time in submission order
+  run(code: string, options: CellOptions): Promise<SessionResult> {
+    const result = this.queue.then(() => this.execute(code, options));
+    this.queue = result.catch(() => {});
+    return result;
+  }
+
+  private async execute(
+    code: string,
+    { timeoutMs, collectArtifacts: collect, onOutput, signal }: CellOptions
+  ): Promise<SessionResult> {
+    const startTime = Date.now();
+    const before = await fileStamps(this.workDir);
+    const wallClockMs = Math.min(timeoutMs || Infinity, DEFAULT_LIMITS.wallClockMs);
+    this.executionCount++;
+    this.touch();
+
+    const cell: PendingCell = {
+      stdout: new OutputBuffer(DEFAULT_LIMITS.maxOutputBytes),
+      stderr: new OutputBuffer(DEFAULT_LIMITS.maxOutputBytes),
+      onOutput,
+      done: {},
+      ok: false,
+      resolve: () => {}
+    };
+
+    let timedOut = false;
+    let cancelled = false;
+
+    if (this.alive && !signal?.aborted) {
+      this.pending = cell;
+      await new Promise<void>((resolve) => {
+        cell.resolve = resolve;
+        // Interrupting a cell leaves the kernel in an unknown state, so kill it
+        const timer = setTimeout(() => {
+          timedOut = true;
+          this.close();
+        }, wallClockMs);
+        const cancel = () => {
+          cancelled = true;
+          this.close();
+        };
+        signal?.addEventListener('abort', cancel);
+        const finish = cell.resolve;
+        cell.resolve = () => {
+          clearTimeout(timer);
+          signal?.removeEventListener('abort', cancel);
+          finish();
+        };
+        this.child.stdin.write(JSON.stringify({ code }) + '\n');
+      });
+    } else {
+      cancelled = !!signal?.aborted;
+    }
+    this.pending = null;
+    this.touch();
+
+    const files = await listGeneratedFiles(this.workDir, new Set(), before);
+    const collected = collect ? await collectArtifacts(this.workDir, files) : null;
+
+    let error: string | undefined;
+    if (cancelled) {
+      error = 'Execution cancelled; the session was restarted';
+    } else if (timedOut) {
+      error = `Execution timed out after ${wallClockMs}ms; the session was restarted`;
+    } else if (!cell.ok && !this.alive) {
+      error = 'The kernel exited; the session was restarted';
+    } else if (!cell.ok) {
+      error = cell.stderr.toString().trim() || 'Cell failed';
+    }
+
+    return {
+      success: cell.ok,
+      stdout: cell.stdout.toString(),
+      stderr: cell.stderr.toString(),
+      exitCode: cell.ok ? 0 : 1,
+      timedOut,
+      cancelled,
+      truncated: cell.stdout.truncated || cell.stderr.truncated,
+      executionTime: Date.now() - startTime,
+      files,
+      ...(collected && { artifacts: collected.artifacts, omittedArtifacts: collected.omitted }),
+      ...(error ? { error } : {}),
+      sessionId: this.id,
+      executionCount: this.executionCount,
+      alive: this.alive
+    };
+  }
+
+  // Splits kernel output into cell output and end-of-cell markers; a tail
+  // that could be the start of a marker is held back until more arrives.
+  private receive(stream: OutputStream, data: Buffer) {
+    let text = this.buffers[stream] + this.decoders[stream].write(data);
+    const cell = this.pending;
+
+    for (;;) {
+      const index = text.indexOf(this.marker);
+      if (index === -1) break;
+      const lineEnd = text.indexOf('\n', index);
+      if (lineEnd === -1) break;
+
+      this.emit(stream, text.slice(0, index));
+      if (cell) {
+        if (stream === 'stdout') {
+          try {
+            cell.ok = !!JSON.parse(text.slice(index + this.marker.length, lineEnd)).ok;
+          } catch {
+            cell.ok = false;
+          }
+        }
+        cell.done[stream] = true;
+        if (cell.done.stdout && cell.done.stderr) cell.resolve();
+      }
+      text = text.slice(lineEnd + 1);
+    }
+
+    const partial = text.lastIndexOf('\x1e');
+    const hold = partial !== -1 && this.marker.startsWith(text.slice(partial, partial + this.marker.length)) ? partial : text.length;
+    this.emit(stream, text.slice(0, hold));
+    this.buffers[stream] = text.slice(hold);
+  }
+
+  private emit(stream: OutputStream, text: string) {
+    const cell = this.pending;
+    if (!text || !cell) return;
+    const kept = cell[stream].append(Buffer.from(text));
+    if (kept.length) cell.onOutput?.(stream, kept.toString('utf8'));
+  }
+
+  private touch() {
+    this.lastUsedAt = Date.now();
+    if (this.idleTimer) clearTimeout(this.idleTimer);
+    this.idleTimer = setTimeout(() => closeSession(this.id, this.owner), SESSION_IDLE_MS);
+    this.idleTimer.unref?.();
+  }
+
+  // Stops the kernel; the session stays registered until it idles out or is
+  // closed, and the next cell starts a fresh kernel under the same id
+  close() {
+    if (!this.alive) return;
+    this.alive = false;
+    killTree(this.child.pid);
+    this.pending?.resolve();
+    fs.rm(this.workDir, { recursive: true, force: true }).catch((error) => {
+      console.error('Session cleanup error:', error);
+    });
+  }
+
+  dispose() {
+    if (this.idleTimer) clearTimeout(this.idleTimer);
+    this.close();
+  }
+
+  info(): SessionInfo {
+    return {
+      id: this.id,
+      language: this.language,
+      executionCount: this.executionCount,
+      createdAt: this.createdAt,
+      lastUsedAt: this.lastUsedAt
+    };
+  }
+}
+
+const sessions = new Map<string, KernelSession>();
+
+export function isValidSessionId(id: string): boolean {
+  return SESSION_ID_PATTERN.test(id);
+}
+
+export function isSessionLanguage(language: string): language is SessionLanguage {
+  return Object.prototype.hasOwnProperty.call(KERNELS, language);
+}
+
+function ownedSession(sessionId: string, owner: string): KernelSession | null {
+  const session = sessions.get(sessionId);
+  return session && session.owner === owner ? session : null;
+}
+
+async function startKernel(sessionId: string, owner: string, language: SessionLanguage): Promise<KernelSession> {
+  const workDir = await fs.mkdtemp(join(tmpdir(), 'code-session-'));
+  const session = new KernelSession(sessionId, owner, language, workDir);
+  sessions.set(sessionId, session);
+  return session;
+}
+
+// Runs a cell in the owner's session, or in a new session with a minted id
+// when none is given (evicting the least recently used one when full). A
+// session whose kernel died gets a fresh kernel.
+export async function runInSession({ sessionId, owner, language, code, ...options }: SessionRequest): Promise<SessionResult> {
+  if (!isSupportedLanguage(language)) {
+    throw new Error(`Unsupported or disabled language: ${language}`);
+  }
+  if (!isSessionLanguage(language)) {
+    throw new Error(`Sessions are not available for ${language}`);
+  }
+
+  let session: KernelSession | null;
+  if (sessionId === undefined) {
+    if (sessions.size >= MAX_SESSIONS) {
+      const oldest = Array.from(sessions.values()).sort((a, b) => a.lastUsedAt - b.lastUsedAt)[0];
+      closeSession(oldest.id, oldest.owner);
+    }
+    session = await startKernel(randomBytes(24).toString('base64url'), owner, language);
+  } else {
+    session = ownedSession(sessionId, owner);
+    if (!session) {
+      throw new SessionNotFoundError(sessionId);
+    }
+    if (session.language !== language) {
+      throw new Error(`Session ${sessionId} is a ${session.language} session`);
+    }
+    if (!session.alive) {
+      session.dispose();
+      session = await startKernel(sessionId, owner, language);
+    }
+  }
+
+  return session.run(code, options);
+}
+
+export function closeSession(sessionId: string, owner: string): boolean {
+  const session = ownedSession(sessionId, owner);
+  if (!session) return false;
+  session.dispose();
+  sessions.delete(sessionId);
+  return true;
+}
+
+export function getSessionInfo(sessionId: string, owner: string): SessionInfo | null {
+  return ownedSession(sessionId, owner)?.info() || null;
+}
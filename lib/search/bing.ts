@@ -0,0 +1,36 @@
+import { DEFAULT_RESULT_LIMIT, SearchOptions, SearchProvider, SearchResult, fetchSearchJson, hostnameOf, normalizeDate } from './types';
+
+const BING_SEARCH_URL = 'https://api.bing.microsoft.com/v7.0/search';
+
+export class BingSearchProvider implements SearchProvider {
+  readonly name = 'bing';
+  private apiKey: string;
+  private endpoint: string;
+
+  constructor(apiKey: string, endpoint: string = BING_SEARCH_URL) {
+    this.apiKey = apiKey;
+    this.endpoint = endpoint;
+  }
+
+  async search(query: string, options: SearchOptions = {}): Promise<SearchResult[]> {
+    const params = new URLSearchParams({
+      q: query,
+      count: String(options.limit || DEFAULT_RESULT_LIMIT),
+      responseFilter: 'Webpages',
+      textFormat: 'Raw'
+    });
+    const data = await fetchSearchJson(`${this.endpoint}?${params}`, this.name, {
+      headers: { 'Ocp-Apim-Subscription-Key': this.apiKey },
+      signal: options.signal
+    });
+
+    return (data.webPages?.value || []).map((item: any) => ({
+      title: item.name || '',
+      url: item.url,
+      snippet: item.snippet || '',
+      date: normalizeDate(item.datePublished || item.dateLastCrawled),
+      source: hostnameOf(item.url),
+      provider: this.name
+    }));
+  }
+}
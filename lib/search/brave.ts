@@ -0,0 +1,33 @@
+import { DEFAULT_RESULT_LIMIT, SearchOptions, SearchProvider, SearchResult, fetchSearchJson, hostnameOf, normalizeDate, stripTags } from './types';
+
+const BRAVE_SEARCH_URL = 'https://api.search.brave.com/res/v1/web/search';
+
+export class BraveSearchProvider implements SearchProvider {
+  readonly name = 'brave';
+  private apiKey: string;
+
+  constructor(apiKey: string) {
+    this.apiKey = apiKey;
+  }
+
+  async search(query: string, options: SearchOptions = {}): Promise<SearchResult[]> {
+    const params = new URLSearchParams({
+      q: query,
+      count: String(Math.min(options.limit || DEFAULT_RESULT_LIMIT, 20))
+    });
+    const data = await fetchSearchJson(`${BRAVE_SEARCH_URL}?${params}`, this.name, {
+      headers: { 'Accept': 'application/json', 'X-Subscription-Token': this.apiKey },
+      signal: options.signal
+    });
+
+    return (data.web?.results || []).map((item: any) => ({
+      title: stripTags(item.title || ''),
+      url: item.url,
+      // Descriptions come with <strong> highlighting
+      snippet: stripTags(item.description || ''),
+      date: normalizeDate(item.page_age),
+      source: item.meta_url?.hostname?.replace(/^www\./, '') || hostnameOf(item.url),
+      provider: this.name
+    }));
+  }
+}
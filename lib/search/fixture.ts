@@ -0,0 +1,42 @@
+import { readFileSync } from 'fs';
+import { DEFAULT_RESULT_LIMIT, SearchOptions, SearchProvider, SearchResult, hostnameOf } from './types';
+
+export type SearchFixtures = Record<string, Array<Omit<SearchResult, 'provider' | 'source'> & { source?: string }>>;
+
+// Deterministic, network-free provider for local development and tests.
+// Fixtures map a query (case and whitespace insensitive) to its results; the
+// "*" entry answers any query without its own entry.
+export class FixtureSearchProvider implements SearchProvider {
+  readonly name = 'fixture';
+  private fixtures: Map<string, SearchFixtures[string]>;
+
+  constructor(fixtures: SearchFixtures = {}) {
+    this.fixtures = new Map(Object.entries(fixtures).map(([query, results]) => [normalizeQuery(query), results]));
+  }
+
+  static fromFile(path: string): FixtureSearchProvider {
+    return new FixtureSearchProvider(JSON.parse(readFileSync(path, 'utf8')));
+  }
+
+  async search(query: string, options: SearchOptions = {}): Promise<SearchResult[]> {
+    const entries = this.fixtures.get(normalizeQuery(query)) || this.fixtures.get('*') || defaultResults(query);
+    return entries.slice(0, options.limit || DEFAULT_RESULT_LIMIT).map(entry => ({
+      ...entry,
+      source: entry.source || hostnameOf(entry.url),
+      provider: this.name
+    }));
+  }
+}
+
+function normalizeQuery(query: string): string {
+  return query.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+function defaultResults(query: string): SearchFixtures[string] {
+  const slug = encodeURIComponent(normalizeQuery(query).replace(/ /g, '-'));
+  return [1, 2, 3].map(n => ({
+    title: `Fixture result ${n} for ${query}`,
+    url: `https://example.com/${slug}/${n}`,
+    snippet: `Placeholder snippet ${n} about ${query}.`
+  }));
+}
@@ -0,0 +1,37 @@
+import { DEFAULT_RESULT_LIMIT, SearchOptions, SearchProvider, SearchResult, fetchSearchJson, normalizeDate } from './types';
+
+const GOOGLE_CSE_URL = 'https://www.googleapis.com/customsearch/v1';
+
+// Google Programmable Search; returns at most 10 results per request
+export class GoogleSearchProvider implements SearchProvider {
+  readonly name = 'google';
+  private apiKey: string;
+  private cx: string;
+
+  constructor(apiKey: string, cx: string) {
+    this.apiKey = apiKey;
+    this.cx = cx;
+  }
+
+  async search(query: string, options: SearchOptions = {}): Promise<SearchResult[]> {
+    const params = new URLSearchParams({
+      key: this.apiKey,
+      cx: this.cx,
+      q: query,
+      num: String(Math.min(options.limit || DEFAULT_RESULT_LIMIT, 10))
+    });
+    const data = await fetchSearchJson(`${GOOGLE_CSE_URL}?${params}`, this.name, { signal: options.signal });
+
+    return (data.items || []).map((item: any) => {
+      const meta = item.pagemap?.metatags?.[0] || {};
+      return {
+        title: item.title || '',
+        url: item.link,
+        snippet: item.snippet || '',
+        date: normalizeDate(meta['article:published_time'] || meta['og:updated_time']),
+        source: item.displayLink || '',
+        provider: this.name
+      };
+    });
+  }
+}
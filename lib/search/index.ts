@@ -0,0 +1,81 @@
+import { BingSearchProvider } from './bing';
+import { BraveSearchProvider } from './brave';
+import { FixtureSearchProvider } from './fixture';
+import { GoogleSearchProvider } from './google';
+import { SearxngSearchProvider } from './searxng';
+import { SearchOptions, SearchProvider, SearchResult } from './types';
+
+export * from './types';
+export type { SearchFixtures } from './fixture';
+export { BingSearchProvider, BraveSearchProvider, FixtureSearchProvider, GoogleSearchProvider, SearxngSearchProvider };
+
+// Tries each provider in order and returns the first non-failing answer, so an
+// exhausted quota on one backend falls through to the next.
+export class FallbackSearchProvider implements SearchProvider {
+  readonly name: string;
+  private providers: SearchProvider[];
+
+  constructor(providers: SearchProvider[]) {
+    this.providers = providers;
+    this.name = providers.map(p => p.name).join('+');
+  }
+
+  async search(query: string, options: SearchOptions = {}): Promise<SearchResult[]> {
+    let lastError: unknown = null;
+    for (const provider of this.providers) {
+      try {
+        return await provider.search(query, options);
+      } catch (error) {
+        if (options.signal?.aborted) throw error;
+        console.error(`Search provider ${provider.name} failed, trying next:`, error);
+        lastError = error;
+      }
+    }
+    throw lastError || new Error('No search providers configured');
+  }
+}
+
+// Picks providers from SEARCH_PROVIDER, a comma-separated list tried in order
+// (google | bing | brave | searxng | fixture, default google). Providers
+// missing credentials are skipped; returns null when none are usable so
+// callers can report search as unavailable.
+export function createSearchProvider(env: NodeJS.ProcessEnv = process.env): SearchProvider | null {
+  const names = (env.SEARCH_PROVIDER || 'google').split(',').map(name => name.trim().toLowerCase()).filter(Boolean);
+  const providers = names.map(name => createNamedProvider(name, env)).filter((p): p is SearchProvider => !!p);
+
+  if (!providers.length) return null;
+  return providers.length === 1 ? providers[0] : new FallbackSearchProvider(providers);
+}
+
+function createNamedProvider(name: string, env: NodeJS.ProcessEnv): SearchProvider | null {
+  switch (name) {
+    case 'google':
+      if (env.GOOGLE_SEARCH_API_KEY && !env.GOOGLE_SEARCH_CX) {
+        warnMissingCx();
+        return null;
+      }
+      return env.GOOGLE_SEARCH_API_KEY && env.GOOGLE_SEARCH_CX
+        ? new GoogleSearchProvider(env.GOOGLE_SEARCH_API_KEY, env.GOOGLE_SEARCH_CX)
+        : null;
+    case 'bing':
+      return env.BING_SEARCH_API_KEY ? new BingSearchProvider(env.BING_SEARCH_API_KEY, env.BING_SEARCH_ENDPOINT || undefined) : null;
+    case 'brave':
+      return env.BRAVE_SEARCH_API_KEY ? new BraveSearchProvider(env.BRAVE_SEARCH_API_KEY) : null;
+    case 'searxng':
+      return env.SEARXNG_URL ? new SearxngSearchProvider(env.SEARXNG_URL) : null;
+    case 'fixture':
+      return env.SEARCH_FIXTURES ? FixtureSearchProvider.fromFile(env.SEARCH_FIXTURES) : new FixtureSearchProvider();
+    default:
+      throw new Error(`Unknown SEARCH_PROVIDER: ${name}`);
+  }
+}
+
+// Google search used to fall back to a shared public engine; deployments
+// that relied on it now need their own engine id
+let warnedMissingCx = false;
+
+function warnMissingCx() {
+  if (warnedMissingCx) return;
+  warnedMissingCx = true;
+  console.error('Config error: GOOGLE_SEARCH_API_KEY is set but GOOGLE_SEARCH_CX is not, so Google search is disabled. Create a Programmable Search Engine and set GOOGLE_SEARCH_CX to its id; the built-in public engine is no longer used.');
+}
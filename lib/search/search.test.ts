@@ -0,0 +1,139 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  BingSearchProvider,
+  createSearchProvider,
+  FallbackSearchProvider,
+  FixtureSearchProvider,
+  GoogleSearchProvider,
+  SearchProvider
+} from './index';
+
+const env = (vars: Record<string, string>) => vars as NodeJS.ProcessEnv;
+
+describe('createSearchProvider', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('defaults to Google and returns null without credentials', () => {
+    expect(createSearchProvider(env({}))).toBeNull();
+    expect(createSearchProvider(env({ GOOGLE_SEARCH_API_KEY: 'key', GOOGLE_SEARCH_CX: 'cx' }))).toBeInstanceOf(GoogleSearchProvider);
+  });
+
+  it('reports a Google key without an engine id as a config error', () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect(createSearchProvider(env({ GOOGLE_SEARCH_API_KEY: 'key' }))).toBeNull();
+    expect(error).toHaveBeenCalledWith(expect.stringContaining('GOOGLE_SEARCH_CX'));
+  });
+
+  it('skips providers without credentials', () => {
+    const provider = createSearchProvider(env({ SEARCH_PROVIDER: 'bing, Fixture' }));
+    expect(provider).toBeInstanceOf(FixtureSearchProvider);
+  });
+
+  it('chains configured providers in order', () => {
+    const provider = createSearchProvider(env({
+      SEARCH_PROVIDER: 'bing,google',
+      BING_SEARCH_API_KEY: 'key',
+      GOOGLE_SEARCH_API_KEY: 'key',
+      GOOGLE_SEARCH_CX: 'cx'
+    }));
+    expect(provider).toBeInstanceOf(FallbackSearchProvider);
+    expect(provider?.name).toBe('bing+google');
+  });
+
+  it('rejects unknown providers', () => {
+    expect(() => createSearchProvider(env({ SEARCH_PROVIDER: 'altavista' }))).toThrow(/Unknown SEARCH_PROVIDER: altavista/);
+  });
+
+  it('constructs each provider from its own variables', () => {
+    expect(createSearchProvider(env({ SEARCH_PROVIDER: 'bing', BING_SEARCH_API_KEY: 'key' }))).toBeInstanceOf(BingSearchProvider);
+    expect(createSearchProvider(env({ SEARCH_PROVIDER: 'brave' }))).toBeNull();
+    expect(createSearchProvider(env({ SEARCH_PROVIDER: 'searxng', SEARXNG_URL: 'http://searx.local' }))?.name).toBe('searxng');
+  });
+});
+
+describe('FixtureSearchProvider', () => {
+  const provider = new FixtureSearchProvider({
+    'Tidal  Power': [
+      { title: 'Tidal power', url: 'https://www.example.org/tidal', snippet: 'About tides' },
+      { title: 'Turbines', url: 'https://energy.example.com/turbines', snippet: 'About turbines', source: 'Energy Weekly' }
+    ],
+    '*': [{ title: 'Anything', url: 'https://example.net/any', snippet: 'Catch-all' }]
+  });
+
+  it('matches queries regardless of case and whitespace', async () => {
+    const results = await provider.search('  tidal power ');
+    expect(results.map(r => r.title)).toEqual(['Tidal power', 'Turbines']);
+  });
+
+  it('normalizes results to the shared shape', async () => {
+    const [first, second] = await provider.search('tidal power');
+    expect(first).toEqual({ title: 'Tidal power', url: 'https://www.example.org/tidal', snippet: 'About tides', source: 'example.org', provider: 'fixture' });
+    expect(second.source).toBe('Energy Weekly');
+  });
+
+  it('applies the limit and answers other queries from the * entry', async () => {
+    expect(await provider.search('tidal power', { limit: 1 })).toHaveLength(1);
+    expect((await provider.search('something else')).map(r => r.url)).toEqual(['https://example.net/any']);
+  });
+
+  it('makes up placeholder results without fixtures', async () => {
+    const results = await new FixtureSearchProvider().search('wave energy');
+    expect(results).toHaveLength(3);
+    expect(results[0].url).toBe('https://example.com/wave-energy/1');
+  });
+});
+
+describe('FallbackSearchProvider', () => {
+  const failing: SearchProvider = {
+    name: 'failing',
+    search: async () => { throw new Error('quota exceeded'); }
+  };
+
+  it('falls through to the next provider when one fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const provider = new FallbackSearchProvider([failing, new FixtureSearchProvider()]);
+    const results = await provider.search('wave energy');
+    expect(results[0].provider).toBe('fixture');
+    vi.restoreAllMocks();
+  });
+
+  it('throws the last error when every provider fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    await expect(new FallbackSearchProvider([failing]).search('x')).rejects.toThrow('quota exceeded');
+    vi.restoreAllMocks();
+  });
+});
+
+describe('GoogleSearchProvider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('normalizes Custom Search items', async () => {
+    const fetch = vi.fn(async () => new Response(JSON.stringify({
+      items: [{
+        title: 'Tidal power',
+        link: 'https://example.org/tidal',
+        snippet: 'About tides',
+        displayLink: 'example.org',
+        pagemap: { metatags: [{ 'article:published_time': '2024-03-18T09:30:00+01:00' }] }
+      }]
+    })));
+    vi.stubGlobal('fetch', fetch);
+
+    const results = await new GoogleSearchProvider('key', 'engine').search('tidal power', { limit: 20 });
+    expect(results).toEqual([{
+      title: 'Tidal power',
+      url: 'https://example.org/tidal',
+      snippet: 'About tides',
+      date: '2024-03-18T08:30:00.000Z',
+      source: 'example.org',
+      provider: 'google'
+    }]);
+    const url = new URL(String((fetch.mock.calls[0] as unknown[])[0]));
+    expect(url.searchParams.get('cx')).toBe('engine');
+    expect(url.searchParams.get('num')).toBe('10');
+  });
+});
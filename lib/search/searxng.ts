@@ -0,0 +1,29 @@
+import { DEFAULT_RESULT_LIMIT, SearchOptions, SearchProvider, SearchResult, fetchSearchJson, hostnameOf, normalizeDate } from './types';
+
+// Self-hosted SearXNG instance; the JSON format must be enabled in its settings.yml
+export class SearxngSearchProvider implements SearchProvider {
+  readonly name = 'searxng';
+  private baseUrl: string;
+
+  constructor(baseUrl: string) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  async search(query: string, options: SearchOptions = {}): Promise<SearchResult[]> {
+    const params = new URLSearchParams({ q: query, format: 'json' });
+    const data = await fetchSearchJson(`${this.baseUrl}/search?${params}`, this.name, {
+      headers: { 'Accept': 'application/json' },
+      signal: options.signal
+    });
+
+    // SearXNG has no page size parameter, so trim locally
+    return (data.results || []).slice(0, options.limit || DEFAULT_RESULT_LIMIT).map((item: any) => ({
+      title: item.title || '',
+      url: item.url,
+      snippet: item.content || '',
+      date: normalizeDate(item.publishedDate),
+      source: hostnameOf(item.url),
+      provider: this.name
+    }));
+  }
+}
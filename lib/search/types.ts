@@ -0,0 +1,48 @@
+export interface SearchResult {
+  title: string;
+  url: string;
+  snippet: string;
+  date?: string; // publish or crawl date as reported by the backend, ISO 8601 where possible
+  source: string; // site the result belongs to, e.g. "en.wikipedia.org"
+  provider: string; // backend that returned it
+}
+
+export interface SearchOptions {
+  limit?: number;
+  signal?: AbortSignal;
+}
+
+export interface SearchProvider {
+  readonly name: string;
+  search(query: string, options?: SearchOptions): Promise<SearchResult[]>;
+}
+
+export const DEFAULT_RESULT_LIMIT = 8;
+
+export function hostnameOf(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return '';
+  }
+}
+
+// Backends report dates in assorted formats; keep whatever parses, as ISO
+export function normalizeDate(value: unknown): string | undefined {
+  if (typeof value !== 'string' || !value.trim()) return undefined;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? undefined : new Date(time).toISOString();
+}
+
+export function stripTags(text: string): string {
+  return text.replace(/<[^>]+>/g, '').replace(/\s+/g, ' ').trim();
+}
+
+export async function fetchSearchJson(url: string, provider: string, init: RequestInit): Promise<any> {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    // 429 and 403 usually mean the quota ran out; callers may fall back to another provider
+    throw new Error(`${provider} search failed with status ${response.status}`);
+  }
+  return response.json();
+}
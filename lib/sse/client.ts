@@ -0,0 +1,135 @@
+// Browser-side reader for the event protocol in ./types
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { readServerSentEvents } from './parse';
+import { RUN_ID_HEADER, StreamEvent, StreamEventOf, StreamEventType, isTerminalEvent } from './types';
+
+export type StreamHandlers = {
+  [T in StreamEventType]?: (event: StreamEventOf<T>) => void;
+};
+
+export class StreamError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StreamError';
+  }
+}
+
+// The connection ended before the server sent complete or error
+export class StreamInterruptedError extends StreamError {
+  constructor() {
+    super('The connection was interrupted');
+    this.name = 'StreamInterruptedError';
+  }
+}
+
+const MAX_RECONNECTS = 5;
+const RECONNECT_DELAY_MS = 1000;
+
+// Dispatches each event of a streaming response to its handler. Resolves with
+// the complete event; an error event, a failed request or a stream that ends
+// early all reject with a StreamError.
+export async function readEventStream(response: Response, handlers: StreamHandlers, onEventId?: (id: string) => void): Promise<StreamEventOf<'complete'>> {
+  if (!response.ok || !response.body) {
+    const body = await response.json().catch(() => ({}));
+    throw new StreamError(body.error || `Request failed with status ${response.status}`);
+  }
+
+  for await (const message of readServerSentEvents(response.body)) {
+    let event: StreamEvent;
+    try {
+      event = JSON.parse(message.data);
+    } catch {
+      continue;
+    }
+    if (message.id) onEventId?.(message.id);
+
+    const handler = handlers[event.type] as ((event: StreamEvent) => void) | undefined;
+    handler?.(event);
+
+    if (isTerminalEvent(event)) {
+      if (event.type === 'error') throw new StreamError(event.error);
+      return event;
+    }
+  }
+
+  throw new StreamInterruptedError();
+}
+
+// One streaming request. runId is set once the server says the request runs
+// as a resumable run.
+export interface StreamRequest {
+  controller: AbortController;
+  runId: string | null;
+}
+
+export function createStreamRequest(runId: string | null = null): StreamRequest {
+  return { controller: new AbortController(), runId };
+}
+
+// Reads a streaming response and, for resumable runs, picks a dropped
+// connection up again from the last event seen. A request created with a
+// runId resumes that run from the start instead of fetching input.
+export async function followEventStream(request: StreamRequest, input: string, init: RequestInit, handlers: StreamHandlers): Promise<StreamEventOf<'complete'>> {
+  const { signal } = request.controller;
+  let lastEventId = '0';
+  let resuming = request.runId !== null;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const response = resuming
+        ? await fetch(`/api/runs/${request.runId}`, { headers: { 'Last-Event-ID': lastEventId }, signal })
+        : await fetch(input, { ...init, signal });
+      request.runId = response.headers.get(RUN_ID_HEADER) || request.runId;
+      return await readEventStream(response, handlers, id => { lastEventId = id; });
+    } catch (error) {
+      // TypeError is how fetch reports a network failure
+      const dropped = error instanceof StreamInterruptedError || error instanceof TypeError;
+      if (!request.runId || !dropped || signal.aborted || attempt >= MAX_RECONNECTS) throw error;
+    }
+    resuming = true;
+    await new Promise(resolve => setTimeout(resolve, RECONNECT_DELAY_MS * (attempt + 1)));
+  }
+}
+
+// Runs report their cancellation as an error event on the open stream;
+// anything else is just hung up on
+export function cancelStreamRequest(request: StreamRequest) {
+  if (!request.runId) {
+    request.controller.abort();
+    return;
+  }
+  fetch(`/api/runs/${request.runId}`, { method: 'DELETE' }).catch(() => request.controller.abort());
+}
+
+// Starts streaming requests and aborts the ones still open on unmount. When
+// the server runs the request as a resumable run, a dropped connection is
+// picked up again from the last event seen, and cancel() stops the run on
+// the server rather than just hanging up.
+export function useEventStream() {
+  const open = useRef(new Set<StreamRequest>());
+  const [active, setActive] = useState(0);
+
+  useEffect(() => {
+    const requests = open.current;
+    return () => requests.forEach(request => request.controller.abort());
+  }, []);
+
+  const run = useCallback(async (input: string, init: RequestInit, handlers: StreamHandlers) => {
+    const request = createStreamRequest();
+    open.current.add(request);
+    setActive(n => n + 1);
+
+    try {
+      return await followEventStream(request, input, init, handlers);
+    } finally {
+      open.current.delete(request);
+      setActive(n => n - 1);
+    }
+  }, []);
+
+  const cancel = useCallback(() => {
+    open.current.forEach(cancelStreamRequest);
+  }, []);
+
+  return { run, cancel, active: active > 0 };
+}
@@ -0,0 +1,5 @@
+export * from './types';
+export { readServerSentEvents } from './parse';
+export type { ServerSentEvent } from './parse';
+export { EVENT_STREAM_HEADERS, agentCallbacks, createEventStream, encodeEvent } from './server';
+export type { EventSink, EventStreamOptions, EventStreamWriter } from './server';
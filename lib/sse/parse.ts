@@ -0,0 +1,61 @@
+export interface ServerSentEvent {
+  event?: string;
+  id?: string;
+  data: string;
+}
+
+// Parses a text/event-stream body into individual events. Works in both the
+// browser and the Node runtime since it only relies on web streams.
+export async function* readServerSentEvents(stream: ReadableStream<Uint8Array>): AsyncGenerator<ServerSentEvent> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let current: ServerSentEvent = { data: '' };
+  let hasData = false;
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      let newline: number;
+      while ((newline = buffer.search(/\r?\n/)) !== -1) {
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(buffer[newline] === '\r' ? newline + 2 : newline + 1);
+
+        if (line === '') {
+          // Blank line terminates an event
+          if (hasData) yield current;
+          current = { data: '' };
+          hasData = false;
+          continue;
+        }
+        if (line.startsWith(':')) continue; // comment / keep-alive
+
+        const colon = line.indexOf(':');
+        const field = colon === -1 ? line : line.slice(0, colon);
+        const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+
+        switch (field) {
+          case 'data':
+            current.data = hasData ? `${current.data}\n${value}` : value;
+            hasData = true;
+            break;
+          case 'event':
+            current.event = value;
+            break;
+          case 'id':
+            current.id = value;
+            break;
+        }
+      }
+
+      if (done) {
+        if (hasData) yield current;
+        return;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,98 @@
+import { StreamEvent, isTerminalEvent } from './types';
+
+export const EVENT_STREAM_HEADERS = {
+  'Content-Type': 'text/event-stream',
+  'Cache-Control': 'no-cache',
+  'Connection': 'keep-alive',
+};
+
+// Proxies tend to drop connections that stay silent for a minute or so
+const DEFAULT_HEARTBEAT_MS = 15000;
+
+export interface EventStreamOptions {
+  heartbeatMs?: number; // 0 disables keep-alive pings
+  headers?: Record<string, string>;
+}
+
+// Anything agents can report progress to: a live stream or a buffered run
+export interface EventSink {
+  send(event: StreamEvent): void;
+  readonly signal: AbortSignal;
+}
+
+export interface EventStreamWriter extends EventSink {
+  send(event: StreamEvent, id?: number): void; // id: keep a number assigned elsewhere
+  close(): void;
+  readonly closed: boolean;
+  readonly signal: AbortSignal; // aborted when the client goes away
+}
+
+// Wire format of one event; heartbeats go without an id so they never count
+// as something the client has to have seen
+export function encodeEvent(event: StreamEvent, id?: number): string {
+  return `${id !== undefined ? `id: ${id}\n` : ''}data: ${JSON.stringify(event)}\n\n`;
+}
+
+// Runs `run` against a fresh SSE response. Events are numbered from 1 unless
+// the sender passes its own ids, a terminal event closes the stream, and a thrown error is sent as an error
+// event. The stream also closes once `run` settles.
+export function createEventStream(run: (stream: EventStreamWriter) => void | Promise<void>, options: EventStreamOptions = {}): Response {
+  const encoder = new TextEncoder();
+  const aborter = new AbortController();
+  const heartbeatMs = options.heartbeatMs ?? DEFAULT_HEARTBEAT_MS;
+  let heartbeat: ReturnType<typeof setInterval> | undefined;
+  let closed = false;
+  let nextId = 1;
+
+  const stop = () => {
+    closed = true;
+    if (heartbeat) clearInterval(heartbeat);
+  };
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const writer: EventStreamWriter = {
+        send(event, eventId) {
+          if (closed) return;
+          const id = event.type === 'heartbeat' ? undefined : eventId ?? nextId++;
+          controller.enqueue(encoder.encode(encodeEvent(event, id)));
+          if (isTerminalEvent(event)) writer.close();
+        },
+        close() {
+          if (closed) return;
+          stop();
+          controller.close();
+        },
+        get closed() {
+          return closed;
+        },
+        signal: aborter.signal
+      };
+
+      if (heartbeatMs > 0) {
+        heartbeat = setInterval(() => writer.send({ type: 'heartbeat', time: Date.now() }), heartbeatMs);
+      }
+
+      Promise.resolve()
+        .then(() => run(writer))
+        .catch(error => writer.send({ type: 'error', error: error instanceof Error ? error.message : 'Unknown error' }))
+        .finally(() => writer.close());
+    },
+    cancel() {
+      stop();
+      aborter.abort();
+    }
+  });
+
+  return new Response(stream, { headers: { ...EVENT_STREAM_HEADERS, ...options.headers } });
+}
+
+// Agent phase callbacks that forward straight to the stream
+export function agentCallbacks(stream: EventSink) {
+  return {
+    onPhaseStart: (phaseId: string, description: string) => stream.send({ type: 'phase_start', phaseId, description }),
+    onPhaseUpdate: (phaseId: string, progress: number, data?: any) => stream.send({ type: 'phase_update', phaseId, progress, data }),
+    onPhaseComplete: (phaseId: string, result: any) => stream.send({ type: 'phase_complete', phaseId, result }),
+    onError: (error: string) => stream.send({ type: 'error', error })
+  };
+}
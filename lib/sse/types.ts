@@ -0,0 +1,48 @@
+import type { CitationSource } from '../citations';
+
+// Streams backed by a resumable run name it in this response header
+export const RUN_ID_HEADER = 'X-Run-Id';
+
+// Something a run produced that the client can show or download
+export interface StreamArtifact {
+  kind: 'file' | 'chart';
+  title: string;
+  url?: string;
+  mimeType?: string;
+  size?: number; // bytes
+  expiresAt?: string; // ISO time after which url stops working
+  data?: any; // chart spec and the like
+}
+
+// One step a run expects to go through, announced before it starts
+export interface PlannedPhase {
+  id: string;
+  name: string;
+  description: string;
+  estimatedDuration: number; // seconds
+}
+
+// The one event protocol every streaming route speaks. plan, when sent, is
+// the first event; complete and error are terminal: the server closes the
+// stream after sending either.
+export type StreamEvent =
+  | { type: 'plan'; phases: PlannedPhase[] }
+  | { type: 'phase_start'; phaseId: string; description: string }
+  | { type: 'phase_update'; phaseId: string; progress?: number; data?: any }
+  | { type: 'phase_complete'; phaseId: string; result?: any }
+  // reset: drop the text received so far; stream: which output of a program it came from
+  | { type: 'token'; text: string; reset?: boolean; stream?: 'stdout' | 'stderr' }
+  | { type: 'artifact'; artifact: StreamArtifact }
+  | { type: 'complete'; result: string; sources?: CitationSource[]; reportId?: string; data?: any }
+  | { type: 'error'; error: string }
+  | { type: 'heartbeat'; time: number };
+
+export type StreamEventType = StreamEvent['type'];
+
+export type StreamEventOf<T extends StreamEventType> = Extract<StreamEvent, { type: T }>;
+
+export type TerminalEvent = StreamEventOf<'complete'> | StreamEventOf<'error'>;
+
+export function isTerminalEvent(event: StreamEvent): event is TerminalEvent {
+  return event.type === 'complete' || event.type === 'error';
+}
@@ -0,0 +1,89 @@
+// Builds the chat message a background task leaves behind. A task stores only
+// its reply kind, so after a reload the same builder can rebuild the message
+// from the run's replayed events.
+import type { Msg } from '../components/MessageList';
+import { AgentStep, collectAgentSteps } from './agentSteps';
+import { StreamHandlers } from './sse/client';
+import { StreamArtifact, StreamEventOf } from './sse/types';
+
+export type ReplyKind = 'answer' | 'agent' | 'download';
+
+export interface TaskReply {
+  kind: ReplyKind;
+  handlers: StreamHandlers;
+  message: (complete: StreamEventOf<'complete'>) => Msg;
+}
+
+const SIGNATURE = '**ScynV** <img src="/ai-logo.ico" alt="AI" style="width: 16px; height: 16px; display: inline; margin-left: 4px;">';
+
+// The result as it is, with its sources and report
+export function answerReply(): TaskReply {
+  return {
+    kind: 'answer',
+    handlers: {},
+    message: ({ result, sources, reportId }) => ({ role: 'assistant', content: result, sources, reportId }),
+  };
+}
+
+// The answer with links to the files the agent produced, and its steps
+export function agentReply(): TaskReply & { steps: AgentStep[] } {
+  const { steps, handlers } = collectAgentSteps();
+  const outputs: StreamArtifact[] = [];
+
+  return {
+    kind: 'agent',
+    steps,
+    handlers: {
+      ...handlers,
+      artifact: (event) => { if (event.artifact.url) outputs.push(event.artifact); },
+    },
+    message: ({ result, sources, reportId }) => {
+      const links = outputs.map(f => `\n📁 <a href="${f.url}" target="_blank" style="color: #D78AC5; text-decoration: underline;">${f.title}</a>`).join('');
+      return { role: 'assistant', content: result + (links && `\n${links}`), sources, reportId, steps: steps.length ? steps : undefined };
+    },
+  };
+}
+
+// A download link for the file; `started` tells a failed request apart from
+// a download that failed once yt-dlp was running
+export function downloadReply(): TaskReply & { started: () => boolean } {
+  let started = false;
+  let file: StreamArtifact | undefined;
+
+  return {
+    kind: 'download',
+    started: () => started,
+    handlers: {
+      phase_start: () => { started = true; },
+      artifact: (event) => { file = event.artifact; },
+    },
+    message: () => {
+      const format = file?.mimeType === 'audio/mpeg' ? 'MP3' : 'MP4';
+      return {
+        role: 'assistant',
+        content: `${SIGNATURE}
+
+Great! Your ${format} download is ready. Here are the details:
+
+📁 **File:** ${file?.title}
+📊 **Size:** ${((file?.size || 0) / (1024 * 1024)).toFixed(2)} MB
+⏰ **Available for:** 3 minutes
+
+<a href="${file?.url}" download="${file?.title}" style="display: inline-block; background: linear-gradient(135deg, #ef4444, #dc2626); color: white; padding: 8px 16px; border-radius: 8px; text-decoration: none; font-weight: 500; margin-top: 8px;">📥 Download to Device</a>
+
+The file will be automatically deleted from our servers in 3 minutes for your privacy and security.`,
+      };
+    },
+  };
+}
+
+export function taskReply(kind: ReplyKind = 'answer'): TaskReply {
+  switch (kind) {
+    case 'agent':
+      return agentReply();
+    case 'download':
+      return downloadReply();
+    default:
+      return answerReply();
+  }
+}
@@ -0,0 +1,67 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { assertPublicUrl, fetchPublicUrl, isPrivateAddress } from './address';
+import { isAllowedByRobots } from './robots';
+
+describe('isPrivateAddress', () => {
+  it('rejects loopback, private, link-local, CGNAT and metadata addresses', () => {
+    for (const address of [
+      '127.0.0.1', '10.1.2.3', '172.16.0.1', '172.31.255.255', '192.168.1.1', '169.254.169.254',
+      '100.64.0.1', '100.100.100.200', '0.0.0.0', '::1', '::', 'fe80::1', 'fd00:ec2::254', '::ffff:127.0.0.1'
+    ]) {
+      expect(isPrivateAddress(address), address).toBe(true);
+    }
+  });
+
+  it('accepts public addresses', () => {
+    for (const address of ['93.184.216.34', '172.32.0.1', '100.128.0.1', '2606:4700::1111', '::ffff:8.8.8.8']) {
+      expect(isPrivateAddress(address), address).toBe(false);
+    }
+  });
+});
+
+describe('assertPublicUrl', () => {
+  it('rejects hosts that resolve to internal addresses', async () => {
+    await expect(assertPublicUrl(new URL('http://localhost:3000/'))).rejects.toThrow(/private or reserved/);
+    await expect(assertPublicUrl(new URL('http://[::1]/'))).rejects.toThrow(/private or reserved/);
+    await expect(assertPublicUrl(new URL('http://169.254.169.254/latest/meta-data/'))).rejects.toThrow(/private or reserved/);
+  });
+});
+
+describe('fetchPublicUrl', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  const redirect = (location: string) => new Response(null, { status: 302, headers: { location } });
+
+  it('follows redirects between public addresses', async () => {
+    const fetch = vi.fn()
+      .mockResolvedValueOnce(redirect('/next'))
+      .mockResolvedValueOnce(new Response('ok'));
+    vi.stubGlobal('fetch', fetch);
+
+    const { response, url } = await fetchPublicUrl(new URL('http://93.184.216.34/start'));
+    expect(await response.text()).toBe('ok');
+    expect(url.toString()).toBe('http://93.184.216.34/next');
+    expect(fetch.mock.calls[1][1].redirect).toBe('manual');
+  });
+
+  it('never requests a redirect target on an internal address', async () => {
+    const fetch = vi.fn().mockResolvedValue(redirect('http://169.254.169.254/latest/meta-data/'));
+    vi.stubGlobal('fetch', fetch);
+
+    await expect(fetchPublicUrl(new URL('http://93.184.216.34/'))).rejects.toThrow(/private or reserved/);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('guards robots.txt fetches the same way', async () => {
+    const fetch = vi.fn().mockResolvedValue(redirect('http://127.0.0.1/robots.txt'));
+    vi.stubGlobal('fetch', fetch);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await isAllowedByRobots('http://93.184.216.35/page', 'TestBot');
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(String(fetch.mock.calls[0][0])).toBe('http://93.184.216.35/robots.txt');
+  });
+});
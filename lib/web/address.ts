@@ -0,0 +1,67 @@
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+
+const MAX_REDIRECTS = 5;
+
+// Ranges a server-side fetch must never reach: loopback, private, link-local
+// (cloud metadata lives at 169.254.169.254), CGNAT, and reserved space
+const blocked = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4]
+] as const) {
+  blocked.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+] as const) {
+  blocked.addSubnet(network, prefix, 'ipv6');
+}
+
+export function isPrivateAddress(address: string): boolean {
+  // IPv4-mapped IPv6 (::ffff:127.0.0.1) is checked as the IPv4 address
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped) return isPrivateAddress(mapped[1]);
+
+  const family = isIP(address);
+  if (!family) return true;
+  return blocked.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+// Resolves the URL's host and throws unless every address it resolves to is
+// public. Call it again for each redirect hop.
+export async function assertPublicUrl(url: URL): Promise<void> {
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  const addresses = isIP(host)
+    ? [host]
+    : (await lookup(host, { all: true, verbatim: true })).map(entry => entry.address);
+
+  if (!addresses.length || addresses.some(isPrivateAddress)) {
+    throw new Error(`Refusing to fetch ${url.host}: it resolves to a private or reserved address`);
+  }
+}
+
+// fetch() that follows redirects itself, checking the scheme and address of
+// every hop before it is requested, so a public URL cannot redirect the
+// request to an internal address. `checkHop` adds checks of its own.
+export async function fetchPublicUrl(url: URL, init: RequestInit = {}, checkHop?: (target: URL) => Promise<void>): Promise<{ response: Response; url: URL }> {
+  let target = url;
+  for (let hop = 0; ; hop++) {
+    if (target.protocol !== 'http:' && target.protocol !== 'https:') {
+      throw new Error(`Unsupported URL scheme: ${target.protocol}`);
+    }
+    await assertPublicUrl(target);
+    await checkHop?.(target);
+    const response = await fetch(target, { ...init, redirect: 'manual' });
+
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return { response, url: target };
+    }
+    await response.body?.cancel().catch(() => {});
+    if (hop >= MAX_REDIRECTS) {
+      throw new Error(`Too many redirects fetching ${target}`);
+    }
+    target = new URL(location, target);
+  }
+}
@@ -0,0 +1,87 @@
+import { readPage, ReadablePage } from './reader';
+import { isAllowedByRobots } from './robots';
+import { fetchPublicUrl } from './address';
+
+export { assertPublicUrl, fetchPublicUrl, isPrivateAddress } from './address';
+export { chunkText, selectPassages } from './passages';
+export type { Passage, SelectPassagesOptions, SourceDocument } from './passages';
+export { readPage } from './reader';
+export type { PageImage, PageLink, ReadablePage } from './reader';
+export { isAllowedByRobots, isPathAllowed, parseRobots } from './robots';
+
+export const USER_AGENT = process.env.WEB_USER_AGENT || 'ScynVBot/1.0';
+
+const FETCH_TIMEOUT_MS = 15000;
+const MAX_PAGE_BYTES = 5 * 1024 * 1024;
+
+export interface FetchPageOptions {
+  signal?: AbortSignal;
+  // Set to false only for URLs a user supplied directly
+  respectRobots?: boolean;
+}
+
+export async function fetchReadablePage(url: string, { signal, respectRobots = true }: FetchPageOptions = {}): Promise<ReadablePage> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+  const abort = () => controller.abort();
+  signal?.addEventListener('abort', abort);
+
+  try {
+    return await fetchAndRead(new URL(url), respectRobots, controller.signal);
+  } finally {
+    clearTimeout(timeoutId);
+    signal?.removeEventListener('abort', abort);
+  }
+}
+
+// robots.txt is checked for every redirect hop as well
+async function checkRobots(target: URL) {
+  if (!(await isAllowedByRobots(target.toString(), USER_AGENT))) {
+    throw new Error(`Blocked by robots.txt: ${target}`);
+  }
+}
+
+async function fetchAndRead(url: URL, respectRobots: boolean, signal: AbortSignal): Promise<ReadablePage> {
+  const { response, url: target } = await fetchPublicUrl(url, {
+    headers: {
+      'User-Agent': USER_AGENT,
+      'Accept': 'text/html,application/xhtml+xml;q=0.9,*/*;q=0.5'
+    },
+    signal
+  }, respectRobots ? checkRobots : undefined);
+
+  if (!response.ok) {
+    throw new Error(`Fetching ${target} failed with HTTP ${response.status}`);
+  }
+
+  const type = response.headers.get('content-type') || '';
+  if (type && !/html|xml|text\/plain/i.test(type)) {
+    throw new Error(`Unsupported content type ${type.split(';')[0]} at ${target}`);
+  }
+
+  const declared = Number(response.headers.get('content-length'));
+  if (declared > MAX_PAGE_BYTES) {
+    throw new Error(`Page at ${target} is larger than ${MAX_PAGE_BYTES} bytes`);
+  }
+
+  const body = await readCapped(response, MAX_PAGE_BYTES);
+  // Redirects may have moved us; relative links resolve against the final URL
+  return readPage(body, target.toString());
+}
+
+async function readCapped(response: Response, limit: number): Promise<string> {
+  if (!response.body) return '';
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  while (size < limit) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    size += value.length;
+  }
+  await reader.cancel().catch(() => {});
+
+  return new TextDecoder().decode(Buffer.concat(chunks).subarray(0, limit));
+}
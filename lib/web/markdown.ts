@@ -0,0 +1,172 @@
+// Structural view of the domhandler nodes cheerio produces; cheerio doesn't
+// re-export their types and we only need these fields.
+export interface DomNode {
+  type: string;
+  name?: string;
+  data?: string;
+  attribs?: Record<string, string>;
+  children?: DomNode[];
+}
+
+export interface MarkdownContext {
+  resolve: (href: string) => string | null;
+}
+
+const BLOCK_TAGS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'details', 'div', 'dl', 'fieldset', 'figcaption', 'figure',
+  'footer', 'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'li', 'main', 'nav', 'ol', 'p',
+  'pre', 'section', 'summary', 'table', 'ul'
+]);
+
+export function toMarkdown(node: DomNode, context: MarkdownContext): string {
+  return renderChildren(node, context)
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function renderChildren(node: DomNode, context: MarkdownContext): string {
+  const children = node.children || [];
+  return children.map((child, i) => {
+    // Indentation between block elements would otherwise leak into line starts
+    if (child.type === 'text' && !(child.data || '').trim() && (isBlock(children[i - 1]) || isBlock(children[i + 1]))) {
+      return '';
+    }
+    return render(child, context);
+  }).join('');
+}
+
+function isBlock(node?: DomNode): boolean {
+  return !!node && node.type === 'tag' && BLOCK_TAGS.has((node.name || '').toLowerCase());
+}
+
+function inline(node: DomNode, context: MarkdownContext): string {
+  return renderChildren(node, context).replace(/\s+/g, ' ').trim();
+}
+
+function escapeText(text: string): string {
+  return text.replace(/([\\`*_[\]])/g, '\\$1');
+}
+
+function render(node: DomNode, context: MarkdownContext): string {
+  if (node.type === 'text') {
+    return escapeText((node.data || '').replace(/\s+/g, ' '));
+  }
+  if (node.type !== 'tag' || !node.name) return '';
+
+  const tag = node.name.toLowerCase();
+  const attribs = node.attribs || {};
+
+  switch (tag) {
+    case 'h1':
+    case 'h2':
+    case 'h3':
+    case 'h4':
+    case 'h5':
+    case 'h6': {
+      const text = inline(node, context);
+      return text ? `\n\n${'#'.repeat(Number(tag[1]))} ${text}\n\n` : '';
+    }
+    case 'p':
+    case 'figcaption':
+    case 'summary':
+      return `\n\n${inline(node, context)}\n\n`;
+    case 'br':
+      return '  \n';
+    case 'hr':
+      return '\n\n---\n\n';
+    case 'strong':
+    case 'b': {
+      const text = inline(node, context);
+      return text ? `**${text}**` : '';
+    }
+    case 'em':
+    case 'i': {
+      const text = inline(node, context);
+      return text ? `*${text}*` : '';
+    }
+    case 'code':
+      return `\`${textContent(node).replace(/`/g, '\\`')}\``;
+    case 'pre':
+      return `\n\n\`\`\`\n${textContent(node).replace(/\n$/, '')}\n\`\`\`\n\n`;
+    case 'blockquote': {
+      const body = toMarkdown(node, context);
+      return body ? `\n\n${body.split('\n').map(line => `> ${line}`).join('\n')}\n\n` : '';
+    }
+    case 'a': {
+      const text = inline(node, context);
+      const href = attribs.href ? context.resolve(attribs.href) : null;
+      if (!href || href.startsWith('javascript:')) return text;
+      return text ? `[${text}](${href})` : '';
+    }
+    case 'img': {
+      const src = imageSource(attribs);
+      const resolved = src ? context.resolve(src) : null;
+      return resolved ? `![${escapeText(attribs.alt || '')}](${resolved})` : '';
+    }
+    case 'ul':
+    case 'ol':
+      return `\n\n${renderList(node, tag === 'ol', context)}\n\n`;
+    case 'table':
+      return `\n\n${renderTable(node, context)}\n\n`;
+    default: {
+      const body = renderChildren(node, context);
+      return BLOCK_TAGS.has(tag) ? `\n\n${body}\n\n` : body;
+    }
+  }
+}
+
+// Lazy-loaded images keep the real URL in a data attribute
+export function imageSource(attribs: Record<string, string>): string | null {
+  const srcset = attribs.srcset || attribs['data-srcset'];
+  return attribs['data-src'] || attribs.src || (srcset ? srcset.split(',')[0].trim().split(/\s+/)[0] : null);
+}
+
+function renderList(node: DomNode, ordered: boolean, context: MarkdownContext): string {
+  const items = (node.children || []).filter(child => child.type === 'tag' && child.name === 'li');
+  return items.map((item, i) => {
+    const marker = ordered ? `${i + 1}.` : '-';
+    const body = toMarkdown(item, context);
+    const [first, ...rest] = body.split('\n');
+    return [`${marker} ${first}`, ...rest.map(line => (line ? `   ${line}` : line))].join('\n');
+  }).join('\n');
+}
+
+function renderTable(node: DomNode, context: MarkdownContext): string {
+  const rows = tableRows(node).map(row =>
+    row.map(cell => inline(cell, context).replace(/\|/g, '\\|'))
+  ).filter(row => row.length);
+  if (!rows.length) return '';
+
+  const width = Math.max(...rows.map(row => row.length));
+  const pad = (row: string[]) => [...row, ...Array(width - row.length).fill('')];
+  const [header, ...body] = rows.map(pad);
+
+  return [
+    `| ${header.join(' | ')} |`,
+    `| ${header.map(() => '---').join(' | ')} |`,
+    ...body.map(row => `| ${row.join(' | ')} |`)
+  ].join('\n');
+}
+
+// Rows of the table itself, not of tables nested in its cells
+function tableRows(node: DomNode): DomNode[][] {
+  const rows: DomNode[][] = [];
+  const visit = (current: DomNode) => {
+    for (const child of current.children || []) {
+      if (child.type !== 'tag') continue;
+      if (child.name === 'tr') {
+        rows.push((child.children || []).filter(cell => cell.type === 'tag' && (cell.name === 'td' || cell.name === 'th')));
+      } else if (child.name === 'thead' || child.name === 'tbody' || child.name === 'tfoot') {
+        visit(child);
+      }
+    }
+  };
+  visit(node);
+  return rows;
+}
+
+function textContent(node: DomNode): string {
+  if (node.type === 'text') return node.data || '';
+  return (node.children || []).map(textContent).join('');
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { chunkText, selectPassages, SourceDocument } from './passages';
+
+const doc = (url: string, ...paragraphs: string[]): SourceDocument => ({ url, title: url, text: paragraphs.join('\n\n') });
+// Long enough that each paragraph becomes a chunk of its own
+const filler = (text: string) => `${text} ${'Unrelated context about the weather. '.repeat(30)}`;
+
+describe('chunkText', () => {
+  it('packs paragraphs up to the chunk size and splits long ones on sentences', () => {
+    expect(chunkText('One.\n\nTwo.\n\nThree.', 20)).toEqual(['One.\n\nTwo.\n\nThree.']);
+    expect(chunkText('First sentence here. Second sentence here.', 25)).toEqual(['First sentence here.', 'Second sentence here.']);
+  });
+});
+
+describe('selectPassages', () => {
+  it('ranks chunks by how well they match the query', () => {
+    const passages = selectPassages('tidal turbine output', [
+      doc('https://a.example', filler('Solar panels on roofs.'), filler('Tidal turbine output rose as the tidal turbine fleet grew.')),
+      doc('https://b.example', filler('A turbine was installed.'))
+    ]);
+
+    expect(passages.map(p => p.text.slice(0, 20))).toEqual(['Tidal turbine output', 'A turbine was instal']);
+    expect(passages[0].score).toBeGreaterThan(passages[1].score);
+  });
+
+  it('falls back to document order when nothing matches', () => {
+    const passages = selectPassages('volcanoes', [doc('https://a.example', filler('Lede.'), filler('Second.'))]);
+    expect(passages.map(p => p.text.slice(0, 6))).toEqual(['Lede. ', 'Second']);
+  });
+
+  it('stays within the character budget and the per-source cap', () => {
+    const documents = [
+      doc('https://a.example', ...[1, 2, 3, 4].map(i => filler(`Tides ${i}.`))),
+      doc('https://b.example', filler('Tides elsewhere.'))
+    ];
+
+    const capped = selectPassages('tides', documents, { perSource: 2 });
+    expect(capped.filter(p => p.url === 'https://a.example')).toHaveLength(2);
+    expect(capped.some(p => p.url === 'https://b.example')).toBe(true);
+
+    const budget = documents[0].text.split('\n\n')[0].length * 2 + 10;
+    const limited = selectPassages('tides', documents, { maxChars: budget });
+    expect(limited).toHaveLength(2);
+    expect(limited.reduce((sum, p) => sum + p.text.length, 0)).toBeLessThanOrEqual(budget);
+  });
+});
@@ -0,0 +1,102 @@
+export interface SourceDocument {
+  url: string;
+  title: string;
+  text: string;
+}
+
+export interface Passage {
+  url: string;
+  title: string;
+  text: string;
+  score: number;
+}
+
+export interface SelectPassagesOptions {
+  limit?: number;
+  maxChars?: number; // total budget across the selected passages
+  perSource?: number; // keeps one long page from crowding out the rest
+}
+
+const CHUNK_CHARS = 1200;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'how', 'in', 'is', 'it', 'of', 'on', 'or',
+  'that', 'the', 'this', 'to', 'was', 'what', 'when', 'where', 'which', 'who', 'why', 'with'
+]);
+
+// Splits text on paragraph boundaries into chunks of roughly `size` characters;
+// paragraphs longer than that are split on sentences.
+export function chunkText(text: string, size: number = CHUNK_CHARS): string[] {
+  const pieces = text.split(/\n{2,}/).map(p => p.trim()).filter(Boolean)
+    .flatMap(p => (p.length > size ? p.match(/[^.!?]+[.!?]*\s*/g) || [p] : [p]));
+
+  const chunks: string[] = [];
+  let current = '';
+  for (const piece of pieces) {
+    if (current && current.length + piece.length > size) {
+      chunks.push(current.trim());
+      current = '';
+    }
+    current += current ? `\n\n${piece}` : piece;
+  }
+  if (current.trim()) chunks.push(current.trim());
+  return chunks;
+}
+
+function terms(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).filter(t => t.length > 1 && !STOPWORDS.has(t));
+}
+
+// BM25 over the chunks of all documents, then greedy selection under the
+// budget and per-source cap. Returned in score order.
+export function selectPassages(query: string, documents: SourceDocument[], options: SelectPassagesOptions = {}): Passage[] {
+  const { limit = 12, maxChars = 12000, perSource = 3 } = options;
+  const queryTerms = Array.from(new Set(terms(query)));
+
+  const chunks = documents.flatMap(doc => chunkText(doc.text).map(text => ({ doc, text, terms: terms(text) })));
+  if (!chunks.length) return [];
+
+  const avgLength = chunks.reduce((sum, c) => sum + c.terms.length, 0) / chunks.length || 1;
+  const documentFrequency = new Map<string, number>();
+  for (const chunk of chunks) {
+    for (const term of new Set(chunk.terms)) {
+      documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+    }
+  }
+
+  const k1 = 1.2;
+  const b = 0.75;
+  const scored = chunks.map((chunk, index) => {
+    const frequency = new Map<string, number>();
+    for (const term of chunk.terms) frequency.set(term, (frequency.get(term) || 0) + 1);
+
+    let score = 0;
+    for (const term of queryTerms) {
+      const tf = frequency.get(term) || 0;
+      if (!tf) continue;
+      const df = documentFrequency.get(term) || 0;
+      const idf = Math.log(1 + (chunks.length - df + 0.5) / (df + 0.5));
+      score += idf * (tf * (k1 + 1)) / (tf + k1 * (1 - b + b * chunk.terms.length / avgLength));
+    }
+    return { chunk, score, index };
+  });
+
+  // Without any term overlap, fall back to document order so early chunks
+  // (usually the lede) still make it in
+  const candidates = scored.some(s => s.score > 0) ? scored.filter(s => s.score > 0) : scored;
+  candidates.sort((x, y) => y.score - x.score || x.index - y.index);
+
+  const selected: Passage[] = [];
+  const perSourceCount = new Map<string, number>();
+  let used = 0;
+  for (const { chunk, score } of candidates) {
+    if (selected.length >= limit) break;
+    const count = perSourceCount.get(chunk.doc.url) || 0;
+    if (count >= perSource || used + chunk.text.length > maxChars) continue;
+
+    selected.push({ url: chunk.doc.url, title: chunk.doc.title, text: chunk.text, score });
+    perSourceCount.set(chunk.doc.url, count + 1);
+    used += chunk.text.length;
+  }
+  return selected;
+}
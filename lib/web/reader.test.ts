@@ -0,0 +1,76 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { describe, expect, it } from 'vitest';
+import { readPage } from './reader';
+
+const fixture = (name: string) => readFileSync(join(__dirname, '__fixtures__', name), 'utf8');
+
+describe('readPage', () => {
+  describe('news article with meta tags', () => {
+    const page = readPage(fixture('news-article.html'), 'https://coastal.example.com/energy/2024/03/tidal?utm=1');
+
+    it('reads title, author, date and site from the meta tags', () => {
+      expect(page.title).toBe('Tidal power comes of age');
+      expect(page.author).toBe('Morgan Ellis');
+      expect(page.publishedAt).toBe('2024-03-18T09:30:00Z');
+      expect(page.siteName).toBe('The Coastal Times');
+      expect(page.description).toMatch(/^New turbines/);
+    });
+
+    it('resolves the canonical URL against the page URL', () => {
+      expect(page.url).toBe('https://coastal.example.com/energy/2024/03/tidal?utm=1');
+      expect(page.canonicalUrl).toBe('https://coastal.example.com/energy/2024/tidal-power-comes-of-age');
+    });
+
+    it('renders the article as markdown without the site chrome', () => {
+      expect(page.markdown.startsWith('# Tidal power comes of age\n\nBy Morgan Ellis\n\nThe four turbines')).toBe(true);
+      expect(page.markdown).toContain('**redesigned blade pitch system**');
+      expect(page.markdown).toContain('*swap whole nacelles*');
+      expect(page.markdown).toContain('## What comes next\n\n- Two more turbines are due next spring.\n- A grid link to Orkney is under review.');
+      for (const noise of ['Subscribe', 'cookies', 'Share', 'Wind power', '©', 'analytics']) {
+        expect(page.markdown).not.toContain(noise);
+      }
+      expect(page.headings).toEqual(['Tidal power comes of age', 'What comes next']);
+    });
+
+    it('rewrites links and lazy-loaded images to absolute URLs', () => {
+      expect(page.markdown).toContain("[operator's annual report](https://coastal.example.com/energy/2024/reports/tidal-2024.pdf)");
+      expect(page.markdown).toContain('![A turbine being lowered into the water](https://coastal.example.com/images/turbine.jpg)');
+      expect(page.links).toEqual([
+        { text: "operator's annual report", href: 'https://coastal.example.com/energy/2024/reports/tidal-2024.pdf' },
+        { text: "regulator's site", href: 'https://gov.example.org/licences/pf-42' }
+      ]);
+      expect(page.images).toEqual([
+        { src: 'https://coastal.example.com/images/turbine.jpg', alt: 'A turbine being lowered into the water' }
+      ]);
+    });
+  });
+
+  describe('blog post with JSON-LD and a base URL', () => {
+    const page = readPage(fixture('blog-post.html'), 'https://blog.example.net/posts/caching');
+
+    it('reads headline, author and date from JSON-LD, skipping malformed blocks', () => {
+      expect(page.title).toBe('Notes on HTTP caching');
+      expect(page.author).toBe('Sam Rivera');
+      expect(page.publishedAt).toBe('2023-11-02');
+    });
+
+    it('falls back to the page URL without a canonical link', () => {
+      expect(page.canonicalUrl).toBe('https://blog.example.net/posts/caching');
+    });
+
+    it('resolves relative links and srcset images against <base href>', () => {
+      expect(page.links).toEqual([{ text: 'part two', href: 'https://blog.example.net/posts/caching-part-two' }]);
+      expect(page.images).toEqual([{ src: 'https://blog.example.net/posts/img/diagram-small.png', alt: 'Cache flow diagram' }]);
+      // Fragment links are kept as plain text
+      expect(page.markdown).toContain('see the footnotes for sources');
+    });
+
+    it('keeps code and drops the sidebar and comments', () => {
+      expect(page.markdown).toContain('Start with `Cache-Control`');
+      expect(page.markdown).toContain('```\nCache-Control: max-age=600, stale-while-revalidate=30\nVary: Accept-Encoding\n```');
+      expect(page.markdown).not.toContain('Archive');
+      expect(page.markdown).not.toContain('Great post');
+    });
+  });
+});
@@ -0,0 +1,217 @@
+import * as cheerio from 'cheerio';
+import type { Cheerio, CheerioAPI } from 'cheerio';
+import { DomNode, imageSource, toMarkdown } from './markdown';
+
+export interface PageLink {
+  text: string;
+  href: string;
+}
+
+export interface PageImage {
+  src: string;
+  alt: string;
+}
+
+export interface ReadablePage {
+  url: string;
+  canonicalUrl: string;
+  title: string;
+  author?: string;
+  publishedAt?: string;
+  siteName?: string;
+  description?: string;
+  markdown: string;
+  text: string;
+  headings: string[];
+  links: PageLink[];
+  images: PageImage[];
+  wordCount: number;
+}
+
+const NOISE_SELECTORS = [
+  'script', 'style', 'noscript', 'template', 'iframe', 'object', 'embed', 'canvas', 'svg', 'form', 'button',
+  'input', 'select', 'textarea', 'nav', 'aside', 'footer', 'dialog',
+  '[role="navigation"]', '[role="banner"]', '[role="contentinfo"]', '[role="complementary"]', '[role="dialog"]',
+  '[aria-hidden="true"]', '[hidden]'
+].join(', ');
+
+const NOISE_PATTERN = /(^|[\s_-])(comments?|sidebar|footer|nav|navbar|menu|share|sharing|social|ad|ads|advert|advertisement|sponsor|promo|related|recommended|cookie|consent|subscribe|newsletter|breadcrumbs?|popup|modal|banner|masthead|skip)([\s_-]|$)/i;
+const CONTENT_PATTERN = /(^|[\s_-])(article|content|main|post|entry|story|body|text)([\s_-]|$)/i;
+const MAIN_SELECTORS = ['[itemprop="articleBody"]', 'article', 'main', '[role="main"]'];
+const MIN_MAIN_TEXT = 250;
+const MAX_LINKS = 100;
+const MAX_IMAGES = 30;
+
+// Readability-style extraction: strip boilerplate, pick the element holding
+// the most paragraph text, and render it as Markdown with absolute URLs.
+export function readPage(html: string, url: string): ReadablePage {
+  const $ = cheerio.load(html);
+  const metadata = readMetadata($, url);
+  const base = resolveUrl($('base[href]').attr('href') || '', url) || url;
+  const resolve = (href: string) => resolveUrl(href, base);
+
+  removeNoise($);
+  const main = findMainContent($);
+  const root = main.get(0) as unknown as DomNode | undefined;
+
+  const markdown = root ? toMarkdown(root, { resolve }) : '';
+  const text = main.text().replace(/\s+/g, ' ').trim();
+
+  const links: PageLink[] = [];
+  const seenLinks = new Set<string>();
+  main.find('a[href]').each((_, el) => {
+    const href = resolve($(el).attr('href') || '');
+    if (!href || !/^https?:/.test(href) || seenLinks.has(href) || links.length >= MAX_LINKS) return;
+    seenLinks.add(href);
+    links.push({ text: $(el).text().replace(/\s+/g, ' ').trim(), href });
+  });
+
+  const images: PageImage[] = [];
+  const seenImages = new Set<string>();
+  main.find('img').each((_, el) => {
+    const src = imageSource((el as unknown as DomNode).attribs || {});
+    const resolved = src ? resolve(src) : null;
+    if (!resolved || resolved.startsWith('data:') || seenImages.has(resolved) || images.length >= MAX_IMAGES) return;
+    seenImages.add(resolved);
+    images.push({ src: resolved, alt: ($(el).attr('alt') || '').trim() });
+  });
+
+  const headings = main.find('h1, h2, h3').toArray()
+    .map(el => $(el).text().replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+
+  return {
+    ...metadata,
+    url,
+    markdown,
+    text,
+    headings,
+    links,
+    images,
+    wordCount: (text.match(/\S+/g) || []).length
+  };
+}
+
+function resolveUrl(href: string, base: string): string | null {
+  const trimmed = href.trim();
+  if (!trimmed || trimmed.startsWith('#')) return null;
+  try {
+    return new URL(trimmed, base).toString();
+  } catch {
+    return null;
+  }
+}
+
+function readMetadata($: CheerioAPI, url: string) {
+  const meta = (...selectors: string[]) => {
+    for (const selector of selectors) {
+      const value = $(selector).first().attr('content')?.trim();
+      if (value) return value;
+    }
+    return undefined;
+  };
+  const jsonLd = readJsonLd($);
+
+  const canonical = $('link[rel="canonical"]').attr('href') || meta('meta[property="og:url"]');
+  const title = meta('meta[property="og:title"]', 'meta[name="twitter:title"]')
+    || jsonLd.headline
+    || $('title').first().text().trim()
+    || $('h1').first().text().trim();
+
+  const author = meta('meta[name="author"]', 'meta[property="article:author"]', 'meta[name="parsely-author"]')
+    || jsonLd.author
+    || $('[rel="author"], [itemprop="author"]').first().text().replace(/\s+/g, ' ').trim()
+    || undefined;
+
+  const publishedAt = meta(
+    'meta[property="article:published_time"]',
+    'meta[name="date"]',
+    'meta[name="publish-date"]',
+    'meta[itemprop="datePublished"]'
+  ) || jsonLd.datePublished || $('time[datetime]').first().attr('datetime') || undefined;
+
+  return {
+    canonicalUrl: (canonical && resolveUrl(canonical, url)) || url,
+    title,
+    author: author && !/^https?:/.test(author) ? author : undefined,
+    publishedAt,
+    siteName: meta('meta[property="og:site_name"]'),
+    description: meta('meta[name="description"]', 'meta[property="og:description"]')
+  };
+}
+
+// First Article-like object in any JSON-LD block
+function readJsonLd($: CheerioAPI): { headline?: string; author?: string; datePublished?: string } {
+  for (const el of $('script[type="application/ld+json"]').toArray()) {
+    try {
+      const parsed = JSON.parse($(el).text());
+      const items: any[] = Array.isArray(parsed) ? parsed : parsed['@graph'] || [parsed];
+      const article = items.find(item => /Article|Posting|Report/.test(String(item?.['@type'])));
+      if (!article) continue;
+
+      const author = Array.isArray(article.author) ? article.author[0] : article.author;
+      return {
+        headline: typeof article.headline === 'string' ? article.headline : undefined,
+        author: typeof author === 'string' ? author : author?.name,
+        datePublished: article.datePublished
+      };
+    } catch {
+      // Malformed JSON-LD is common; ignore it
+    }
+  }
+  return {};
+}
+
+function removeNoise($: CheerioAPI) {
+  $('head').remove();
+  $(NOISE_SELECTORS).remove();
+  $('body *').each((_, el) => {
+    const node = $(el);
+    const signature = `${node.attr('class') || ''} ${node.attr('id') || ''}`;
+    if (NOISE_PATTERN.test(signature) && !CONTENT_PATTERN.test(signature) && el.tagName !== 'article') {
+      node.remove();
+    }
+  });
+  // Article headers carry the title, byline and date; site headers are noise
+  $('header').filter((_, el) => !$(el).closest('article, main').length).remove();
+}
+
+function findMainContent($: CheerioAPI): Cheerio<any> {
+  for (const selector of MAIN_SELECTORS) {
+    const candidates = $(selector).toArray()
+      .map(el => ({ el, length: $(el).text().replace(/\s+/g, ' ').trim().length }))
+      .sort((a, b) => b.length - a.length);
+    if (candidates.length && candidates[0].length >= MIN_MAIN_TEXT) {
+      return $(candidates[0].el);
+    }
+  }
+
+  // Score containers by the paragraphs they hold, favouring long, comma-rich
+  // prose and penalising link-heavy blocks
+  const scores = new Map<any, number>();
+  $('p, pre, td, blockquote').each((_, el) => {
+    const text = $(el).text().replace(/\s+/g, ' ').trim();
+    if (text.length < 25) return;
+
+    const score = 1 + text.split(',').length + Math.min(Math.floor(text.length / 100), 3);
+    const parent = $(el).parent();
+    const grandparent = parent.parent();
+    if (parent.length) scores.set(parent.get(0), (scores.get(parent.get(0)) || 0) + score);
+    if (grandparent.length) scores.set(grandparent.get(0), (scores.get(grandparent.get(0)) || 0) + score / 2);
+  });
+
+  let best: any = null;
+  let bestScore = 0;
+  for (const [el, score] of Array.from(scores.entries())) {
+    const node = $(el);
+    const textLength = node.text().length || 1;
+    const linkLength = node.find('a').text().length;
+    const adjusted = score * (1 - linkLength / textLength);
+    if (adjusted > bestScore) {
+      best = el;
+      bestScore = adjusted;
+    }
+  }
+
+  return best ? $(best) : $('body').length ? $('body') : $.root();
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { isPathAllowed, parseRobots } from './robots';
+
+const ROBOTS = `
+# Default rules
+User-agent: *
+Disallow: /private/
+Disallow: /*.pdf$
+Allow: /private/press/
+
+User-agent: ScynVBot
+User-agent: OtherBot
+Disallow: /drafts
+Allow: /drafts/public
+
+User-agent: BlockedBot
+Disallow: /
+`;
+
+describe('robots.txt', () => {
+  const groups = parseRobots(ROBOTS);
+
+  it('applies the * group to agents without their own group', () => {
+    const agent = 'SomeCrawler/2.0';
+    expect(isPathAllowed(groups, agent, '/articles/1')).toBe(true);
+    expect(isPathAllowed(groups, agent, '/private/notes')).toBe(false);
+    expect(isPathAllowed(groups, agent, '/private/press/release')).toBe(true);
+  });
+
+  it('matches wildcards and end anchors', () => {
+    const agent = 'SomeCrawler/2.0';
+    expect(isPathAllowed(groups, agent, '/files/report.pdf')).toBe(false);
+    expect(isPathAllowed(groups, agent, '/files/report.pdf?download=1')).toBe(true);
+  });
+
+  it('uses only the most specific group, shared by consecutive user-agent lines', () => {
+    for (const agent of ['ScynVBot/1.0', 'OtherBot']) {
+      expect(isPathAllowed(groups, agent, '/drafts/next')).toBe(false);
+      expect(isPathAllowed(groups, agent, '/drafts/public/post')).toBe(true);
+      // The * rules do not apply once a named group matches
+      expect(isPathAllowed(groups, agent, '/private/notes')).toBe(true);
+    }
+    expect(isPathAllowed(groups, 'BlockedBot', '/anything')).toBe(false);
+  });
+
+  it('lets Allow win a tie between equally long rules', () => {
+    const tie = parseRobots('User-agent: *\nDisallow: /page\nAllow: /page');
+    expect(isPathAllowed(tie, 'ScynVBot', '/page')).toBe(true);
+  });
+
+  it('allows everything with an empty Disallow or no rules', () => {
+    expect(isPathAllowed(parseRobots('User-agent: *\nDisallow:'), 'ScynVBot', '/any')).toBe(true);
+    expect(isPathAllowed(parseRobots(''), 'ScynVBot', '/any')).toBe(true);
+  });
+});
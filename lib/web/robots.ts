@@ -0,0 +1,114 @@
+import { fetchPublicUrl } from './address';
+
+interface RobotsRule {
+  allow: boolean;
+  pattern: RegExp;
+  length: number;
+}
+
+interface RobotsGroup {
+  agents: string[];
+  rules: RobotsRule[];
+}
+
+const ROBOTS_TTL_MS = 60 * 60 * 1000;
+const ROBOTS_TIMEOUT_MS = 5000;
+const MAX_CACHED_ORIGINS = 500;
+
+const cache = new Map<string, { groups: RobotsGroup[]; expires: number }>();
+
+// Parses robots.txt into user-agent groups; consecutive User-agent lines share
+// the rules that follow them.
+export function parseRobots(text: string): RobotsGroup[] {
+  const groups: RobotsGroup[] = [];
+  let current: RobotsGroup | null = null;
+  let collectingAgents = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'user-agent') {
+      if (!current || !collectingAgents) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      collectingAgents = true;
+    } else if ((field === 'allow' || field === 'disallow') && current) {
+      collectingAgents = false;
+      // An empty Disallow means everything is allowed
+      if (!value) continue;
+      current.rules.push({ allow: field === 'allow', pattern: toPattern(value), length: value.length });
+    } else {
+      collectingAgents = false;
+    }
+  }
+
+  return groups;
+}
+
+function toPattern(path: string): RegExp {
+  const anchored = path.endsWith('$');
+  const body = (anchored ? path.slice(0, -1) : path)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
+
+// Most specific group for the agent wins, then the longest matching rule;
+// Allow wins ties, as in RFC 9309.
+export function isPathAllowed(groups: RobotsGroup[], userAgent: string, path: string): boolean {
+  const agent = userAgent.toLowerCase();
+  const matching = groups.filter(group => group.agents.some(name => name !== '*' && agent.includes(name)));
+  const applicable = matching.length ? matching : groups.filter(group => group.agents.includes('*'));
+
+  let best: RobotsRule | null = null;
+  for (const rule of applicable.flatMap(group => group.rules)) {
+    if (!rule.pattern.test(path)) continue;
+    if (!best || rule.length > best.length || (rule.length === best.length && rule.allow)) {
+      best = rule;
+    }
+  }
+  return best ? best.allow : true;
+}
+
+async function loadRobots(origin: string, userAgent: string): Promise<RobotsGroup[]> {
+  const cached = cache.get(origin);
+  if (cached && cached.expires > Date.now()) return cached.groups;
+
+  let groups: RobotsGroup[] = [];
+  try {
+    // Redirects are followed only to public addresses, like page fetches
+    const { response } = await fetchPublicUrl(new URL('/robots.txt', origin), {
+      headers: { 'User-Agent': userAgent },
+      signal: AbortSignal.timeout(ROBOTS_TIMEOUT_MS)
+    });
+    if (response.ok) {
+      groups = parseRobots(await response.text());
+    } else if (response.status === 401 || response.status === 403) {
+      // Access to robots.txt itself is restricted: treat the site as off limits
+      groups = [{ agents: ['*'], rules: [{ allow: false, pattern: /^\//, length: 1 }] }];
+    }
+  } catch (error) {
+    // Unreachable robots.txt is treated as no restrictions
+    console.error(`robots.txt fetch failed for ${origin}:`, error);
+  }
+
+  if (cache.size >= MAX_CACHED_ORIGINS) {
+    cache.delete(cache.keys().next().value as string);
+  }
+  cache.set(origin, { groups, expires: Date.now() + ROBOTS_TTL_MS });
+  return groups;
+}
+
+export async function isAllowedByRobots(url: string, userAgent: string): Promise<boolean> {
+  const { origin, pathname, search } = new URL(url);
+  const groups = await loadRobots(origin, userAgent);
+  return isPathAllowed(groups, userAgent, `${pathname}${search}`);
+}
@@ -0,0 +1,9 @@
+/** @type {import('next').NextConfig} */
+const nextConfig = {
+  experimental: {
+    // pdf-parse loads the pdf.js worker from disk at runtime, so it can't be bundled
+    serverComponentsExternalPackages: ['pdf-parse'],
+  },
+};
+
+module.exports = nextConfig;
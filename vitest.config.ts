@@ -0,0 +1,15 @@
+import { resolve } from 'path';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: { '@': resolve(__dirname) }
+  },
+  test: {
+    include: ['**/*.test.ts'],
+    exclude: ['node_modules', '.next'],
+    environment: 'node',
+    // Sandbox tests start real processes
+    testTimeout: 30000
+  }
+});